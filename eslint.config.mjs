@@ -38,4 +38,30 @@ export default [
 			'@typescript-eslint/no-unused-vars': ['error', { 'argsIgnorePattern': '^_' }]
 		},
 	},
+	{
+		// Scripts that run inside webviews
+		files: ['media/**/*.js'],
+		languageOptions: {
+			sourceType: 'script',
+			globals: {
+				acquireVsCodeApi: 'readonly',
+				monaco: 'readonly',
+				require: 'readonly',
+				window: 'readonly',
+				document: 'readonly',
+				navigator: 'readonly',
+				console: 'readonly',
+				setTimeout: 'readonly',
+				clearTimeout: 'readonly',
+				atob: 'readonly',
+				getComputedStyle: 'readonly',
+				requestAnimationFrame: 'readonly',
+				Image: 'readonly',
+				ResizeObserver: 'readonly',
+			},
+		},
+		rules: {
+			'@typescript-eslint/no-require-imports': 'off',
+		},
+	},
 ];
\ No newline at end of file
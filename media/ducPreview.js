@@ -0,0 +1,402 @@
+// @ts-check
+
+// Script run within the local Duc Preview webview. It draws the scene built
+// by the extension from the decoded document on a canvas, without any
+// network access.
+(function () {
+	const vscode = acquireVsCodeApi();
+
+	/** Zoom limits, as screen pixels per document unit */
+	const MIN_ZOOM = 0.001;
+	const MAX_ZOOM = 1000;
+	/** Zoom factor of the zoom buttons */
+	const ZOOM_STEP = 1.25;
+	/** Space kept around the drawing when fitting it to the view, in screen pixels */
+	const FIT_MARGIN = 24;
+
+	/**
+	 * @typedef {{
+	 *   id: string, type: string, layerId?: string, kind: string,
+	 *   x: number, y: number, width: number, height: number, angle: number,
+	 *   opacity: number, stroke?: string, fill?: string, strokeWidth: number,
+	 *   startAngle?: number, endAngle?: number,
+	 *   points?: [number, number][], closed?: boolean,
+	 *   text?: string, fontSize?: number, fontFamily?: string, align?: CanvasTextAlign, lineHeight?: number,
+	 *   fileId?: string
+	 * }} SceneElement
+	 * @typedef {{ id: string, name: string, visible: boolean }} SceneLayer
+	 * @typedef {{ elements: SceneElement[], layers: SceneLayer[], images: Record<string, { mime: string, data: string }> }} DucScene
+	 */
+
+	const canvas = /** @type {HTMLCanvasElement} */ (document.getElementById('canvas'));
+	const context = /** @type {CanvasRenderingContext2D} */ (canvas.getContext('2d'));
+	const status = /** @type {HTMLElement} */ (document.getElementById('status'));
+	const layerList = /** @type {HTMLElement} */ (document.getElementById('layers'));
+	const zoomLabel = /** @type {HTMLElement} */ (document.getElementById('zoom-level'));
+
+	/** @type {DucScene | undefined} */
+	let scene;
+	/** Layers hidden in the preview, initially the ones hidden in the document */
+	const hiddenLayers = new Set();
+	/** Layers whose visibility was set from the document, later the user's toggles win */
+	const knownLayers = new Set();
+	/**
+	 * File of the scene shown, updates of the same file keep the view and the layer toggles
+	 * @type {string | undefined}
+	 */
+	let shownFileName;
+	/** @type {Map<string, HTMLImageElement>} */
+	const images = new Map();
+	/** Screen position of the document origin and screen pixels per document unit */
+	const view = { x: 0, y: 0, zoom: 1 };
+	let renderQueued = false;
+
+	/**
+	 * @param {string} name
+	 * @param {string} fallback
+	 */
+	function themeColor(name, fallback) {
+		return getComputedStyle(document.body).getPropertyValue(name).trim() || fallback;
+	}
+
+	function requestRender() {
+		if (!renderQueued) {
+			renderQueued = true;
+			requestAnimationFrame(() => {
+				renderQueued = false;
+				render();
+			});
+		}
+	}
+
+	/**
+	 * @param {SceneElement} element
+	 */
+	function isVisible(element) {
+		return !element.layerId || !hiddenLayers.has(element.layerId);
+	}
+
+	function render() {
+		const ratio = window.devicePixelRatio || 1;
+		const width = canvas.clientWidth;
+		const height = canvas.clientHeight;
+		if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+			canvas.width = Math.round(width * ratio);
+			canvas.height = Math.round(height * ratio);
+		}
+
+		context.setTransform(1, 0, 0, 1, 0, 0);
+		context.clearRect(0, 0, canvas.width, canvas.height);
+		zoomLabel.textContent = `${Math.round(view.zoom * 100)}%`;
+		if (!scene) {
+			return;
+		}
+
+		context.setTransform(ratio * view.zoom, 0, 0, ratio * view.zoom, ratio * view.x, ratio * view.y);
+		const foreground = themeColor('--vscode-editor-foreground', '#cccccc');
+		for (const element of scene.elements) {
+			if (isVisible(element)) {
+				context.save();
+				drawElement(element, foreground);
+				context.restore();
+			}
+		}
+	}
+
+	/**
+	 * @param {SceneElement} element
+	 * @param {string} foreground
+	 */
+	function drawElement(element, foreground) {
+		const { x, y, width, height } = element;
+		context.globalAlpha = Math.min(1, Math.max(0, element.opacity));
+		if (element.angle) {
+			context.translate(x + width / 2, y + height / 2);
+			context.rotate(element.angle);
+			context.translate(-(x + width / 2), -(y + height / 2));
+		}
+		// Keep hairlines visible at any zoom
+		context.lineWidth = Math.max(element.strokeWidth, 1 / view.zoom);
+		context.strokeStyle = element.stroke ?? foreground;
+		context.fillStyle = element.fill ?? 'transparent';
+
+		switch (element.kind) {
+			case 'rectangle':
+				context.beginPath();
+				context.rect(x, y, width, height);
+				fillAndStroke(element);
+				break;
+
+			case 'ellipse': {
+				const isArc = element.startAngle !== undefined && element.endAngle !== undefined;
+				context.beginPath();
+				context.ellipse(x + width / 2, y + height / 2, Math.abs(width / 2), Math.abs(height / 2), 0,
+					isArc ? element.startAngle ?? 0 : 0, isArc ? element.endAngle ?? 0 : 2 * Math.PI);
+				if (isArc) {
+					context.stroke();
+				} else {
+					fillAndStroke(element);
+				}
+				break;
+			}
+
+			case 'polyline': {
+				const points = element.points ?? [];
+				context.beginPath();
+				points.forEach(([px, py], i) => i === 0 ? context.moveTo(x + px, y + py) : context.lineTo(x + px, y + py));
+				if (element.closed) {
+					context.closePath();
+					fillAndStroke(element);
+				} else {
+					context.stroke();
+				}
+				break;
+			}
+
+			case 'text': {
+				const fontSize = element.fontSize ?? 20;
+				const lineHeight = fontSize * (element.lineHeight ?? 1.25);
+				context.font = `${fontSize}px ${element.fontFamily ? `"${element.fontFamily}", ` : ''}sans-serif`;
+				context.fillStyle = element.stroke ?? foreground;
+				context.textBaseline = 'top';
+				context.textAlign = element.align ?? 'left';
+				const textX = element.align === 'center' ? x + width / 2 : element.align === 'right' ? x + width : x;
+				(element.text ?? '').split('\n').forEach((line, i) => context.fillText(line, textX, y + i * lineHeight));
+				break;
+			}
+
+			case 'image': {
+				const image = element.fileId ? images.get(element.fileId) : undefined;
+				if (image && image.complete && image.naturalWidth > 0) {
+					context.drawImage(image, x, y, width, height);
+				} else {
+					drawPlaceholder(element, element.fileId ? 'Image' : 'Image without file');
+				}
+				break;
+			}
+
+			default:
+				drawPlaceholder(element, element.type || 'Element');
+				break;
+		}
+	}
+
+	/**
+	 * @param {SceneElement} element
+	 */
+	function fillAndStroke(element) {
+		if (element.fill) {
+			context.fill();
+		}
+		context.stroke();
+	}
+
+	/**
+	 * Dashed bounds of elements that can't be drawn, with their type
+	 * @param {SceneElement} element
+	 * @param {string} label
+	 */
+	function drawPlaceholder(element, label) {
+		context.setLineDash([4 / view.zoom, 4 / view.zoom]);
+		context.lineWidth = 1 / view.zoom;
+		context.strokeRect(element.x, element.y, element.width, element.height);
+		context.setLineDash([]);
+		context.font = `${11 / view.zoom}px sans-serif`;
+		context.fillStyle = context.strokeStyle;
+		context.textBaseline = 'top';
+		context.fillText(label, element.x + 2 / view.zoom, element.y + 2 / view.zoom);
+	}
+
+	/**
+	 * Bounds of the visible elements in document units
+	 */
+	function getSceneBounds() {
+		let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+		/**
+		 * @param {number} px
+		 * @param {number} py
+		 */
+		const include = (px, py) => {
+			minX = Math.min(minX, px);
+			minY = Math.min(minY, py);
+			maxX = Math.max(maxX, px);
+			maxY = Math.max(maxY, py);
+		};
+		for (const element of scene?.elements ?? []) {
+			if (!isVisible(element)) {
+				continue;
+			}
+			include(element.x, element.y);
+			include(element.x + element.width, element.y + element.height);
+			for (const [px, py] of element.points ?? []) {
+				include(element.x + px, element.y + py);
+			}
+		}
+		return minX <= maxX ? { minX, minY, maxX, maxY } : undefined;
+	}
+
+	function fitToView() {
+		const bounds = getSceneBounds();
+		const width = canvas.clientWidth;
+		const height = canvas.clientHeight;
+		if (!bounds) {
+			Object.assign(view, { x: width / 2, y: height / 2, zoom: 1 });
+		} else {
+			const sceneWidth = Math.max(bounds.maxX - bounds.minX, 1e-6);
+			const sceneHeight = Math.max(bounds.maxY - bounds.minY, 1e-6);
+			const zoom = clampZoom(Math.min(
+				Math.max(width - 2 * FIT_MARGIN, 1) / sceneWidth,
+				Math.max(height - 2 * FIT_MARGIN, 1) / sceneHeight));
+			view.zoom = zoom;
+			view.x = (width - sceneWidth * zoom) / 2 - bounds.minX * zoom;
+			view.y = (height - sceneHeight * zoom) / 2 - bounds.minY * zoom;
+		}
+		requestRender();
+	}
+
+	/**
+	 * @param {number} zoom
+	 */
+	function clampZoom(zoom) {
+		return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+	}
+
+	/**
+	 * Zoom keeping the document point under the given screen position in place
+	 * @param {number} factor
+	 * @param {number} screenX
+	 * @param {number} screenY
+	 */
+	function zoomAt(factor, screenX, screenY) {
+		const zoom = clampZoom(view.zoom * factor);
+		view.x = screenX - (screenX - view.x) * zoom / view.zoom;
+		view.y = screenY - (screenY - view.y) * zoom / view.zoom;
+		view.zoom = zoom;
+		requestRender();
+	}
+
+	function renderLayers() {
+		layerList.replaceChildren();
+		const layers = scene?.layers ?? [];
+		layerList.hidden = layers.length === 0;
+		for (const layer of layers) {
+			const label = document.createElement('label');
+			const checkbox = document.createElement('input');
+			checkbox.type = 'checkbox';
+			checkbox.checked = !hiddenLayers.has(layer.id);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					hiddenLayers.delete(layer.id);
+				} else {
+					hiddenLayers.add(layer.id);
+				}
+				requestRender();
+			});
+			label.append(checkbox, layer.name);
+			label.title = layer.id;
+			layerList.append(label);
+		}
+	}
+
+	/**
+	 * @param {DucScene} newScene
+	 * @param {string} fileName
+	 */
+	function showScene(newScene, fileName) {
+		const isUpdate = fileName === shownFileName;
+		shownFileName = fileName;
+		scene = newScene;
+		if (!isUpdate) {
+			hiddenLayers.clear();
+			knownLayers.clear();
+		}
+		for (const layer of scene.layers) {
+			if (!knownLayers.has(layer.id)) {
+				knownLayers.add(layer.id);
+				if (!layer.visible) {
+					hiddenLayers.add(layer.id);
+				}
+			}
+		}
+
+		images.clear();
+		for (const [fileId, file] of Object.entries(scene.images)) {
+			const image = new Image();
+			image.onload = requestRender;
+			image.src = `data:${file.mime};base64,${file.data}`;
+			images.set(fileId, image);
+		}
+
+		const count = scene.elements.length;
+		status.textContent = `${fileName} · ${count} ${count === 1 ? 'element' : 'elements'}`;
+		status.classList.remove('error');
+		renderLayers();
+		if (isUpdate) {
+			requestRender();
+		} else {
+			fitToView();
+		}
+	}
+
+	function registerViewControls() {
+		/** @type {{ pointerId: number, x: number, y: number } | undefined} */
+		let drag;
+		canvas.addEventListener('pointerdown', event => {
+			drag = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+			canvas.setPointerCapture(event.pointerId);
+			canvas.classList.add('panning');
+		});
+		canvas.addEventListener('pointermove', event => {
+			if (drag?.pointerId === event.pointerId) {
+				view.x += event.clientX - drag.x;
+				view.y += event.clientY - drag.y;
+				drag.x = event.clientX;
+				drag.y = event.clientY;
+				requestRender();
+			}
+		});
+		const endDrag = () => {
+			drag = undefined;
+			canvas.classList.remove('panning');
+		};
+		canvas.addEventListener('pointerup', endDrag);
+		canvas.addEventListener('pointercancel', endDrag);
+
+		canvas.addEventListener('wheel', event => {
+			event.preventDefault();
+			const rect = canvas.getBoundingClientRect();
+			// Trackpad pinches arrive as wheel events with the control key held
+			const speed = event.ctrlKey ? 0.01 : 0.002;
+			zoomAt(Math.exp(-event.deltaY * speed), event.clientX - rect.left, event.clientY - rect.top);
+		}, { passive: false });
+
+		const zoomAtCenter = (/** @type {number} */ factor) => zoomAt(factor, canvas.clientWidth / 2, canvas.clientHeight / 2);
+		document.getElementById('zoom-in')?.addEventListener('click', () => zoomAtCenter(ZOOM_STEP));
+		document.getElementById('zoom-out')?.addEventListener('click', () => zoomAtCenter(1 / ZOOM_STEP));
+		document.getElementById('fit')?.addEventListener('click', fitToView);
+
+		new ResizeObserver(requestRender).observe(canvas);
+	}
+
+	window.addEventListener('message', event => {
+		const message = event.data;
+		switch (message.type) {
+			case 'scene':
+				showScene(message.scene, message.fileName);
+				break;
+
+			case 'error':
+				scene = undefined;
+				status.textContent = message.message;
+				status.classList.add('error');
+				renderLayers();
+				requestRender();
+				break;
+		}
+	});
+
+	registerViewControls();
+
+	// Signal to the extension that the webview is ready to receive the scene
+	vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,1629 @@
+// @ts-check
+
+// Script run within the Duc Viewer webview. It hosts the Monaco editor
+// displaying the decoded JSON and keeps it in sync with the extension.
+(function () {
+	const vscode = acquireVsCodeApi();
+
+	/** Delay before an edit in the editor is reported to the extension */
+	const EDIT_DEBOUNCE_MS = 300;
+
+	/** @type {any} */
+	let editor;
+	/** Set while applying content coming from the extension, so it is not echoed back */
+	let applyingRemoteContent = false;
+	/** @type {ReturnType<typeof setTimeout> | undefined} */
+	let pendingEdit;
+	/** Path to reveal once the editor has been created */
+	let pendingRevealPath;
+	/** @type {string[]} */
+	let highlightDecorations = [];
+	/** @type {ReturnType<typeof setTimeout> | undefined} */
+	let highlightTimer;
+
+	/** How long a revealed node stays highlighted */
+	const HIGHLIGHT_DURATION_MS = 1500;
+
+	/**
+	 * Binary fields of the document, sent by the extension
+	 * @type {{ path: (string | number)[], mime: string, extension: string, isImage: boolean, size: number }[]}
+	 */
+	let binaryFields = [];
+	/**
+	 * Text ranges of the binary fields, computed once per model version
+	 * @type {{ versionId: number, ranges: { field: typeof binaryFields[number], start: number, end: number }[] } | undefined}
+	 */
+	let binaryRanges;
+	/** @type {any} */
+	let codeLensEmitter;
+
+	/** How long to wait for the extension to describe a hovered field */
+	const HOVER_TIMEOUT_MS = 2000;
+	let nextHoverRequestId = 0;
+	/** @type {Map<number, (markdown: string | undefined) => void>} */
+	const pendingHovers = new Map();
+
+	/** Delay after typing before a query is run */
+	const QUERY_DEBOUNCE_MS = 300;
+	let nextQueryRequestId = 0;
+	/** Query whose results are shown, empty when there is none */
+	let currentQuery = '';
+	/** @type {ReturnType<typeof setTimeout> | undefined} */
+	let pendingQuery;
+	/** Reveal the first match once the results of the running query arrive */
+	let revealFirstMatch = false;
+
+	/** Browsers cap the height of elements, longer virtualized lists scroll proportionally */
+	const MAX_SCROLL_HEIGHT = 1000000;
+
+	/** Bytes shown per row of the hex view */
+	const HEX_BYTES_PER_ROW = 16;
+	/** Height of a row of the hex view, as set by the .hex-row style */
+	const HEX_ROW_HEIGHT = 18;
+	/** Delay after moving the cursor before the bytes of the node under it are selected */
+	const HEX_SELECTION_DEBOUNCE_MS = 100;
+	/** Whether the extension wants to know the selected node, e.g. for a preview */
+	let selectionTracking = false;
+	/** Path last reported as selected, serialized */
+	let reportedSelection = '';
+
+	/** Bytes of the file requested from the extension at once */
+	const HEX_PAGE_SIZE = 4096;
+	/** Pages of bytes kept once they are scrolled out of view */
+	const MAX_HEX_PAGES = 64;
+
+	/** @typedef {{ start: number, end: number, kind: string, path: (string | number)[], label: string }} HexRegion */
+	/**
+	 * Bytes of a page of the file and the regions overlapping it, by start
+	 * @typedef {{ bytes: Uint8Array, blocks: HexRegion[], inline: HexRegion[] }} HexPage
+	 */
+	/**
+	 * The file shown in the hex view. Its pages are requested as their rows
+	 * scroll into view, and are null while requested.
+	 * @type {{ size: number, pages: Map<number, HexPage | null>, isDirty: boolean, notes: string[] } | undefined}
+	 */
+	let hexData;
+	/** Whether the bytes must be requested again before the hex view is shown */
+	let hexStale = true;
+	/** Increased whenever the bytes shown are outdated, answers to older requests are ignored */
+	let hexGeneration = 0;
+	let nextHexRangesRequestId = 0;
+	/** Byte ranges of the selected JSON node @type {{ start: number, end: number }[]} */
+	let hexSelection = [];
+	/** First row currently rendered in the hex view */
+	let hexFirstRow = 0;
+	/** @type {ReturnType<typeof setTimeout> | undefined} */
+	let hexSelectionTimer;
+
+	/** Height of a row of the tree, as set by the .tree-row style */
+	const TREE_ROW_HEIGHT = 22;
+	/** Number of children requested at once when a tree node is expanded or scrolled to its end */
+	const TREE_PAGE_SIZE = 500;
+
+	/**
+	 * A node of the document shown in tree mode, with the children loaded so far
+	 * @typedef {{ path: (string | number)[], key: string | number, type: string, preview: string, childCount: number, parent?: TreeNode, children?: TreeNode[], expanded: boolean, loading?: Promise<void> }} TreeNode
+	 */
+	/** Whether the document is shown as editable text or as a lazily loaded tree */
+	let viewMode = 'text';
+	/** Root of the document in tree mode @type {TreeNode | undefined} */
+	let treeRoot;
+	/**
+	 * Rows of the expanded nodes in display order, `more` rows stand for children not loaded yet
+	 * @type {{ node: TreeNode, depth: number, more?: boolean }[]}
+	 */
+	let treeRowList = [];
+	/** Paths of the expanded nodes, kept when the document changes @type {Set<string>} */
+	const treeExpanded = new Set();
+	/** @type {TreeNode | undefined} */
+	let treeSelected;
+	/** First row currently rendered in the tree */
+	let treeFirstRow = 0;
+	let nextTreeRequestId = 0;
+	/** @type {Map<number, (message: { total?: number, children?: TreeNode[] }) => void>} */
+	const pendingTreeRequests = new Map();
+
+	/**
+	 * JSON being received from the extension in chunks
+	 * @type {{ transfer: number, length: number, received: number, chunks: string[], onComplete: (content: string) => void } | undefined}
+	 */
+	let incomingContent;
+
+	const queryInput = /** @type {HTMLInputElement} */ (document.getElementById('query-input'));
+	const queryStatus = /** @type {HTMLElement} */ (document.getElementById('query-status'));
+	const queryResults = /** @type {HTMLUListElement} */ (document.getElementById('query-results'));
+	const queryCopy = /** @type {HTMLButtonElement} */ (document.getElementById('query-copy'));
+	const queryExport = /** @type {HTMLButtonElement} */ (document.getElementById('query-export'));
+	const schemaLabel = /** @type {HTMLElement} */ (document.getElementById('schema-label'));
+	const loadProgress = /** @type {HTMLElement} */ (document.getElementById('load-progress'));
+	const loadProgressBar = /** @type {HTMLElement} */ (document.getElementById('load-progress-bar'));
+	const loadProgressLabel = /** @type {HTMLElement} */ (document.getElementById('load-progress-label'));
+	const modeToggle = /** @type {HTMLButtonElement} */ (document.getElementById('mode-toggle'));
+	const editorElement = /** @type {HTMLElement} */ (document.getElementById('editor'));
+	const treeView = /** @type {HTMLElement} */ (document.getElementById('tree'));
+	const treeSpacer = /** @type {HTMLElement} */ (document.getElementById('tree-spacer'));
+	const treeRows = /** @type {HTMLElement} */ (document.getElementById('tree-rows'));
+	const viewToggle = /** @type {HTMLButtonElement} */ (document.getElementById('view-toggle'));
+	const hexView = /** @type {HTMLElement} */ (document.getElementById('hex-view'));
+	const hexStatus = /** @type {HTMLElement} */ (document.getElementById('hex-status'));
+	const hexScroll = /** @type {HTMLElement} */ (document.getElementById('hex-scroll'));
+	const hexSpacer = /** @type {HTMLElement} */ (document.getElementById('hex-spacer'));
+	const hexRows = /** @type {HTMLElement} */ (document.getElementById('hex-rows'));
+
+	/**
+	 * @param {string} text
+	 * @param {number} i
+	 */
+	function skipWhitespace(text, i) {
+		while (i < text.length && /\s/.test(text[i])) {
+			i++;
+		}
+		return i;
+	}
+
+	/**
+	 * @param {string} text
+	 * @param {number} i offset of the opening quote
+	 * @returns {number} offset just after the closing quote
+	 */
+	function skipString(text, i) {
+		i++;
+		while (i < text.length) {
+			if (text[i] === '\\') {
+				i += 2;
+			} else if (text[i] === '"') {
+				return i + 1;
+			} else {
+				i++;
+			}
+		}
+		return i;
+	}
+
+	/**
+	 * @param {string} text
+	 * @param {number} i offset of the start of a value
+	 * @returns {number} offset just after the value
+	 */
+	function skipValue(text, i) {
+		i = skipWhitespace(text, i);
+		const ch = text[i];
+		if (ch === '"') {
+			return skipString(text, i);
+		}
+		if (ch === '{' || ch === '[') {
+			let depth = 0;
+			while (i < text.length) {
+				const c = text[i];
+				if (c === '"') {
+					i = skipString(text, i);
+					continue;
+				}
+				if (c === '{' || c === '[') {
+					depth++;
+				} else if (c === '}' || c === ']') {
+					depth--;
+					if (depth === 0) {
+						return i + 1;
+					}
+				}
+				i++;
+			}
+			return i;
+		}
+		while (i < text.length && !/[,}\]\s]/.test(text[i])) {
+			i++;
+		}
+		return i;
+	}
+
+	/**
+	 * Find the text range of the node at `path` without parsing the whole document
+	 *
+	 * @param {string} text JSON text
+	 * @param {(string | number)[]} path
+	 * @returns {{ start: number, end: number } | undefined} start includes the property key
+	 */
+	function findJsonPathRange(text, path) {
+		let valueStart = skipWhitespace(text, 0);
+		let start = valueStart;
+
+		for (const segment of path) {
+			const open = text[valueStart];
+			let i = valueStart + 1;
+
+			if (open === '{') {
+				for (;;) {
+					i = skipWhitespace(text, i);
+					if (text[i] !== '"') {
+						return undefined;
+					}
+					const keyStart = i;
+					const keyEnd = skipString(text, i);
+					const key = JSON.parse(text.slice(keyStart, keyEnd));
+					i = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1);
+					if (key === segment) {
+						start = keyStart;
+						valueStart = i;
+						break;
+					}
+					i = skipWhitespace(text, skipValue(text, i));
+					if (text[i] !== ',') {
+						return undefined;
+					}
+					i++;
+				}
+			} else if (open === '[' && typeof segment === 'number') {
+				for (let index = 0; ; index++) {
+					i = skipWhitespace(text, i);
+					if (text[i] === ']') {
+						return undefined;
+					}
+					if (index === segment) {
+						start = i;
+						valueStart = i;
+						break;
+					}
+					i = skipWhitespace(text, skipValue(text, i));
+					if (text[i] !== ',') {
+						return undefined;
+					}
+					i++;
+				}
+			} else {
+				return undefined;
+			}
+		}
+
+		return { start, end: skipValue(text, valueStart) };
+	}
+
+	/**
+	 * Find the path of the innermost node containing `offset`
+	 *
+	 * @param {string} text JSON text
+	 * @param {number} offset
+	 * @returns {(string | number)[]}
+	 */
+	function findJsonPathAtOffset(text, offset) {
+		/** @type {(string | number)[]} */
+		const path = [];
+		let i = skipWhitespace(text, 0);
+
+		for (;;) {
+			const open = text[i];
+			if (open !== '{' && open !== '[') {
+				return path;
+			}
+			i++;
+			let entered = false;
+			for (let index = 0; ; index++) {
+				i = skipWhitespace(text, i);
+				let key;
+				let valueStart = i;
+				if (open === '{') {
+					if (text[i] !== '"') {
+						return path;
+					}
+					const keyEnd = skipString(text, i);
+					try {
+						key = JSON.parse(text.slice(i, keyEnd));
+					} catch {
+						// A key being typed, e.g. missing its closing quote
+						return path;
+					}
+					valueStart = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1);
+					if (offset >= i && offset < keyEnd) {
+						path.push(key);
+						return path;
+					}
+				} else {
+					if (text[i] === ']') {
+						return path;
+					}
+					key = index;
+				}
+				if (offset < i) {
+					return path;
+				}
+				const valueEnd = skipValue(text, valueStart);
+				if (offset >= valueStart && offset < valueEnd) {
+					path.push(key);
+					i = valueStart;
+					entered = true;
+					break;
+				}
+				i = skipWhitespace(text, valueEnd);
+				if (text[i] !== ',') {
+					return path;
+				}
+				i++;
+			}
+			if (!entered) {
+				return path;
+			}
+		}
+	}
+
+	/**
+	 * Ask the extension to describe the schema field at `path`
+	 *
+	 * @param {(string | number)[]} path
+	 * @returns {Promise<string | undefined>}
+	 */
+	function requestHover(path) {
+		const requestId = nextHoverRequestId++;
+		return new Promise(resolve => {
+			pendingHovers.set(requestId, resolve);
+			vscode.postMessage({ type: 'hover', requestId, path });
+			setTimeout(() => {
+				if (pendingHovers.delete(requestId)) {
+					resolve(undefined);
+				}
+			}, HOVER_TIMEOUT_MS);
+		});
+	}
+
+	/**
+	 * Describe fields from the schema on hover, and navigate to their definition
+	 */
+	function registerSchemaProviders() {
+		monaco.languages.registerHoverProvider('json', {
+			async provideHover(/** @type {any} */ model, /** @type {any} */ position) {
+				const word = model.getWordAtPosition(position);
+				if (!word) {
+					return undefined;
+				}
+				const path = findJsonPathAtOffset(model.getValue(), model.getOffsetAt(position));
+				if (path.length === 0) {
+					return undefined;
+				}
+				const markdown = await requestHover(path);
+				if (!markdown) {
+					return undefined;
+				}
+				return {
+					range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
+					contents: [{ value: markdown }]
+				};
+			}
+		});
+
+		editor.addAction({
+			id: 'duc.goToSchemaDefinition',
+			label: 'Go to Schema Definition',
+			contextMenuGroupId: 'navigation',
+			contextMenuOrder: 1,
+			keybindings: [monaco.KeyCode.F12],
+			run(/** @type {any} */ ed) {
+				const model = ed.getModel();
+				const path = findJsonPathAtOffset(model.getValue(), model.getOffsetAt(ed.getPosition()));
+				vscode.postMessage({ type: 'goToDefinition', path });
+			}
+		});
+	}
+
+	/**
+	 * Move the cursor to the node at `path` and briefly highlight it
+	 *
+	 * @param {(string | number)[]} path
+	 */
+	function revealPath(path) {
+		const model = editor.getModel();
+		const range = findJsonPathRange(model.getValue(), path);
+		if (!range) {
+			return;
+		}
+		const start = model.getPositionAt(range.start);
+		const end = model.getPositionAt(range.end);
+
+		editor.setPosition(start);
+		editor.revealLineInCenterIfOutsideViewport(start.lineNumber);
+		editor.focus();
+
+		clearTimeout(highlightTimer);
+		highlightDecorations = editor.deltaDecorations(highlightDecorations, [{
+			range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+			options: { className: 'duc-highlight', isWholeLine: true }
+		}]);
+		highlightTimer = setTimeout(() => {
+			highlightDecorations = editor.deltaDecorations(highlightDecorations, []);
+		}, HIGHLIGHT_DURATION_MS);
+	}
+
+	/**
+	 * @param {number} size in bytes
+	 */
+	function formatSize(size) {
+		if (size < 1024) {
+			return `${size} B`;
+		}
+		if (size < 1024 * 1024) {
+			return `${(size / 1024).toFixed(1)} KB`;
+		}
+		return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+	}
+
+	/**
+	 * @param {(string | number)[]} path
+	 */
+	function formatPath(path) {
+		return path.map((segment, i) => typeof segment === 'number' ? `[${segment}]` : (i > 0 ? '.' : '') + segment).join('');
+	}
+
+	function getBinaryRanges() {
+		const model = editor.getModel();
+		const versionId = model.getVersionId();
+		if (!binaryRanges || binaryRanges.versionId !== versionId) {
+			const text = model.getValue();
+			const ranges = [];
+			for (const field of binaryFields) {
+				const range = findJsonPathRange(text, field.path);
+				if (range) {
+					ranges.push({ field, start: range.start, end: range.end });
+				}
+			}
+			binaryRanges = { versionId, ranges };
+		}
+		return binaryRanges.ranges;
+	}
+
+	/**
+	 * @param {typeof binaryFields} fields
+	 */
+	function setBinaryFields(fields) {
+		binaryFields = fields || [];
+		binaryRanges = undefined;
+		if (codeLensEmitter) {
+			codeLensEmitter.fire();
+		}
+	}
+
+	/**
+	 * Show the type and size of binary fields above them, with actions to save
+	 * or open their content, and preview images on hover
+	 */
+	function registerBinaryFieldProviders() {
+		const saveCommand = editor.addCommand(0, (/** @type {unknown} */ _accessor, /** @type {(string | number)[]} */ path) => {
+			vscode.postMessage({ type: 'saveBlob', path });
+		});
+		const openCommand = editor.addCommand(0, (/** @type {unknown} */ _accessor, /** @type {(string | number)[]} */ path) => {
+			vscode.postMessage({ type: 'openBlob', path });
+		});
+
+		codeLensEmitter = new monaco.Emitter();
+		monaco.languages.registerCodeLensProvider('json', {
+			onDidChange: codeLensEmitter.event,
+			provideCodeLenses(/** @type {any} */ model) {
+				const lenses = [];
+				for (const { field, start } of getBinaryRanges()) {
+					const position = model.getPositionAt(start);
+					const range = new monaco.Range(position.lineNumber, 1, position.lineNumber, 1);
+					lenses.push(
+						{ range, command: { id: '', title: `${field.mime} · ${formatSize(field.size)}` } },
+						{ range, command: { id: saveCommand, title: 'Save to Disk...', arguments: [field.path] } },
+						{ range, command: { id: openCommand, title: 'Open', arguments: [field.path] } }
+					);
+				}
+				return { lenses, dispose() { } };
+			}
+		});
+
+		monaco.languages.registerHoverProvider('json', {
+			provideHover(/** @type {any} */ model, /** @type {any} */ position) {
+				const offset = model.getOffsetAt(position);
+				const hit = getBinaryRanges().find(r => offset >= r.start && offset <= r.end);
+				if (!hit) {
+					return undefined;
+				}
+				const { field } = hit;
+				const contents = [{ value: `**${formatPath(field.path)}** · ${field.mime} · ${formatSize(field.size)}` }];
+				if (field.isImage) {
+					const base64 = /"([A-Za-z0-9+/=]*)"\s*$/.exec(model.getValue().slice(hit.start, hit.end));
+					if (base64) {
+						contents.push({ value: `![${field.mime}](data:${field.mime};base64,${base64[1]})` });
+					}
+				}
+				const start = model.getPositionAt(hit.start);
+				const end = model.getPositionAt(hit.end);
+				return {
+					range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+					contents
+				};
+			}
+		});
+	}
+
+	/**
+	 * Show or hide the hex view next to the editor
+	 *
+	 * @param {boolean} visible
+	 */
+	function setHexViewVisible(visible) {
+		hexView.hidden = !visible;
+		viewToggle.classList.toggle('active', visible);
+		viewToggle.title = visible ? 'Hide the bytes of the file' : 'Show the bytes of the file next to the JSON';
+		vscode.setState({ ...vscode.getState(), hexView: visible });
+		if (!visible) {
+			return;
+		}
+		if (hexStale) {
+			requestHexView();
+		} else {
+			renderHexRows();
+		}
+	}
+
+	function requestHexView() {
+		hexStale = false;
+		hexGeneration++;
+		hexStatus.textContent = 'Mapping bytes...';
+		vscode.postMessage({ type: 'getHexView', generation: hexGeneration });
+	}
+
+	/**
+	 * Outdate the bytes shown, e.g. after a save, and fetch them again if they are visible
+	 */
+	function invalidateHexView() {
+		hexStale = true;
+		if (!hexView.hidden) {
+			requestHexView();
+		}
+	}
+
+	/**
+	 * @param {{ generation: number, size?: number, regionCount?: number, truncated?: boolean, errors?: string[], isDirty?: boolean, error?: string }} message
+	 */
+	function showHexView(message) {
+		if (message.generation !== hexGeneration) {
+			return;
+		}
+		if (message.error || message.size === undefined) {
+			hexData = undefined;
+			hexStatus.textContent = message.error || '';
+			hexSpacer.style.height = '0';
+			renderHexRows();
+			return;
+		}
+
+		const errors = message.errors || [];
+		const notes = [];
+		if (message.truncated) {
+			notes.push(`only the first ${message.regionCount} regions are coloured`);
+		}
+		if (errors.length > 0) {
+			notes.push(`${errors.length} ${errors.length === 1 ? 'part' : 'parts'} could not be mapped`);
+		}
+		hexData = { size: message.size, pages: new Map(), isDirty: !!message.isDirty, notes };
+		hexStatus.textContent = describeHexData();
+		hexStatus.title = errors.join('\n');
+
+		const rowCount = Math.ceil(message.size / HEX_BYTES_PER_ROW);
+		hexSpacer.style.height = `${Math.min(rowCount * HEX_ROW_HEIGHT, MAX_SCROLL_HEIGHT)}px`;
+		hexSelection = [];
+		selectHexBytesOfSelection();
+		renderHexRows();
+	}
+
+	/**
+	 * Store a page of bytes sent by the extension
+	 *
+	 * @param {{ generation: number, start: number, bytes: string, layout: { kinds: string[], regions: number[], paths: (string | number)[][], labels: string[] } }} message
+	 */
+	function addHexPage(message) {
+		if (!hexData || message.generation !== hexGeneration) {
+			return;
+		}
+		const binary = atob(message.bytes);
+		const bytes = new Uint8Array(binary.length);
+		for (let i = 0; i < binary.length; i++) {
+			bytes[i] = binary.charCodeAt(i);
+		}
+
+		const { kinds, regions, paths, labels } = message.layout;
+		/** @type {HexPage} */
+		const page = { bytes, blocks: [], inline: [] };
+		// Regions come sorted by start, fields and structs lie inside the blocks storing them
+		for (let i = 0; i < regions.length; i += 5) {
+			const region = { start: regions[i], end: regions[i + 1], kind: kinds[regions[i + 2]], path: paths[regions[i + 3]], label: labels[regions[i + 4]] };
+			(region.kind === 'field' || region.kind === 'struct' ? page.inline : page.blocks).push(region);
+		}
+		hexData.pages.set(Math.floor(message.start / HEX_PAGE_SIZE), page);
+		renderHexRows();
+	}
+
+	/**
+	 * Request the pages holding the bytes from `start` to `end` that aren't
+	 * loaded, and forget pages far from them
+	 *
+	 * @param {number} start
+	 * @param {number} end
+	 */
+	function loadHexPages(start, end) {
+		if (!hexData) {
+			return;
+		}
+		const firstPage = Math.floor(start / HEX_PAGE_SIZE);
+		const lastPage = Math.floor(Math.max(start, end - 1) / HEX_PAGE_SIZE);
+		for (let page = firstPage; page <= lastPage; page++) {
+			if (!hexData.pages.has(page)) {
+				hexData.pages.set(page, null);
+				vscode.postMessage({ type: 'getHexRows', generation: hexGeneration, start: page * HEX_PAGE_SIZE, end: (page + 1) * HEX_PAGE_SIZE });
+			}
+		}
+		// Pages are kept in the order they were requested
+		for (const page of hexData.pages.keys()) {
+			if (hexData.pages.size <= MAX_HEX_PAGES) {
+				break;
+			}
+			if (page < firstPage || page > lastPage) {
+				hexData.pages.delete(page);
+			}
+		}
+	}
+
+	/**
+	 * Loaded page holding the byte at `offset`
+	 *
+	 * @param {number} offset
+	 */
+	function getHexPage(offset) {
+		return hexData?.pages.get(Math.floor(offset / HEX_PAGE_SIZE)) || undefined;
+	}
+
+	/**
+	 * Summary shown in the status line of the hex view while no byte is hovered
+	 */
+	function describeHexData() {
+		if (!hexData) {
+			return '';
+		}
+		const notes = [`${formatSize(hexData.size)} on disk`];
+		if (hexData.isDirty) {
+			notes.push('unsaved edits are not shown');
+		}
+		return [...notes, ...hexData.notes].join(' · ');
+	}
+
+	/**
+	 * Find the region containing `offset` in regions sorted by start
+	 *
+	 * @param {HexRegion[]} regions
+	 * @param {number} offset
+	 */
+	function findHexRegion(regions, offset) {
+		let low = 0;
+		let high = regions.length - 1;
+		let found;
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			if (regions[mid].start <= offset) {
+				found = regions[mid];
+				low = mid + 1;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return found && offset < found.end ? found : undefined;
+	}
+
+	/**
+	 * The innermost region containing `offset`
+	 *
+	 * @param {number} offset
+	 */
+	function hexRegionAt(offset) {
+		const page = getHexPage(offset);
+		if (!page) {
+			return undefined;
+		}
+		return findHexRegion(page.inline, offset) || findHexRegion(page.blocks, offset);
+	}
+
+	/**
+	 * Rows of a virtualized list to render for its scroll position. The rows
+	 * are drawn in a layer that stays in place while a spacer below it scrolls.
+	 *
+	 * @param {HTMLElement} scroller element with the spacer and the row layer
+	 * @param {HTMLElement} layer
+	 * @param {number} rowCount
+	 * @param {number} rowHeight
+	 */
+	function getVirtualRows(scroller, layer, rowCount, rowHeight) {
+		const visibleRows = Math.ceil(scroller.clientHeight / rowHeight);
+		const maxScroll = scroller.scrollHeight - scroller.clientHeight;
+		const maxFirstRow = Math.max(0, rowCount - visibleRows);
+		const firstRow = maxScroll > 0 ? Math.round(scroller.scrollTop / maxScroll * maxFirstRow) : 0;
+		layer.style.top = `${scroller.scrollTop}px`;
+		layer.style.height = `${scroller.clientHeight}px`;
+		return { firstRow, endRow: Math.min(rowCount, firstRow + visibleRows + 1) };
+	}
+
+	/**
+	 * Scroll a virtualized list so that `row` is visible
+	 *
+	 * @param {HTMLElement} scroller
+	 * @param {number} row
+	 * @param {number} firstRow first row currently rendered
+	 * @param {number} rowCount
+	 * @param {number} rowHeight
+	 */
+	function scrollToVirtualRow(scroller, row, firstRow, rowCount, rowHeight) {
+		const visibleRows = Math.ceil(scroller.clientHeight / rowHeight);
+		if (row >= firstRow && row < firstRow + visibleRows) {
+			return;
+		}
+		const maxScroll = scroller.scrollHeight - scroller.clientHeight;
+		const maxFirstRow = Math.max(0, rowCount - visibleRows);
+		const targetRow = Math.min(maxFirstRow, Math.max(0, row - Math.floor(visibleRows / 3)));
+		scroller.scrollTop = maxFirstRow > 0 ? targetRow / maxFirstRow * maxScroll : 0;
+	}
+
+	/**
+	 * @param {string} text
+	 */
+	function escapeHtml(text) {
+		return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+	}
+
+	function getHexRowCount() {
+		return hexData ? Math.ceil(hexData.size / HEX_BYTES_PER_ROW) : 0;
+	}
+
+	/**
+	 * Render the rows of the hex view that are scrolled into view
+	 */
+	function renderHexRows() {
+		if (hexView.hidden) {
+			return;
+		}
+		const { firstRow, endRow } = getVirtualRows(hexScroll, hexRows, getHexRowCount(), HEX_ROW_HEIGHT);
+		hexFirstRow = firstRow;
+		loadHexPages(firstRow * HEX_BYTES_PER_ROW, endRow * HEX_BYTES_PER_ROW);
+		let html = '';
+		for (let row = firstRow; row < endRow; row++) {
+			html += renderHexRow(row);
+		}
+		hexRows.innerHTML = html;
+	}
+
+	/**
+	 * @param {number} row
+	 */
+	function renderHexRow(row) {
+		const start = row * HEX_BYTES_PER_ROW;
+		const end = Math.min(start + HEX_BYTES_PER_ROW, /** @type {NonNullable<typeof hexData>} */ (hexData).size);
+		const page = getHexPage(start);
+		let hex = '';
+		let ascii = '';
+		for (let offset = start; offset < start + HEX_BYTES_PER_ROW; offset++) {
+			if (offset >= end || !page) {
+				// Bytes past the end of the file, or of a page still being loaded
+				hex += offset < end ? '<span class="hex-byte">··</span>' : '<span class="hex-byte"> </span>';
+				continue;
+			}
+			const byte = page.bytes[offset % HEX_PAGE_SIZE];
+			const region = hexRegionAt(offset);
+			let className = region ? `hex-byte kind-${region.kind}` : 'hex-byte';
+			if (hexSelection.some(r => offset >= r.start && offset < r.end)) {
+				className += ' selected';
+			}
+			hex += `<span class="${className}" data-offset="${offset}">${byte.toString(16).padStart(2, '0')}</span>`;
+			ascii += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.';
+		}
+		return `<div class="hex-row"><span class="hex-offset">${start.toString(16).padStart(8, '0')}</span>  ${hex}  <span class="hex-ascii">${escapeHtml(ascii)}</span></div>`;
+	}
+
+	/**
+	 * Select the bytes of the JSON node at `path`, or of its closest ancestor
+	 * that has bytes of its own, e.g. for the elements of a byte vector
+	 *
+	 * @param {(string | number)[]} path
+	 */
+	function selectHexPath(path) {
+		if (!hexData) {
+			return;
+		}
+		vscode.postMessage({ type: 'getHexRanges', generation: hexGeneration, requestId: ++nextHexRangesRequestId, path });
+	}
+
+	/**
+	 * Select the byte ranges of a node found by the extension
+	 *
+	 * @param {{ generation: number, requestId: number, ranges: number[] }} message
+	 */
+	function showHexRanges(message) {
+		if (message.generation !== hexGeneration || message.requestId !== nextHexRangesRequestId) {
+			return;
+		}
+		hexSelection = [];
+		for (let i = 0; i < message.ranges.length; i += 2) {
+			hexSelection.push({ start: message.ranges[i], end: message.ranges[i + 1] });
+		}
+		if (hexSelection.length > 0) {
+			const row = Math.floor(hexSelection[0].start / HEX_BYTES_PER_ROW);
+			scrollToVirtualRow(hexScroll, row, hexFirstRow, getHexRowCount(), HEX_ROW_HEIGHT);
+		}
+		renderHexRows();
+	}
+
+	/**
+	 * Select the bytes of the node under the cursor of the editor, or selected in the tree
+	 */
+	function selectHexBytesOfSelection() {
+		if (!hexData || hexView.hidden) {
+			return;
+		}
+		const path = getSelectedPath();
+		if (path) {
+			selectHexPath(path);
+		}
+	}
+
+	/**
+	 * Path of the node under the cursor of the editor or selected in the tree
+	 *
+	 * @returns {(string | number)[] | undefined}
+	 */
+	function getSelectedPath() {
+		if (editor) {
+			const model = editor.getModel();
+			return findJsonPathAtOffset(model.getValue(), model.getOffsetAt(editor.getPosition()));
+		}
+		return treeSelected?.path;
+	}
+
+	/**
+	 * Tell the extension which node is selected, when it asked to know and the node changed
+	 */
+	function reportSelection() {
+		if (!selectionTracking) {
+			return;
+		}
+		const path = getSelectedPath();
+		const key = JSON.stringify(path ?? null);
+		if (path && key !== reportedSelection) {
+			reportedSelection = key;
+			vscode.postMessage({ type: 'selectionChanged', path });
+		}
+	}
+
+	/**
+	 * Follow a change of the selected node in the hex view and in the extension
+	 */
+	function handleSelectionChange() {
+		selectHexBytesOfSelection();
+		reportSelection();
+	}
+
+	/**
+	 * Describe the region of the hovered byte in the status line of the hex view
+	 *
+	 * @param {number | undefined} offset
+	 */
+	function showHexRegionInfo(offset) {
+		if (!hexData) {
+			return;
+		}
+		if (offset === undefined) {
+			hexStatus.textContent = describeHexData();
+			return;
+		}
+		const region = hexRegionAt(offset);
+		const position = `0x${offset.toString(16).padStart(8, '0')}`;
+		hexStatus.textContent = region
+			? `${position} · ${region.label} · ${formatPath(region.path) || '$'}`
+			: `${position} · not referenced by the schema`;
+	}
+
+	function registerHexView() {
+		viewToggle.addEventListener('click', () => setHexViewVisible(hexView.hidden));
+		hexScroll.addEventListener('scroll', renderHexRows);
+		window.addEventListener('resize', renderHexRows);
+
+		/** @param {Event} event */
+		const byteOffset = event => {
+			const target = /** @type {HTMLElement} */ (event.target).closest('[data-offset]');
+			return target ? Number(/** @type {HTMLElement} */ (target).dataset.offset) : undefined;
+		};
+		hexRows.addEventListener('mouseover', event => showHexRegionInfo(byteOffset(event)));
+		hexRows.addEventListener('mouseleave', () => showHexRegionInfo(undefined));
+		hexRows.addEventListener('click', event => {
+			const offset = byteOffset(event);
+			const region = offset === undefined ? undefined : hexRegionAt(offset);
+			if (!region) {
+				return;
+			}
+			hexSelection = [region];
+			renderHexRows();
+			// Select every region of the node, e.g. a table and its vtable
+			selectHexPath(region.path);
+			revealNode(region.path);
+		});
+	}
+
+	/**
+	 * @param {string} mode
+	 */
+	function setViewMode(mode) {
+		viewMode = mode;
+		editorElement.hidden = mode === 'tree';
+		treeView.hidden = mode !== 'tree';
+		modeToggle.textContent = mode === 'tree' ? 'Text' : 'Tree';
+		modeToggle.title = mode === 'tree'
+			? 'Show the document as editable JSON text'
+			: 'Show the document as a tree loaded as it is expanded, for large files';
+	}
+
+	/**
+	 * Reveal the node at `path` in the editor or the tree, whichever is shown
+	 *
+	 * @param {(string | number)[]} path
+	 */
+	function revealNode(path) {
+		if (editor) {
+			revealPath(path);
+		} else if (treeRoot) {
+			revealTreePath(path).then(() => treeView.focus());
+		}
+	}
+
+	/**
+	 * Show the document as a tree, keeping the expanded nodes and the selection
+	 * of the previous tree if there was one
+	 */
+	function createTree() {
+		const selectedPath = treeSelected?.path;
+		treeRoot = { path: [], key: '', type: 'object', preview: '', childCount: 0, expanded: true };
+		treeSelected = undefined;
+		treeRowList = [];
+		loadTreeChildren(treeRoot).then(() => {
+			if (selectedPath) {
+				revealTreePath(selectedPath);
+			}
+		});
+	}
+
+	/**
+	 * Ask the extension for the next page of children of a tree node
+	 *
+	 * @param {TreeNode} node
+	 * @param {number} [count] number of children wanted
+	 * @returns {Promise<void>}
+	 */
+	function loadTreeChildren(node, count = TREE_PAGE_SIZE) {
+		if (node.loading) {
+			return node.loading;
+		}
+		const root = treeRoot;
+		const requestId = nextTreeRequestId++;
+		node.loading = new Promise(resolve => {
+			pendingTreeRequests.set(requestId, message => {
+				node.loading = undefined;
+				// Pages of a replaced tree are dropped
+				if (root === treeRoot) {
+					addTreeChildren(node, message);
+				}
+				resolve();
+			});
+			vscode.postMessage({ type: 'getChildren', requestId, path: node.path, offset: node.children?.length || 0, limit: count });
+		});
+		return node.loading;
+	}
+
+	/**
+	 * @param {TreeNode} node
+	 * @param {{ total?: number, children?: TreeNode[] }} page
+	 */
+	function addTreeChildren(node, page) {
+		const children = (page.children || []).map(child => ({
+			...child,
+			path: [...node.path, child.key],
+			parent: node,
+			expanded: false
+		}));
+		node.children = [...(node.children || []), ...children];
+		// The node is gone from the document when nothing comes back
+		node.childCount = page.total ?? node.children.length;
+		for (const child of children) {
+			if (treeExpanded.has(JSON.stringify(child.path))) {
+				child.expanded = true;
+				loadTreeChildren(child);
+			}
+		}
+		updateTree();
+	}
+
+	/**
+	 * Recompute the rows of the expanded nodes and render them
+	 */
+	function updateTree() {
+		if (!treeRoot) {
+			return;
+		}
+		treeRowList = [];
+		/**
+		 * @param {TreeNode} node
+		 * @param {number} depth
+		 */
+		const addRows = (node, depth) => {
+			for (const child of node.children || []) {
+				treeRowList.push({ node: child, depth });
+				if (child.expanded) {
+					addRows(child, depth + 1);
+				}
+			}
+			if ((node.children?.length || 0) < node.childCount) {
+				treeRowList.push({ node, depth, more: true });
+			}
+		};
+		addRows(treeRoot, 0);
+		treeSpacer.style.height = `${Math.min(treeRowList.length * TREE_ROW_HEIGHT, MAX_SCROLL_HEIGHT)}px`;
+		renderTreeRows();
+	}
+
+	/**
+	 * Render the rows of the tree that are scrolled into view
+	 */
+	function renderTreeRows() {
+		if (!treeRoot || treeView.hidden) {
+			return;
+		}
+		const { firstRow, endRow } = getVirtualRows(treeView, treeRows, treeRowList.length, TREE_ROW_HEIGHT);
+		treeFirstRow = firstRow;
+		let html = '';
+		for (let row = firstRow; row < endRow; row++) {
+			const { node, depth, more } = treeRowList[row];
+			const indent = `padding-left: ${depth * 16}px`;
+			if (more) {
+				// Children scrolled into view are loaded page by page
+				loadTreeChildren(node);
+				const remaining = node.childCount - (node.children?.length || 0);
+				html += `<div class="tree-row tree-more" style="${indent}"><span class="tree-twisty"></span>Loading ${remaining} more...</div>`;
+				continue;
+			}
+			const isContainer = node.type === 'object' || node.type === 'array';
+			const twisty = isContainer && node.childCount > 0 ? (node.expanded ? '▾' : '▸') : '';
+			const size = node.type === 'array' ? `[${node.childCount}]` : `{${node.childCount}}`;
+			const value = isContainer ? [size, node.preview].filter(Boolean).join(' ') : node.preview;
+			html += `<div class="tree-row${node === treeSelected ? ' selected' : ''}" style="${indent}" data-row="${row}">`
+				+ `<span class="tree-twisty">${twisty}</span><span class="tree-key">${escapeHtml(String(node.key))}</span>: `
+				+ `<span class="tree-value type-${node.type}">${escapeHtml(value)}</span></div>`;
+		}
+		treeRows.innerHTML = html;
+	}
+
+	/**
+	 * @param {TreeNode} node
+	 */
+	function toggleTreeNode(node) {
+		if ((node.type !== 'object' && node.type !== 'array') || node.childCount === 0) {
+			return;
+		}
+		node.expanded = !node.expanded;
+		const key = JSON.stringify(node.path);
+		if (node.expanded) {
+			treeExpanded.add(key);
+			if (!node.children) {
+				loadTreeChildren(node);
+			}
+		} else {
+			treeExpanded.delete(key);
+		}
+		updateTree();
+	}
+
+	/**
+	 * @param {TreeNode} node
+	 */
+	function selectTreeNode(node) {
+		treeSelected = node;
+		const row = treeRowList.findIndex(r => r.node === node && !r.more);
+		if (row >= 0) {
+			scrollToVirtualRow(treeView, row, treeFirstRow, treeRowList.length, TREE_ROW_HEIGHT);
+		}
+		renderTreeRows();
+		handleSelectionChange();
+	}
+
+	/**
+	 * Expand the ancestors of the node at `path`, loading them as needed, and select it
+	 *
+	 * @param {(string | number)[]} path
+	 */
+	async function revealTreePath(path) {
+		let node = treeRoot;
+		if (!node) {
+			return;
+		}
+		for (const segment of path) {
+			const parent = node;
+			/** @type {TreeNode | undefined} */
+			let child;
+			for (;;) {
+				child = parent.children?.find(c => c.key === segment);
+				const loaded = parent.children?.length || 0;
+				if (child || (parent.children && loaded >= parent.childCount)) {
+					break;
+				}
+				// Load up to an array index at once rather than page by page
+				await loadTreeChildren(parent, typeof segment === 'number' ? Math.max(TREE_PAGE_SIZE, segment + 1 - loaded) : TREE_PAGE_SIZE);
+				if ((parent.children?.length || 0) === loaded) {
+					break;
+				}
+			}
+			if (!child) {
+				break;
+			}
+			if (!parent.expanded) {
+				parent.expanded = true;
+				treeExpanded.add(JSON.stringify(parent.path));
+			}
+			node = child;
+		}
+		if (node !== treeRoot) {
+			updateTree();
+			selectTreeNode(node);
+		}
+	}
+
+	function registerTree() {
+		modeToggle.addEventListener('click', () => {
+			flushEdit();
+			vscode.postMessage({ type: 'setViewMode', mode: viewMode === 'tree' ? 'text' : 'tree' });
+		});
+		treeView.addEventListener('scroll', renderTreeRows);
+		window.addEventListener('resize', renderTreeRows);
+
+		treeRows.addEventListener('click', event => {
+			const target = /** @type {HTMLElement} */ (event.target).closest('[data-row]');
+			const entry = target && treeRowList[Number(/** @type {HTMLElement} */ (target).dataset.row)];
+			if (entry && !entry.more) {
+				selectTreeNode(entry.node);
+				toggleTreeNode(entry.node);
+			}
+		});
+		treeView.addEventListener('keydown', event => {
+			const node = treeSelected;
+			if (!node) {
+				return;
+			}
+			const row = treeRowList.findIndex(r => r.node === node && !r.more);
+			switch (event.key) {
+				case 'ArrowDown':
+				case 'ArrowUp': {
+					const next = treeRowList[row + (event.key === 'ArrowDown' ? 1 : -1)];
+					if (next && !next.more) {
+						selectTreeNode(next.node);
+					}
+					break;
+				}
+				case 'ArrowRight':
+					if (!node.expanded) {
+						toggleTreeNode(node);
+					}
+					break;
+				case 'ArrowLeft':
+					if (node.expanded) {
+						toggleTreeNode(node);
+					} else if (node.parent && node.parent !== treeRoot) {
+						selectTreeNode(node.parent);
+					}
+					break;
+				case 'Enter':
+					toggleTreeNode(node);
+					break;
+				default:
+					return;
+			}
+			event.preventDefault();
+		});
+	}
+
+	function flushEdit() {
+		if (pendingEdit === undefined) {
+			return;
+		}
+		clearTimeout(pendingEdit);
+		pendingEdit = undefined;
+		vscode.postMessage({ type: 'edit', content: editor.getValue() });
+		if (hexData && !hexData.isDirty) {
+			hexData.isDirty = true;
+			hexStatus.textContent = describeHexData();
+		}
+		// The extension handles messages in order, so the query sees the edit
+		runQuery();
+	}
+
+	/**
+	 * Ask the extension to evaluate the query in the query bar
+	 */
+	function runQuery() {
+		clearTimeout(pendingQuery);
+		pendingQuery = undefined;
+		currentQuery = queryInput.value.trim();
+		vscode.setState({ ...vscode.getState(), query: queryInput.value });
+		if (!currentQuery) {
+			nextQueryRequestId++;
+			showQueryResult(undefined);
+			return;
+		}
+		vscode.postMessage({ type: 'query', requestId: ++nextQueryRequestId, query: currentQuery });
+	}
+
+	/**
+	 * @param {{ language: string, total?: number, results?: { path: (string | number)[], label: string, preview: string }[], error?: { message: string, offset?: number } } | undefined} result
+	 */
+	function showQueryResult(result) {
+		queryResults.replaceChildren();
+		queryResults.hidden = !result || !!result.error || !result.results || result.results.length === 0;
+		queryInput.classList.toggle('invalid', !!result?.error);
+		queryStatus.classList.toggle('error', !!result?.error);
+		queryCopy.disabled = queryExport.disabled = !result || !!result.error || !result.total;
+
+		if (!result) {
+			queryStatus.textContent = '';
+			return;
+		}
+		const language = result.language === 'jsonpath' ? 'JSONPath' : 'jq';
+		if (result.error) {
+			queryStatus.textContent = `${language}: ${result.error.message}`;
+			queryStatus.title = result.error.offset !== undefined ? `At character ${result.error.offset + 1}` : '';
+			return;
+		}
+
+		const total = result.total || 0;
+		const results = result.results || [];
+		queryStatus.textContent = `${total} ${total === 1 ? 'match' : 'matches'} · ${language}`;
+		queryStatus.title = results.length < total ? `Showing the first ${results.length}` : '';
+		for (const match of results) {
+			const item = document.createElement('li');
+			item.tabIndex = 0;
+			const label = document.createElement('span');
+			label.textContent = match.label;
+			const preview = document.createElement('span');
+			preview.className = 'preview';
+			preview.textContent = match.preview;
+			item.append(label, preview);
+			item.addEventListener('click', () => revealMatch(match.path));
+			item.addEventListener('keydown', event => {
+				if (event.key === 'Enter') {
+					revealMatch(match.path);
+				} else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+					event.preventDefault();
+					const sibling = event.key === 'ArrowDown' ? item.nextElementSibling : item.previousElementSibling;
+					/** @type {HTMLElement | null} */ (sibling || (event.key === 'ArrowUp' ? queryInput : null))?.focus();
+				}
+			});
+			queryResults.append(item);
+		}
+
+		if (revealFirstMatch && results.length > 0) {
+			revealMatch(results[0].path);
+		}
+		revealFirstMatch = false;
+	}
+
+	/**
+	 * @param {(string | number)[]} path
+	 */
+	function revealMatch(path) {
+		revealNode(path);
+	}
+
+	/**
+	 * Show which schema the document was decoded with
+	 *
+	 * @param {string | undefined} label
+	 */
+	function setSchemaLabel(label) {
+		schemaLabel.textContent = label || '';
+		schemaLabel.title = label ? `Schema used to decode this file: ${label}` : '';
+		schemaLabel.hidden = !label;
+	}
+
+	function registerQueryBar() {
+		queryInput.value = vscode.getState()?.query || '';
+		queryInput.addEventListener('input', () => {
+			clearTimeout(pendingQuery);
+			pendingQuery = setTimeout(runQuery, QUERY_DEBOUNCE_MS);
+		});
+		queryInput.addEventListener('keydown', event => {
+			if (event.key === 'Enter') {
+				revealFirstMatch = true;
+				runQuery();
+			} else if (event.key === 'Escape') {
+				queryInput.value = '';
+				runQuery();
+			} else if (event.key === 'ArrowDown') {
+				event.preventDefault();
+				/** @type {HTMLElement | null} */ (queryResults.firstElementChild)?.focus();
+			}
+		});
+		queryCopy.addEventListener('click', () => {
+			vscode.postMessage({ type: 'copyQueryResult', query: currentQuery });
+		});
+		queryExport.addEventListener('click', () => {
+			vscode.postMessage({ type: 'exportQueryResult', query: currentQuery });
+		});
+	}
+
+	/**
+	 * @param {string} content
+	 * @param {boolean} editable
+	 */
+	function createEditor(content, editable) {
+		// Determine the current theme
+		const currentTheme = document.body.classList.contains('vscode-dark') ? 'vs-dark' :
+			document.body.classList.contains('vscode-high-contrast') ? 'hc-black' : 'vs';
+		monaco.editor.setTheme(currentTheme);
+
+		editor = monaco.editor.create(document.getElementById('editor'), {
+			value: content,
+			language: 'json',
+			readOnly: !editable,
+			automaticLayout: true,
+			minimap: { enabled: true },
+			// Content is already indented with two spaces by the extension
+			tabSize: 2,
+			insertSpaces: true,
+
+			/* --------------- keep long strings on one visual line -------------- */
+			wordWrap: 'off',          // don’t wrap under normal conditions
+			wordWrapMinified: false,  // <-- turn OFF the “force wrap if file looks
+			//      minified or line > 10 k chars” heuristic
+			wordWrapOverride1: 'off', // also disable the two override layers
+			wordWrapOverride2: 'off',
+
+			// This is the key to preventing freezes. It stops rendering the line after a
+			// certain number of characters, but crucially, the line itself is NOT wrapped.
+			stopRenderingLineAfter: 5000,
+			largeFileOptimizations: false,// don’t switch features off for big files
+			/* ------------------------------------------------------------------- */
+
+			scrollbar: {
+				horizontal: 'visible',
+				vertical: 'auto'
+			},
+			renderWhitespace: 'selection',
+			renderControlCharacters: true,
+			folding: true,
+			scrollBeyondLastLine: false
+		});
+
+		registerBinaryFieldProviders();
+		registerSchemaProviders();
+
+		// Select the bytes of the node under the cursor in the hex view, and report it
+		editor.onDidChangeCursorPosition(() => {
+			clearTimeout(hexSelectionTimer);
+			hexSelectionTimer = setTimeout(handleSelectionChange, HEX_SELECTION_DEBOUNCE_MS);
+		});
+
+		// Report edits to the extension, which owns dirty state and undo/redo
+		editor.onDidChangeModelContent(() => {
+			if (applyingRemoteContent) {
+				return;
+			}
+			clearTimeout(pendingEdit);
+			pendingEdit = setTimeout(flushEdit, EDIT_DEBOUNCE_MS);
+		});
+
+		// Undo and redo go through the edits of the document, never Monaco's own history
+		editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ, () => requestHistory('undo'));
+		editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ, () => requestHistory('redo'));
+		editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyY, () => requestHistory('redo'));
+
+		// Make sure the latest edit reaches the extension before it handles a save
+		window.addEventListener('keydown', event => {
+			if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+				flushEdit();
+			}
+		}, true);
+		window.addEventListener('blur', flushEdit);
+
+		// Handle window resize
+		window.addEventListener('resize', function () {
+			editor.layout();
+		});
+	}
+
+	/**
+	 * Ask the extension to undo or redo an edit of the document, once the edit
+	 * being typed is part of it
+	 *
+	 * @param {'undo' | 'redo'} type
+	 */
+	function requestHistory(type) {
+		flushEdit();
+		vscode.postMessage({ type });
+	}
+
+	/**
+	 * Replace the editor content while keeping the view state. Monaco's undo
+	 * stack is dropped, the document holds the history.
+	 *
+	 * @param {string} content
+	 */
+	function setContent(content) {
+		const model = editor.getModel();
+		if (model.getValue() === content) {
+			return;
+		}
+		// Content from the extension supersedes any edit not yet reported
+		clearTimeout(pendingEdit);
+		pendingEdit = undefined;
+
+		const viewState = editor.saveViewState();
+		applyingRemoteContent = true;
+		try {
+			model.setValue(content);
+		} finally {
+			applyingRemoteContent = false;
+		}
+		editor.restoreViewState(viewState);
+	}
+
+	/**
+	 * Start collecting the chunks of JSON announced by a message of the extension.
+	 * A new transfer supersedes the one in progress.
+	 *
+	 * @param {number} transfer
+	 * @param {number} length
+	 * @param {(content: string) => void} onComplete
+	 */
+	function receiveContent(transfer, length, onComplete) {
+		incomingContent = { transfer, length, received: 0, chunks: [], onComplete };
+		addContentChunk({ transfer, chunk: '' });
+	}
+
+	/**
+	 * @param {{ transfer: number, chunk: string }} message
+	 */
+	function addContentChunk(message) {
+		if (!incomingContent || message.transfer !== incomingContent.transfer) {
+			return;
+		}
+		incomingContent.chunks.push(message.chunk);
+		incomingContent.received += message.chunk.length;
+		const { length, received } = incomingContent;
+		if (received < length) {
+			loadProgress.hidden = false;
+			loadProgressBar.style.width = `${Math.round(received / length * 100)}%`;
+			loadProgressLabel.textContent = `Loading JSON... ${formatSize(received)} of ${formatSize(length)}`;
+			return;
+		}
+		const { chunks, onComplete } = incomingContent;
+		incomingContent = undefined;
+		loadProgress.hidden = true;
+		onComplete(chunks.join(''));
+	}
+
+	/**
+	 * Finish setting up the view once the editor or the tree has been created
+	 */
+	function showDocument() {
+		runQuery();
+		if (vscode.getState()?.hexView) {
+			setHexViewVisible(true);
+		}
+		if (pendingRevealPath) {
+			revealNode(pendingRevealPath);
+			pendingRevealPath = undefined;
+		}
+	}
+
+	// Handle messages from the extension
+	window.addEventListener('message', event => {
+		const message = event.data;
+		switch (message.type) {
+			case 'init':
+				setViewMode(message.mode);
+				setSchemaLabel(message.schemaLabel);
+				if (message.mode === 'tree') {
+					createTree();
+					showDocument();
+					break;
+				}
+				binaryFields = message.binaryFields || [];
+				receiveContent(message.transfer, message.contentLength, content => {
+					require(['vs/editor/editor.main'], function () {
+						createEditor(content, message.editable);
+						showDocument();
+					});
+				});
+				break;
+
+			case 'contentChunk':
+				addContentChunk(message);
+				break;
+
+			case 'trackSelection':
+				selectionTracking = message.enabled;
+				reportedSelection = '';
+				reportSelection();
+				break;
+
+			case 'revealPath':
+				if (editor || treeRoot) {
+					revealNode(message.path);
+				} else {
+					pendingRevealPath = message.path;
+				}
+				break;
+
+			case 'queryResult':
+				// Results of superseded queries are dropped
+				if (message.requestId === nextQueryRequestId) {
+					showQueryResult(message);
+				}
+				break;
+
+			case 'hoverResult': {
+				const resolve = pendingHovers.get(message.requestId);
+				if (resolve) {
+					pendingHovers.delete(message.requestId);
+					resolve(message.markdown);
+				}
+				break;
+			}
+
+			case 'setContent':
+				if (editor) {
+					receiveContent(message.transfer, message.contentLength, content => {
+						setContent(content);
+						setBinaryFields(message.binaryFields);
+						setSchemaLabel(message.schemaLabel);
+						runQuery();
+						invalidateHexView();
+					});
+				} else if (incomingContent) {
+					// The document changed while the editor was still receiving it
+					binaryFields = message.binaryFields || [];
+					receiveContent(message.transfer, message.contentLength, incomingContent.onComplete);
+				}
+				break;
+
+			case 'treeChanged':
+				if (treeRoot) {
+					createTree();
+					setSchemaLabel(message.schemaLabel);
+					runQuery();
+					invalidateHexView();
+				}
+				break;
+
+			case 'children': {
+				const handleChildren = pendingTreeRequests.get(message.requestId);
+				if (handleChildren) {
+					pendingTreeRequests.delete(message.requestId);
+					handleChildren(message);
+				}
+				break;
+			}
+
+			case 'fileDataChanged':
+				invalidateHexView();
+				break;
+
+			case 'hexView':
+				showHexView(message);
+				break;
+
+			case 'hexRows':
+				addHexPage(message);
+				break;
+
+			case 'hexRanges':
+				showHexRanges(message);
+				break;
+		}
+	});
+
+	registerQueryBar();
+	registerHexView();
+	registerTree();
+
+	// Signal to the extension that the webview is ready to receive the document
+	vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,126 @@
+import { JsonPath, getValueAtPath } from './jsonPath';
+
+/**
+ * Kind of content stored in a binary field, detected from its first bytes
+ */
+export interface BlobType {
+    mime: string;
+    extension: string;
+    /** Whether the webview can display the content as an image */
+    isImage: boolean;
+}
+
+/**
+ * A binary field of a decoded document, sent to the viewer
+ */
+export interface BlobInfo extends BlobType {
+    path: JsonPath;
+    size: number;
+}
+
+interface MagicSignature extends BlobType {
+    bytes: (number | undefined)[];
+    /** Offset of `bytes` from the start of the blob */
+    offset?: number;
+}
+
+/**
+ * Known file signatures, `undefined` matches any byte
+ */
+const SIGNATURES: MagicSignature[] = [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mime: 'image/png', extension: 'png', isImage: true },
+    { bytes: [0xff, 0xd8, 0xff], mime: 'image/jpeg', extension: 'jpg', isImage: true },
+    { bytes: [0x47, 0x49, 0x46, 0x38], mime: 'image/gif', extension: 'gif', isImage: true },
+    {
+        bytes: [0x52, 0x49, 0x46, 0x46, undefined, undefined, undefined, undefined, 0x57, 0x45, 0x42, 0x50],
+        mime: 'image/webp', extension: 'webp', isImage: true
+    },
+    { bytes: [0x42, 0x4d], mime: 'image/bmp', extension: 'bmp', isImage: true },
+    { bytes: [0x00, 0x00, 0x01, 0x00], mime: 'image/x-icon', extension: 'ico', isImage: true },
+    { bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66], offset: 4, mime: 'image/avif', extension: 'avif', isImage: true },
+    { bytes: [0x49, 0x49, 0x2a, 0x00], mime: 'image/tiff', extension: 'tiff', isImage: false },
+    { bytes: [0x4d, 0x4d, 0x00, 0x2a], mime: 'image/tiff', extension: 'tiff', isImage: false },
+    { bytes: [0x25, 0x50, 0x44, 0x46], mime: 'application/pdf', extension: 'pdf', isImage: false },
+    { bytes: [0x50, 0x4b, 0x03, 0x04], mime: 'application/zip', extension: 'zip', isImage: false },
+    { bytes: [0x1f, 0x8b], mime: 'application/gzip', extension: 'gz', isImage: false },
+    { bytes: [0x28, 0xb5, 0x2f, 0xfd], mime: 'application/zstd', extension: 'zst', isImage: false }
+];
+
+const UNKNOWN_TYPE: BlobType = { mime: 'application/octet-stream', extension: 'bin', isImage: false };
+
+/**
+ * Number of leading bytes inspected to recognise text formats
+ */
+const TEXT_SNIFF_LENGTH = 1024;
+
+function matchesSignature(bytes: Uint8Array, signature: MagicSignature): boolean {
+    const offset = signature.offset ?? 0;
+    if (bytes.length < offset + signature.bytes.length) {
+        return false;
+    }
+    return signature.bytes.every((byte, i) => byte === undefined || bytes[offset + i] === byte);
+}
+
+/**
+ * Detect the type of a blob from its magic bytes
+ */
+export function sniffBlobType(bytes: Uint8Array): BlobType {
+    const signature = SIGNATURES.find(s => matchesSignature(bytes, s));
+    if (signature) {
+        return { mime: signature.mime, extension: signature.extension, isImage: signature.isImage };
+    }
+
+    const head = Buffer.from(bytes.buffer, bytes.byteOffset, Math.min(bytes.length, TEXT_SNIFF_LENGTH));
+    // Control characters other than whitespace mean binary content
+    if (head.length === 0 || head.some(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20))) {
+        return UNKNOWN_TYPE;
+    }
+    const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+        return { mime: 'image/svg+xml', extension: 'svg', isImage: true };
+    }
+    if (text.startsWith('{') || text.startsWith('[')) {
+        return { mime: 'application/json', extension: 'json', isImage: false };
+    }
+    if (text.startsWith('<')) {
+        return { mime: 'application/xml', extension: 'xml', isImage: false };
+    }
+    return { mime: 'text/plain', extension: 'txt', isImage: false };
+}
+
+/**
+ * Bytes of a binary field as shown in the viewer, either a Base64 string or a byte array
+ */
+export function decodeBlob(value: unknown): Uint8Array | undefined {
+    if (typeof value === 'string') {
+        return Buffer.from(value, 'base64');
+    }
+    if (Array.isArray(value) && value.every(byte => typeof byte === 'number')) {
+        return Uint8Array.from(value as number[]);
+    }
+    return undefined;
+}
+
+/**
+ * Describe the binary fields found at `paths` of a decoded document.
+ *
+ * Only the head of each blob is decoded, blobs can be large.
+ */
+export function describeBlobs(root: unknown, paths: JsonPath[]): BlobInfo[] {
+    const blobs: BlobInfo[] = [];
+    for (const path of paths) {
+        const value = getValueAtPath(root, path);
+        if (typeof value === 'string') {
+            const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+            const size = Math.floor(value.length * 3 / 4) - padding;
+            const head = Buffer.from(value.slice(0, Math.ceil(TEXT_SNIFF_LENGTH / 3) * 4), 'base64');
+            blobs.push({ path, size, ...sniffBlobType(head) });
+            continue;
+        }
+        const bytes = decodeBlob(value);
+        if (bytes) {
+            blobs.push({ path, size: bytes.length, ...sniffBlobType(bytes) });
+        }
+    }
+    return blobs;
+}
@@ -0,0 +1,426 @@
+import { ByteBuffer } from 'flatbuffers';
+import { CompiledObject, CompiledSchema, CompiledType, scalarSize } from './schemaCompiler';
+import { JsonPath } from './jsonPath';
+
+/**
+ * Maximum nesting of tables and vectors, matching flatc's verifier default
+ */
+const MAX_DEPTH = 64;
+
+/**
+ * Regions mapped before giving up, so huge drawings stay responsive
+ */
+const MAX_REGIONS = 500_000;
+
+/**
+ * What a byte range of a buffer holds. `header`, `vtable`, `table`, `vector`
+ * and `string` regions never overlap each other; `field` and `struct` regions
+ * lie inside the table or vector that stores them inline.
+ */
+export type BufferRegionKind = 'header' | 'vtable' | 'table' | 'vector' | 'string' | 'field' | 'struct';
+
+export const BUFFER_REGION_KINDS: readonly BufferRegionKind[] = ['header', 'vtable', 'table', 'vector', 'string', 'field', 'struct'];
+
+export interface BufferRegion {
+    start: number;
+    /** Offset of the byte after the region */
+    end: number;
+    kind: BufferRegionKind;
+    /** JSON node the bytes decode to */
+    path: JsonPath;
+    label: string;
+}
+
+export interface BufferLayout {
+    regions: BufferRegion[];
+    /** Whether mapping stopped at the region limit */
+    truncated: boolean;
+    /** Problems that left parts of the buffer unmapped */
+    errors: string[];
+}
+
+/**
+ * Layout in the compact form posted to webviews: every region is five numbers
+ * in `regions` (start, end, index into `kinds`, `paths` and `labels`)
+ */
+export interface EncodedBufferLayout {
+    kinds: readonly BufferRegionKind[];
+    regions: number[];
+    paths: JsonPath[];
+    labels: string[];
+    truncated: boolean;
+    errors: string[];
+}
+
+class LayoutError extends Error { }
+
+class RegionLimitError extends Error { }
+
+/**
+ * Maps the bytes of a FlatBuffers binary to the tables, vtables, vectors and
+ * strings they belong to and to the JSON path they are decoded to, walking
+ * the buffer the way {@link FlatBufferDecoder} does.
+ */
+export class BufferLayoutBuilder {
+    private readonly bb: ByteBuffer;
+    private readonly regions: BufferRegion[] = [];
+    private readonly errors: string[] = [];
+    /** Vtables and strings can be shared, they are mapped once */
+    private readonly mapped = new Set<number>();
+
+    constructor(private readonly bytes: Uint8Array, private readonly schema: CompiledSchema) {
+        this.bb = new ByteBuffer(bytes);
+    }
+
+    public build(): BufferLayout {
+        const root = this.schema.rootType;
+        if (!root) {
+            throw new Error('Schema has no root_type, cannot map buffer.');
+        }
+
+        let truncated = false;
+        try {
+            this.checkRange(0, 4, 'Root offset');
+            this.add(0, 4, 'header', [], `Offset to root table ${root.name}`);
+            if (this.bytes.length >= 8 && this.schema.fileIdentifier) {
+                const identifier = Buffer.from(this.bytes.buffer, this.bytes.byteOffset + 4, 4).toString('latin1');
+                this.add(4, 8, 'header', [], `File identifier ${JSON.stringify(identifier)}`);
+            }
+            this.mapTable(root, this.bb.readUint32(0), [], 0);
+        } catch (error) {
+            if (error instanceof RegionLimitError) {
+                truncated = true;
+            } else if (error instanceof LayoutError) {
+                this.errors.push(error.message);
+            } else {
+                throw error;
+            }
+        }
+
+        const regions = this.regions.sort((a, b) => a.start - b.start || b.end - a.end);
+        return { regions, truncated, errors: this.errors };
+    }
+
+    private add(start: number, end: number, kind: BufferRegionKind, path: JsonPath, label: string): void {
+        if (this.regions.length >= MAX_REGIONS) {
+            throw new RegionLimitError();
+        }
+        this.regions.push({ start, end, kind, path, label });
+    }
+
+    private checkRange(offset: number, size: number, what: string): void {
+        if (offset < 0 || size < 0 || offset + size > this.bytes.length) {
+            throw new LayoutError(`${what} at offset ${offset} (+${size} bytes) is out of bounds of the ${this.bytes.length} byte buffer.`);
+        }
+    }
+
+    private object(name: string): CompiledObject {
+        return this.schema.objects.get(name)!;
+    }
+
+    private indirect(pos: number, what: string): number {
+        this.checkRange(pos, 4, `Offset to ${what}`);
+        return pos + this.bb.readUint32(pos);
+    }
+
+    private mapTable(obj: CompiledObject, tablePos: number, path: JsonPath, depth: number): void {
+        if (depth > MAX_DEPTH) {
+            throw new LayoutError(`Buffer nesting exceeds ${MAX_DEPTH} levels at offset ${tablePos}.`);
+        }
+        this.checkRange(tablePos, 4, `Table ${obj.name}`);
+        const vtable = tablePos - this.bb.readInt32(tablePos);
+        this.checkRange(vtable, 4, `vtable of ${obj.name}`);
+        const vtableSize = this.bb.readUint16(vtable);
+        const objectSize = this.bb.readUint16(vtable + 2);
+        this.checkRange(vtable, vtableSize, `vtable of ${obj.name}`);
+        this.checkRange(tablePos, objectSize, `Table ${obj.name}`);
+
+        if (!this.mapped.has(vtable)) {
+            this.mapped.add(vtable);
+            this.add(vtable, vtable + vtableSize, 'vtable', path, `vtable of ${obj.name}`);
+        }
+        this.add(tablePos, tablePos + objectSize, 'table', path, `Table ${obj.name}`);
+
+        const fieldPosition = (slot: number): number => {
+            const entry = 4 + 2 * slot;
+            const fieldOffset = entry + 2 <= vtableSize ? this.bb.readUint16(vtable + entry) : 0;
+            return fieldOffset ? tablePos + fieldOffset : 0;
+        };
+
+        for (const field of obj.fields) {
+            const pos = fieldPosition(field.slot);
+            if (!pos) {
+                continue;
+            }
+            const fieldPath = [...path, field.name];
+            const size = this.inlineSize(field.type);
+            const type = this.describeType(field.type);
+            this.add(pos, pos + size, field.type.kind === 'struct' ? 'struct' : 'field', fieldPath,
+                `${obj.name}.${field.name}: ${type}${field.deprecated ? ' (deprecated)' : ''}`);
+
+            try {
+                if (field.type.kind === 'union' || (field.type.kind === 'vector' && field.type.element.kind === 'union')) {
+                    const typePos = fieldPosition(field.slot - 1);
+                    if (typePos) {
+                        this.mapUnionField(field.type, pos, typePos, fieldPath, depth);
+                    }
+                } else {
+                    this.mapValue(field.type, pos, fieldPath, depth);
+                }
+            } catch (error) {
+                // A broken field leaves the rest of the table readable
+                if (!(error instanceof LayoutError)) {
+                    throw error;
+                }
+                this.errors.push(error.message);
+            }
+        }
+    }
+
+    private mapUnionField(type: CompiledType, pos: number, typePos: number, path: JsonPath, depth: number): void {
+        if (type.kind === 'union') {
+            this.checkRange(typePos, 1, 'Union type');
+            this.mapUnionValue(type.name, this.bb.readUint8(typePos), pos, path, depth);
+            return;
+        }
+        if (type.kind !== 'vector' || type.element.kind !== 'union') {
+            return;
+        }
+
+        const types = this.vectorBounds(typePos, 1, 'Vector of union types');
+        const values = this.vectorBounds(pos, 4, 'Vector of unions');
+        this.add(values.start - 4, values.start + values.length * 4, 'vector', path, `Vector of ${values.length} ${type.element.name}`);
+        for (let i = 0; i < values.length; i++) {
+            const elementPos = values.start + i * 4;
+            this.add(elementPos, elementPos + 4, 'field', [...path, i], `Offset to element ${i}`);
+            const memberType = i < types.length ? this.bb.readUint8(types.start + i) : 0;
+            this.mapUnionValue(type.element.name, memberType, elementPos, [...path, i], depth + 1);
+        }
+    }
+
+    private mapUnionValue(unionName: string, memberType: number, pos: number, path: JsonPath, depth: number): void {
+        const member = this.schema.enums.get(unionName)?.values.find(v => v.value === memberType);
+        if (member?.unionType) {
+            this.mapValue(member.unionType, pos, path, depth);
+        }
+    }
+
+    /**
+     * Map what the inline value at `pos` points to; scalars and structs have
+     * already been mapped with their table or vector
+     */
+    private mapValue(type: CompiledType, pos: number, path: JsonPath, depth: number): void {
+        switch (type.kind) {
+            case 'string':
+                this.mapString(this.indirect(pos, 'string'), path);
+                break;
+            case 'table':
+                this.mapTable(this.object(type.name), this.indirect(pos, `table ${type.name}`), path, depth + 1);
+                break;
+            case 'vector':
+                this.mapVector(type.element, pos, path, depth + 1);
+                break;
+        }
+    }
+
+    private mapString(pos: number, path: JsonPath): void {
+        if (this.mapped.has(pos)) {
+            return;
+        }
+        this.mapped.add(pos);
+        this.checkRange(pos, 4, 'String');
+        const length = this.bb.readUint32(pos);
+        // Include the null terminator when it is there
+        const end = Math.min(pos + 4 + length + 1, this.bytes.length);
+        this.checkRange(pos + 4, length, 'String');
+        this.add(pos, end, 'string', path, `String of ${length} bytes`);
+    }
+
+    private vectorBounds(pos: number, elementSize: number, what: string): { start: number; length: number } {
+        const vectorPos = this.indirect(pos, what);
+        this.checkRange(vectorPos, 4, what);
+        const length = this.bb.readUint32(vectorPos);
+        this.checkRange(vectorPos + 4, length * elementSize, what);
+        return { start: vectorPos + 4, length };
+    }
+
+    private mapVector(element: CompiledType, pos: number, path: JsonPath, depth: number): void {
+        if (depth > MAX_DEPTH) {
+            throw new LayoutError(`Buffer nesting exceeds ${MAX_DEPTH} levels at offset ${pos}.`);
+        }
+        const stride = this.inlineSize(element);
+        const { start, length } = this.vectorBounds(pos, stride, 'Vector');
+        this.add(start - 4, start + length * stride, 'vector', path, `Vector of ${length} ${this.describeType(element)}`);
+
+        // Scalar elements are left to the vector, one region per byte of a blob helps nobody
+        if (element.kind === 'scalar') {
+            return;
+        }
+        for (let i = 0; i < length; i++) {
+            const elementPos = start + i * stride;
+            const elementPath = [...path, i];
+            if (element.kind === 'struct') {
+                this.add(elementPos, elementPos + stride, 'struct', elementPath, `${element.name} [${i}]`);
+                continue;
+            }
+            this.add(elementPos, elementPos + stride, 'field', elementPath, `Offset to element ${i}`);
+            this.mapValue(element, elementPos, elementPath, depth);
+        }
+    }
+
+    private inlineSize(type: CompiledType): number {
+        switch (type.kind) {
+            case 'scalar':
+                return scalarSize(type.scalar);
+            case 'struct':
+                return this.object(type.name).byteSize;
+            case 'array':
+                return this.inlineSize(type.element) * type.length;
+            default:
+                // Strings, tables, unions and vectors are stored as offsets
+                return 4;
+        }
+    }
+
+    private describeType(type: CompiledType): string {
+        switch (type.kind) {
+            case 'scalar':
+                return type.enumName ?? type.scalar;
+            case 'string':
+                return 'string';
+            case 'vector':
+                return `[${this.describeType(type.element)}]`;
+            case 'array':
+                return `[${this.describeType(type.element)}:${type.length}]`;
+            default:
+                return type.name;
+        }
+    }
+}
+
+/**
+ * Share paths and labels between regions to keep the message to a webview small
+ */
+export function encodeBufferLayout(layout: BufferLayout): EncodedBufferLayout {
+    const pathIds = new Map<string, number>();
+    const labelIds = new Map<string, number>();
+    const encoded: EncodedBufferLayout = {
+        kinds: BUFFER_REGION_KINDS,
+        regions: [],
+        paths: [],
+        labels: [],
+        truncated: layout.truncated,
+        errors: layout.errors
+    };
+
+    for (const region of layout.regions) {
+        const pathKey = JSON.stringify(region.path);
+        let pathId = pathIds.get(pathKey);
+        if (pathId === undefined) {
+            pathId = encoded.paths.push(region.path) - 1;
+            pathIds.set(pathKey, pathId);
+        }
+        let labelId = labelIds.get(region.label);
+        if (labelId === undefined) {
+            labelId = encoded.labels.push(region.label) - 1;
+            labelIds.set(region.label, labelId);
+        }
+        encoded.regions.push(region.start, region.end, BUFFER_REGION_KINDS.indexOf(region.kind), pathId, labelId);
+    }
+    return encoded;
+}
+
+/**
+ * Looks up the regions of an encoded layout by byte range and by JSON path,
+ * so webviews can be sent the part they show instead of the whole layout
+ */
+export class BufferLayoutIndex {
+    /** Indexes of the `header`, `vtable`, `table`, `vector` and `string` regions, by start */
+    private readonly blocks: number[] = [];
+    /** Indexes of the `field` and `struct` regions, by start */
+    private readonly inline: number[] = [];
+    /** Path ids by serialized path and region indexes by path id, built on first use */
+    private byPath: { pathIds: Map<string, number>; regions: number[][] } | undefined;
+
+    constructor(public readonly layout: EncodedBufferLayout) {
+        const fieldKind = layout.kinds.indexOf('field');
+        const structKind = layout.kinds.indexOf('struct');
+        for (let i = 0; i < layout.regions.length; i += 5) {
+            const kind = layout.regions[i + 2];
+            (kind === fieldKind || kind === structKind ? this.inline : this.blocks).push(i / 5);
+        }
+    }
+
+    /**
+     * Regions overlapping the bytes from `start` to `end`, sorted by start
+     */
+    public slice(start: number, end: number): EncodedBufferLayout {
+        const regions: BufferRegion[] = [];
+        for (const list of [this.blocks, this.inline]) {
+            for (let i = this.findFirst(list, start); i < list.length && this.startOf(list[i]) < end; i++) {
+                if (this.endOf(list[i]) > start) {
+                    regions.push(this.regionAt(list[i]));
+                }
+            }
+        }
+        regions.sort((a, b) => a.start - b.start);
+        return encodeBufferLayout({ regions, truncated: this.layout.truncated, errors: [] });
+    }
+
+    /**
+     * Byte ranges, as start and end pairs, of the JSON node at `path` or of its
+     * closest ancestor that has bytes of its own
+     */
+    public findRanges(path: JsonPath): number[] {
+        if (!this.byPath) {
+            const regions: number[][] = this.layout.paths.map(() => []);
+            for (let i = 0; i < this.layout.regions.length; i += 5) {
+                regions[this.layout.regions[i + 3]].push(i / 5);
+            }
+            this.byPath = {
+                pathIds: new Map(this.layout.paths.map((p, id) => [JSON.stringify(p), id])),
+                regions
+            };
+        }
+        for (let length = path.length; length >= 0; length--) {
+            const pathId = this.byPath.pathIds.get(JSON.stringify(path.slice(0, length)));
+            if (pathId !== undefined && this.byPath.regions[pathId].length > 0) {
+                return this.byPath.regions[pathId].flatMap(index => [this.startOf(index), this.endOf(index)]);
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Position in `list` of the last region starting at or before `offset`,
+     * which is the first one that may contain it
+     */
+    private findFirst(list: number[], offset: number): number {
+        let low = 0;
+        let high = list.length - 1;
+        let found = 0;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (this.startOf(list[mid]) <= offset) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return found;
+    }
+
+    private startOf(index: number): number {
+        return this.layout.regions[index * 5];
+    }
+
+    private endOf(index: number): number {
+        return this.layout.regions[index * 5 + 1];
+    }
+
+    private regionAt(index: number): BufferRegion {
+        const [start, end, kind, pathId, labelId] = this.layout.regions.slice(index * 5, index * 5 + 5);
+        return { start, end, kind: this.layout.kinds[kind], path: this.layout.paths[pathId], label: this.layout.labels[labelId] };
+    }
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IncludedSchema } from './schemaCompiler';
+
+/**
+ * Version of the JSON produced for the same bytes and schema. Bump it whenever
+ * the decoder or the conversion worker print anything differently: it is part
+ * of every key, and an index written for another version is discarded.
+ */
+const CACHE_FORMAT_VERSION = 2;
+
+interface CacheEntry {
+    size: number;
+    lastAccess: number;
+}
+
+interface CacheIndex {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Persistent cache of converted JSON in the extension's global storage.
+ *
+ * Entries are keyed by a hash of the .duc bytes and a hash of the schema text,
+ * the decoder and the format version, so switching schemas or decoders never
+ * returns output produced by another one.
+ */
+export class ConversionCache {
+    private static instance: ConversionCache;
+    private readonly cacheDir: string;
+    private readonly indexPath: string;
+    private index: CacheIndex | undefined;
+    /** Serializes index updates so concurrent conversions don't lose entries */
+    private pending: Promise<unknown> = Promise.resolve();
+
+    private constructor(context: vscode.ExtensionContext) {
+        this.cacheDir = path.join(context.globalStorageUri.fsPath, 'conversion-cache');
+        this.indexPath = path.join(this.cacheDir, 'index.json');
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): ConversionCache {
+        if (!ConversionCache.instance) {
+            ConversionCache.instance = new ConversionCache(context);
+        }
+        return ConversionCache.instance;
+    }
+
+    /**
+     * Compute the cache key for a buffer decoded with a schema and the files it
+     * includes, by the given `ducPreview.decoder` mode
+     */
+    public static computeKey(fileData: Uint8Array, schemaContent: string, includes: IncludedSchema[], decoder: string): string {
+        const fileHash = crypto.createHash('sha256').update(fileData).digest('hex');
+        const schemaHash = crypto.createHash('sha256').update(schemaContent, 'utf8');
+        for (const include of includes) {
+            schemaHash.update('\0', 'utf8').update(include.content, 'utf8');
+        }
+        schemaHash.update(`\0${decoder}\0${CACHE_FORMAT_VERSION}`, 'utf8');
+        const schemaDigest = schemaHash.digest('hex');
+        return `${fileHash.slice(0, 32)}-${schemaDigest.slice(0, 16)}`;
+    }
+
+    /**
+     * Maximum total size of the cache in bytes, 0 when caching is disabled
+     */
+    private getMaxSize(): number {
+        const megabytes = vscode.workspace.getConfiguration('ducPreview').get<number>('cache.maxSizeMB', 200);
+        return Math.max(0, megabytes) * 1024 * 1024;
+    }
+
+    public isEnabled(): boolean {
+        return this.getMaxSize() > 0;
+    }
+
+    /**
+     * Get the cached JSON for a key, marking the entry as recently used
+     */
+    public async get(key: string): Promise<string | undefined> {
+        if (!this.isEnabled()) {
+            return undefined;
+        }
+        return this.enqueue(async () => {
+            const index = await this.loadIndex();
+            const entry = index.entries[key];
+            if (!entry) {
+                return undefined;
+            }
+            try {
+                const content = await fs.promises.readFile(this.entryPath(key), 'utf8');
+                entry.lastAccess = Date.now();
+                await this.saveIndex();
+                console.debug(`ConversionCache: Hit for ${key}`);
+                return content;
+            } catch {
+                // The entry file is gone, forget about it
+                delete index.entries[key];
+                await this.saveIndex();
+                return undefined;
+            }
+        });
+    }
+
+    /**
+     * Store converted JSON, evicting the least recently used entries beyond the size cap
+     */
+    public async set(key: string, content: string): Promise<void> {
+        const maxSize = this.getMaxSize();
+        const size = Buffer.byteLength(content, 'utf8');
+        if (size > maxSize) {
+            return;
+        }
+        await this.enqueue(async () => {
+            const index = await this.loadIndex();
+            await fs.promises.mkdir(this.cacheDir, { recursive: true });
+            await fs.promises.writeFile(this.entryPath(key), content, 'utf8');
+            index.entries[key] = { size, lastAccess: Date.now() };
+            await this.evict(maxSize);
+            await this.saveIndex();
+        });
+    }
+
+    /**
+     * Remove every cached conversion
+     */
+    public async clear(): Promise<void> {
+        await this.enqueue(async () => {
+            await fs.promises.rm(this.cacheDir, { recursive: true, force: true });
+            this.index = { version: CACHE_FORMAT_VERSION, entries: {} };
+        });
+        console.log('ConversionCache: Cache cleared');
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.pending.then(task, task);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    private entryPath(key: string): string {
+        return path.join(this.cacheDir, `${key}.json`);
+    }
+
+    private async loadIndex(): Promise<CacheIndex> {
+        if (this.index) {
+            return this.index;
+        }
+        try {
+            const parsed = JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8')) as CacheIndex;
+            if (parsed.version === CACHE_FORMAT_VERSION && parsed.entries) {
+                this.index = parsed;
+                return parsed;
+            }
+            // Entries written in an older format can't be used
+            await fs.promises.rm(this.cacheDir, { recursive: true, force: true });
+        } catch {
+            // No index yet
+        }
+        this.index = { version: CACHE_FORMAT_VERSION, entries: {} };
+        return this.index;
+    }
+
+    private async saveIndex(): Promise<void> {
+        await fs.promises.mkdir(this.cacheDir, { recursive: true });
+        await fs.promises.writeFile(this.indexPath, JSON.stringify(this.index), 'utf8');
+    }
+
+    private async evict(maxSize: number): Promise<void> {
+        const entries = this.index!.entries;
+        let total = Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+        const byAge = Object.keys(entries).sort((a, b) => entries[a].lastAccess - entries[b].lastAccess);
+
+        for (const key of byAge) {
+            if (total <= maxSize) {
+                break;
+            }
+            total -= entries[key].size;
+            delete entries[key];
+            await fs.promises.rm(this.entryPath(key), { force: true });
+            console.debug(`ConversionCache: Evicted ${key}`);
+        }
+    }
+}
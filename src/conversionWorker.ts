@@ -0,0 +1,73 @@
+/**
+ * Worker thread turning DUC binaries into the JSON shown to users, so large
+ * files don't block the extension host. Started by `DucConverter` with a
+ * {@link ConversionRequest} as its worker data.
+ */
+
+import * as fs from 'fs';
+import { parentPort, workerData } from 'worker_threads';
+import { BufferLayoutBuilder, EncodedBufferLayout, encodeBufferLayout } from './bufferLayout';
+import { FlatBufferDecoder } from './flatbufferDecoder';
+import { IncludedSchema, getCompiledSchema } from './schemaCompiler';
+import { SchemaParser } from './schemaParser';
+
+export interface ConversionRequest {
+    fileData: Uint8Array;
+    schemaContent: string;
+    schemaIncludes: IncludedSchema[];
+    /** JSON written by flatc to read instead of decoding `fileData` in process */
+    flatcOutputPath?: string;
+    /** Map the bytes of `fileData` for the hex view instead of converting them */
+    mapLayout?: boolean;
+}
+
+export type ConversionWorkerMessage =
+    | { type: 'progress'; message: string }
+    | { type: 'result'; json: string }
+    | { type: 'layout'; layout: EncodedBufferLayout }
+    | { type: 'error'; message: string };
+
+/**
+ * Replace the byte arrays of binary fields with Base64 strings, in place
+ */
+function encodeBinaryFields(value: unknown, parser: SchemaParser): void {
+    parser.forEachBinaryField(value, field => {
+        if (Array.isArray(field.value) && field.value.length > 0 && typeof field.value[0] === 'number') {
+            field.replace(Buffer.from(field.value).toString('base64'));
+        }
+    });
+}
+
+function convert(request: ConversionRequest, report: (message: string) => void): string {
+    let value: unknown;
+    if (request.flatcOutputPath) {
+        report('Reading converted JSON output...');
+        value = JSON.parse(fs.readFileSync(request.flatcOutputPath, 'utf8'));
+    } else {
+        report('Decoding DUC buffer...');
+        const schema = getCompiledSchema(request.schemaContent, request.schemaIncludes);
+        value = new FlatBufferDecoder(request.fileData, schema).decode();
+    }
+
+    report('Finalizing JSON...');
+    const parser = SchemaParser.getInstance();
+    parser.parseSchema(request.schemaContent, request.schemaIncludes);
+    encodeBinaryFields(value, parser);
+    return JSON.stringify(value, null, 2);
+}
+
+if (parentPort) {
+    const port = parentPort;
+    const post = (message: ConversionWorkerMessage) => port.postMessage(message);
+    const request = workerData as ConversionRequest;
+    try {
+        if (request.mapLayout) {
+            const schema = getCompiledSchema(request.schemaContent, request.schemaIncludes);
+            post({ type: 'layout', layout: encodeBufferLayout(new BufferLayoutBuilder(request.fileData, schema).build()) });
+        } else {
+            post({ type: 'result', json: convert(request, message => post({ type: 'progress', message })) });
+        }
+    } catch (error) {
+        post({ type: 'error', message: (error as Error).message });
+    }
+}
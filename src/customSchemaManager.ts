@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import { resolveSchemaPath } from './schemaRegistry';
 
 /**
  * Manages custom FlatBuffers schema selection and storage
@@ -21,14 +22,20 @@ export class CustomSchemaManager {
     }
 
     /**
-     * Get the current custom schema path if set and valid
+     * Get the current custom schema path if set and valid.
+     *
+     * Pass the file being decoded to read the setting of its workspace folder
+     * and resolve variables and relative paths against it.
      */
-    public getCustomSchemaPath(): string | null {
-        const workspaceConfig = vscode.workspace.getConfiguration('ducPreview');
+    public getCustomSchemaPath(uri?: vscode.Uri): string | null {
+        const workspaceConfig = vscode.workspace.getConfiguration('ducPreview', uri);
         const customSchemaPath = workspaceConfig.get<string>('customSchemaPath');
         
-        if (customSchemaPath && this.isValidSchemaFile(customSchemaPath)) {
-            return customSchemaPath;
+        if (customSchemaPath) {
+            const resolvedPath = resolveSchemaPath(customSchemaPath, uri);
+            if (this.isValidSchemaFile(resolvedPath)) {
+                return resolvedPath;
+            }
         }
         
         return null;
@@ -37,8 +44,8 @@ export class CustomSchemaManager {
     /**
      * Get the custom schema content if available and valid
      */
-    public async getCustomSchemaContent(): Promise<string | null> {
-        const schemaPath = this.getCustomSchemaPath();
+    public async getCustomSchemaContent(uri?: vscode.Uri): Promise<string | null> {
+        const schemaPath = this.getCustomSchemaPath(uri);
         if (!schemaPath) {
             return null;
         }
@@ -145,15 +152,15 @@ export class CustomSchemaManager {
     /**
      * Check if a custom schema is currently set
      */
-    public hasCustomSchema(): boolean {
-        return this.getCustomSchemaPath() !== null;
+    public hasCustomSchema(uri?: vscode.Uri): boolean {
+        return this.getCustomSchemaPath(uri) !== null;
     }
 
     /**
      * Get a display name for the current schema (for UI purposes)
      */
-    public getCurrentSchemaDisplayName(): string {
-        const customPath = this.getCustomSchemaPath();
+    public getCurrentSchemaDisplayName(uri?: vscode.Uri): string {
+        const customPath = this.getCustomSchemaPath(uri);
         if (customPath) {
             return `Custom: ${vscode.workspace.asRelativePath(customPath)}`;
         }
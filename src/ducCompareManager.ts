@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionCancelledError, DucConverter } from './ducConverter';
+import { DucDiff, FieldChange, ItemSummary, computeDucDiff, normalizeForDiff } from './ducDiff';
+
+/**
+ * Longest value printed in the change summary before it is truncated
+ */
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Compares two .duc files semantically and shows the result in a diff editor
+ * next to a summary of the changes.
+ *
+ * The compared documents live in memory and are served under the `duc-compare` scheme.
+ */
+export class DucCompareManager implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'duc-compare';
+    private static instance: DucCompareManager;
+    private readonly _contents = new Map<string, string>();
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _nextId = 0;
+
+    private constructor(private readonly _context: vscode.ExtensionContext) {
+        this._disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(DucCompareManager.scheme, this),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document.uri.scheme === DucCompareManager.scheme) {
+                    this._contents.delete(document.uri.toString());
+                }
+            }),
+            this._onDidChange
+        );
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): DucCompareManager {
+        if (!DucCompareManager.instance) {
+            DucCompareManager.instance = new DucCompareManager(context);
+            context.subscriptions.push(DucCompareManager.instance);
+        }
+        return DucCompareManager.instance;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Ask for the file to compare with and show the comparison
+     */
+    public async compareWith(left: vscode.Uri): Promise<void> {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.Uri.joinPath(left, '..'),
+            filters: { 'Duc Files': ['duc'] },
+            openLabel: 'Compare'
+        });
+        if (picked && picked.length > 0) {
+            await this.compare(left, picked[0]);
+        }
+    }
+
+    /**
+     * Decode both files and show their differences
+     */
+    public async compare(left: vscode.Uri, right: vscode.Uri): Promise<void> {
+        const converter = DucConverter.getInstance(this._context);
+        const leftName = path.basename(left.fsPath);
+        const rightName = path.basename(right.fsPath);
+
+        let values: [unknown, unknown];
+        try {
+            values = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Comparing ${leftName} with ${rightName}`,
+                cancellable: true
+            }, async (progress, token) => Promise.all([
+                converter.decodeFile(left, { progress, token }),
+                converter.decodeFile(right, { progress, token })
+            ]));
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                console.log(`DUC Compare: ${error.message}`);
+                return;
+            }
+            vscode.window.showErrorMessage(`Failed to compare DUC files: ${(error as Error).message}`);
+            return;
+        }
+
+        const [before, after] = values;
+        const id = this._nextId++;
+        const leftUri = this.setContent(`${id}/${leftName}.json`, JSON.stringify(normalizeForDiff(before), null, 2));
+        const rightUri = this.setContent(`${id}/${rightName}.json`, JSON.stringify(normalizeForDiff(after), null, 2));
+        const summaryUri = this.setContent(`${id}/Changes.md`, formatDiffSummary(computeDucDiff(before, after), leftName, rightName));
+
+        await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, `${leftName} ↔ ${rightName}`);
+        const summary = await vscode.workspace.openTextDocument(summaryUri);
+        await vscode.window.showTextDocument(summary, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true, preview: true });
+    }
+
+    private setContent(name: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: DucCompareManager.scheme, path: `/${name}` });
+        this._contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    public dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._contents.clear();
+    }
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined) {
+        return '_absent_';
+    }
+    let text = JSON.stringify(value);
+    if (text.length > MAX_VALUE_LENGTH) {
+        text = `${text.slice(0, MAX_VALUE_LENGTH)}…`;
+    }
+    return `\`${text.replace(/`/g, '\'')}\``;
+}
+
+function formatItem(item: ItemSummary): string {
+    const name = item.occurrence ? `\`${item.id}\` #${item.occurrence}` : `\`${item.id}\``;
+    return item.type ? `${name} (${item.type})` : name;
+}
+
+function formatFieldChange(change: FieldChange): string {
+    const field = change.path ? `\`${change.path}\`` : 'value';
+    if (change.before === undefined) {
+        return `${field}: added ${formatValue(change.after)}`;
+    }
+    if (change.after === undefined) {
+        return `${field}: removed ${formatValue(change.before)}`;
+    }
+    return `${field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+/**
+ * Render the changes between two documents as Markdown
+ */
+function formatDiffSummary(diff: DucDiff, leftName: string, rightName: string): string {
+    const lines = [`# Changes from ${leftName} to ${rightName}`, ''];
+
+    if (diff.sections.length === 0 && diff.fieldChanges.length === 0) {
+        lines.push('The files are semantically identical.');
+        return lines.join('\n');
+    }
+
+    for (const section of diff.sections) {
+        lines.push(
+            `## ${section.name}`,
+            '',
+            `${section.added.length} added, ${section.removed.length} removed, ${section.modified.length} modified`
+            + (section.reordered ? ', order changed' : ''),
+            ''
+        );
+        if (section.duplicateIds.length > 0) {
+            lines.push(
+                `Ids used by several items, matched by position: ${section.duplicateIds.map(id => `\`${id}\``).join(', ')}`,
+                ''
+            );
+        }
+        for (const item of section.added) {
+            lines.push(`- Added ${formatItem(item)}`);
+        }
+        for (const item of section.removed) {
+            lines.push(`- Removed ${formatItem(item)}`);
+        }
+        for (const item of section.modified) {
+            lines.push(`- Modified ${formatItem(item)}`);
+            for (const change of item.changes) {
+                lines.push(`  - ${formatFieldChange(change)}`);
+            }
+        }
+        lines.push('');
+    }
+
+    if (diff.fieldChanges.length > 0) {
+        lines.push('## Other fields', '');
+        for (const change of diff.fieldChanges) {
+            lines.push(`- ${formatFieldChange(change)}`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,825 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import * as util from "util";
+import * as childProcess from "child_process";
+import * as fs from "fs";
+import { Worker } from "worker_threads";
+import { FlatcManager } from "./flatcManager";
+import { CustomSchemaManager } from "./customSchemaManager";
+import { SchemaParser } from "./schemaParser";
+import { DUC_SCHEMA } from "./assets/schema";
+import { IncludedSchema, getCompiledSchema } from "./schemaCompiler";
+import {
+  ConversionRequest,
+  ConversionWorkerMessage,
+} from "./conversionWorker";
+import { ConversionCache } from "./conversionCache";
+import { EncodedBufferLayout } from "./bufferLayout";
+import { JsonPath } from "./jsonPath";
+import {
+  readBufferHeader,
+  findAssociatedSchema,
+  findRegisteredSchema,
+  getSchemaIncludeDirs,
+  getSettingScope,
+  loadSchemaIncludes,
+} from "./schemaRegistry";
+
+const execFile = util.promisify(childProcess.execFile);
+
+/**
+ * Raised when a conversion is cancelled by the user or exceeds the configured timeout
+ */
+export class ConversionCancelledError extends Error {}
+
+/**
+ * Raised when flatc exits with an error
+ */
+export class FlatcError extends Error {
+  /** JSON text passed to flatc, set when converting JSON to a binary */
+  public input: string | undefined;
+
+  constructor(message: string, public readonly stderr: string) {
+    super(message);
+  }
+}
+
+/**
+ * Throw a `ConversionCancelledError` once the token has been cancelled
+ */
+function throwIfCancelled(token: vscode.CancellationToken): void {
+  if (token.isCancellationRequested) {
+    throw new ConversionCancelledError("The conversion was cancelled.");
+  }
+}
+
+/**
+ * Maximum time in seconds a flatc conversion may run, 0 for no limit
+ */
+function getConversionTimeout(uri: vscode.Uri | undefined): number {
+  const seconds = vscode.workspace
+    .getConfiguration("ducPreview", uri)
+    .get<number>("conversionTimeout", 60);
+  return Math.max(0, seconds);
+}
+
+/**
+ * Read a schema file chosen by a setting, `description` telling in the error
+ * which entry pointed at it
+ */
+async function readSchemaFile(
+  schemaPath: string,
+  description: string
+): Promise<string> {
+  try {
+    return await fs.promises.readFile(schemaPath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read the schema ${description} at ${schemaPath}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Arguments passing a schema to flatc.
+ *
+ * A schema file is passed from its original location, with the directories of
+ * the files it includes and `ducPreview.schemaIncludePaths` as include paths.
+ * The embedded schema is written to `tempDir` first.
+ */
+async function getFlatcSchemaArgs(
+  schema: FlatcSchema,
+  tempDir: string,
+  uri: vscode.Uri | undefined
+): Promise<string[]> {
+  if (!schema.path) {
+    const schemaPath = path.join(tempDir, "schema.fbs");
+    await fs.promises.writeFile(schemaPath, schema.content, "utf8");
+    return [schemaPath];
+  }
+  const includeDirs = new Set([
+    path.dirname(schema.path),
+    ...schema.includes.map((include) => path.dirname(include.path)),
+    ...getSchemaIncludeDirs(uri),
+  ]);
+  return [...[...includeDirs].flatMap((dir) => ["-I", dir]), schema.path];
+}
+
+/**
+ * What flatc needs of a schema
+ */
+type FlatcSchema = Pick<SchemaSource, "content" | "path" | "includes">;
+
+type ConversionProgress = vscode.Progress<{
+  message?: string;
+  increment?: number;
+}>;
+
+/**
+ * Options shared by conversions in both directions
+ */
+export interface ConversionOptions {
+  /** File being converted, used to resolve resource scoped settings */
+  uri?: vscode.Uri;
+  progress?: ConversionProgress;
+  token?: vscode.CancellationToken;
+  /** Schema to convert with, chosen with `selectSchema` when not given */
+  schema?: SchemaSource;
+}
+
+/**
+ * Result of converting a DUC binary to JSON
+ */
+export interface ConversionResult {
+  /** Formatted JSON with binary fields encoded as Base64 */
+  json: string;
+  /** Schema text the binary was decoded with, needed to convert the JSON back */
+  schemaContent: string;
+  /** File the schema was read from, undefined for the embedded schema */
+  schemaPath?: string;
+  /** Files included by the schema, needed with `schemaContent` to compile it */
+  schemaIncludes: IncludedSchema[];
+  /** Which schema was used and why, for display */
+  schemaLabel: string;
+}
+
+/**
+ * A schema and where it was loaded from
+ */
+export interface SchemaSource {
+  content: string;
+  /** File the schema was read from, undefined for the embedded schema */
+  path?: string;
+  /** Files pulled in by its include statements, resolved from `path` */
+  includes: IncludedSchema[];
+  /** Which schema this is, for display */
+  label: string;
+  /** Why the schema was chosen, naming the setting that selected it */
+  reason: string;
+}
+
+/**
+ * Options controlling how exported JSON is written
+ */
+export interface JsonFormatOptions {
+  /** Write the JSON on a single line */
+  minify?: boolean;
+  /** Keep binary fields as Base64 strings or write them as arrays of bytes */
+  binaryEncoding?: "base64" | "bytes";
+}
+
+/**
+ * Converts DUC binaries to JSON and back.
+ *
+ * Shared by the viewer and every command that needs the decoded document.
+ */
+export class DucConverter {
+  private static instance: DucConverter;
+  private _flatcManager: FlatcManager;
+  private _customSchemaManager: CustomSchemaManager;
+  private _schemaParser: SchemaParser;
+
+  private constructor(private readonly _context: vscode.ExtensionContext) {
+    this._flatcManager = FlatcManager.getInstance(_context);
+    this._customSchemaManager = CustomSchemaManager.getInstance(_context);
+    this._schemaParser = SchemaParser.getInstance();
+  }
+
+  public static getInstance(context: vscode.ExtensionContext): DucConverter {
+    if (!DucConverter.instance) {
+      DucConverter.instance = new DucConverter(context);
+    }
+    return DucConverter.instance;
+  }
+
+  /**
+   * The schema for a file and format version: the schema associated with the
+   * file in `ducPreview.schemaAssociations`, else the schema registered for the
+   * version in `ducPreview.schemaRegistry`, else the custom schema if one is
+   * selected, else the embedded schema
+   */
+  public async getSchema(
+    uri?: vscode.Uri,
+    version?: string
+  ): Promise<SchemaSource> {
+    const associated = uri ? findAssociatedSchema(uri) : undefined;
+    if (associated) {
+      console.debug(
+        `DUC Viewer: Using schema associated with ${associated.pattern}`
+      );
+      const content = await readSchemaFile(
+        associated.path,
+        `associated with ${associated.pattern}`
+      );
+      return {
+        content,
+        path: associated.path,
+        includes: await loadSchemaIncludes(associated.path, content, uri),
+        label: `Association: ${vscode.workspace.asRelativePath(associated.path)}`,
+        reason: `The file matches "${associated.pattern}" in ducPreview.schemaAssociations (${associated.scope})`,
+      };
+    }
+
+    const registered =
+      version !== undefined ? findRegisteredSchema(version, uri) : undefined;
+    if (registered) {
+      console.debug(
+        `DUC Viewer: Using schema registered for version ${registered.pattern}`
+      );
+      const content = await readSchemaFile(
+        registered.path,
+        `registered for version ${registered.pattern}`
+      );
+      return {
+        content,
+        path: registered.path,
+        includes: await loadSchemaIncludes(registered.path, content, uri),
+        label: `Registry: ${vscode.workspace.asRelativePath(registered.path)}`,
+        reason: `Version ${version} matches "${registered.pattern}" in ducPreview.schemaRegistry (${registered.scope})`,
+      };
+    }
+
+    // Try to get custom schema first, fall back to embedded schema
+    const customSchemaContent =
+      await this._customSchemaManager.getCustomSchemaContent(uri);
+    const customSchemaPath = this._customSchemaManager.getCustomSchemaPath(uri);
+    if (customSchemaContent && customSchemaPath) {
+      console.debug("DUC Viewer: Using custom schema");
+      return {
+        content: customSchemaContent,
+        path: customSchemaPath,
+        includes: await loadSchemaIncludes(
+          customSchemaPath,
+          customSchemaContent,
+          uri
+        ),
+        label: this._customSchemaManager.getCurrentSchemaDisplayName(uri),
+        reason: `ducPreview.customSchemaPath is set in ${getSettingScope("customSchemaPath", uri)}`,
+      };
+    }
+    console.debug("DUC Viewer: Using default embedded schema");
+    return {
+      content: DUC_SCHEMA,
+      includes: [],
+      label: this._customSchemaManager.getCurrentSchemaDisplayName(uri),
+      reason:
+        version !== undefined
+          ? `No association, no schema registered for version ${version} and no custom schema applies`
+          : "No association and no custom schema applies",
+    };
+  }
+
+  /**
+   * Pick the schema for a DUC binary from the file identifier and version
+   * read from its header
+   */
+  public async selectSchema(
+    fileData: Uint8Array,
+    uri?: vscode.Uri
+  ): Promise<SchemaSource> {
+    const fallback = await this.getSchema(uri);
+    const header = readBufferHeader(
+      fileData,
+      fallback.content,
+      fallback.includes
+    );
+    const expectedIdentifier = getCompiledSchema(
+      fallback.content,
+      fallback.includes
+    ).fileIdentifier;
+    if (
+      header.fileIdentifier &&
+      expectedIdentifier &&
+      header.fileIdentifier !== expectedIdentifier
+    ) {
+      console.warn(
+        `DUC Viewer: File identifier ${header.fileIdentifier} does not match the schema's ${expectedIdentifier}`
+      );
+    }
+
+    const schema =
+      header.version !== undefined
+        ? await this.getSchema(uri, header.version)
+        : fallback;
+    const details = [
+      header.fileIdentifier && `identifier ${header.fileIdentifier}`,
+      header.version !== undefined && `version ${header.version}`,
+    ].filter(Boolean);
+    return details.length > 0
+      ? { ...schema, label: `${schema.label} · ${details.join(", ")}` }
+      : schema;
+  }
+
+  /**
+   * Read a .duc file from any file system, e.g. `git:` revisions, and convert it
+   */
+  public async convertFile(
+    uri: vscode.Uri,
+    options: ConversionOptions = {}
+  ): Promise<ConversionResult> {
+    const fileData = await vscode.workspace.fs.readFile(uri);
+    return this.convertDucToJson(fileData, { uri, ...options });
+  }
+
+  /**
+   * Convert a .duc file and parse the resulting JSON
+   */
+  public async decodeFile(
+    uri: vscode.Uri,
+    options: ConversionOptions = {}
+  ): Promise<unknown> {
+    const result = await this.convertFile(uri, options);
+    return JSON.parse(result.json);
+  }
+
+  /**
+   * Reformat JSON produced by `convertDucToJson`, e.g. for export
+   */
+  public formatJson(
+    result: Pick<ConversionResult, "json" | "schemaContent" | "schemaIncludes">,
+    options: JsonFormatOptions = {}
+  ): string {
+    const parsedJson: unknown = JSON.parse(result.json);
+    if (options.binaryEncoding === "bytes") {
+      this._schemaParser.parseSchema(result.schemaContent, result.schemaIncludes);
+      this.decodeBinaryFields(parsedJson);
+    }
+    return JSON.stringify(parsedJson, null, options.minify ? undefined : 2);
+  }
+
+  /**
+   * Paths of the binary fields of a document produced by `convertDucToJson`
+   */
+  public findBinaryFields(
+    value: unknown,
+    schemaContent: string,
+    schemaIncludes: IncludedSchema[] = []
+  ): JsonPath[] {
+    this._schemaParser.parseSchema(schemaContent, schemaIncludes);
+    const found: JsonPath[] = [];
+    this._schemaParser.forEachBinaryField(value, (field) => {
+      if (typeof field.value === "string") {
+        found.push(field.path);
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Restore Base64 encoded binary fields to byte arrays, in place.
+   *
+   * The schema must have been parsed by `_schemaParser`.
+   */
+  private decodeBinaryFields(value: unknown): void {
+    this._schemaParser.forEachBinaryField(value, (field) => {
+      if (typeof field.value === "string") {
+        field.replace(Array.from(Buffer.from(field.value, "base64")));
+      }
+    });
+  }
+
+  /**
+   * Convert edited JSON back to a DUC binary using flatbuffers.
+   *
+   * Pass the schema that produced the JSON in `convertDucToJson`.
+   */
+  public async convertJsonToDuc(
+    jsonContent: string,
+    schema: FlatcSchema,
+    options: ConversionOptions = {}
+  ): Promise<Uint8Array> {
+    const token = options.token ?? new vscode.CancellationTokenSource().token;
+    let parsedJson: unknown;
+    try {
+      parsedJson = JSON.parse(jsonContent);
+    } catch (error) {
+      throw new Error(
+        `Cannot save DUC file, the JSON is invalid: ${(error as Error).message}`
+      );
+    }
+
+    this._schemaParser.parseSchema(schema.content, schema.includes);
+    this.decodeBinaryFields(parsedJson);
+
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "duc_save_")
+    );
+    try {
+      const schemaArgs = await getFlatcSchemaArgs(schema, tempDir, options.uri);
+      const jsonPath = path.join(tempDir, "data.json");
+      // Indented so flatc reports errors at meaningful line numbers
+      const inputJson = JSON.stringify(parsedJson, null, 2);
+      await fs.promises.writeFile(jsonPath, inputJson, "utf8");
+
+      console.debug("DUC Viewer: Executing flatc for binary conversion...");
+      try {
+        await this.runFlatc(
+          [
+            "--binary",
+            "--allow-non-utf8",
+            "--no-warnings",
+            "-o",
+            tempDir,
+            ...schemaArgs,
+            jsonPath,
+          ],
+          options.progress ?? { report: () => undefined },
+          token,
+          options.uri
+        );
+      } catch (error) {
+        if (error instanceof FlatcError) {
+          error.input = inputJson;
+        }
+        throw error;
+      }
+
+      // flatc names the output after the schema's file_extension, "bin" by default
+      const outputName = (await fs.promises.readdir(tempDir)).find(
+        (name) => name.startsWith("data.") && name !== "data.json"
+      );
+      if (!outputName) {
+        throw new Error("flatc did not produce a binary output file.");
+      }
+      return await fs.promises.readFile(path.join(tempDir, outputName));
+    } finally {
+      await fs.promises
+        .rm(tempDir, { recursive: true, force: true })
+        .catch((e: unknown) =>
+          console.warn(
+            "DUC Viewer: Failed to delete temp save directory",
+            (e as Error).message
+          )
+        );
+    }
+  }
+
+  /**
+   * Convert DUC binary file to JSON using flatbuffers
+   */
+  public async convertDucToJson(
+    fileData: Uint8Array,
+    options: ConversionOptions = {}
+  ): Promise<ConversionResult> {
+    const progress = options.progress ?? { report: () => undefined };
+    const token = options.token ?? new vscode.CancellationTokenSource().token;
+    console.debug("DUC Viewer: Starting conversion to JSON");
+    throwIfCancelled(token);
+
+    progress.report({ message: "Preparing DUC schema..." });
+    const schema =
+      options.schema ?? (await this.selectSchema(fileData, options.uri));
+    const schemaContent = schema.content;
+
+    const decoder = vscode.workspace
+      .getConfiguration("ducPreview", options.uri)
+      .get<string>("decoder", "auto");
+
+    // Reuse an earlier conversion of the same bytes with the same schema and decoder
+    const cache = ConversionCache.getInstance(this._context);
+    const cacheKey = ConversionCache.computeKey(
+      fileData,
+      schemaContent,
+      schema.includes,
+      decoder
+    );
+    const cachedJson = await cache.get(cacheKey).catch((error) => {
+      console.warn("DUC Viewer: Failed to read conversion cache", error);
+      return undefined;
+    });
+    if (cachedJson !== undefined) {
+      console.debug("DUC Viewer: Using cached conversion");
+      return {
+        json: cachedJson,
+        schemaContent,
+        schemaPath: schema.path,
+        schemaIncludes: schema.includes,
+        schemaLabel: schema.label,
+      };
+    }
+
+    let jsonContent: string | undefined;
+    if (decoder !== "flatc") {
+      try {
+        jsonContent = await this.runConversionWorker(
+          { fileData, schemaContent, schemaIncludes: schema.includes },
+          progress,
+          token
+        );
+      } catch (error) {
+        if (error instanceof ConversionCancelledError) {
+          throw error;
+        }
+        const message = (error as Error).message;
+        if (decoder === "builtin") {
+          throw new Error(`Built-in FlatBuffers decoder failed: ${message}`);
+        }
+        console.warn(
+          `DUC Viewer: Built-in decoder failed, falling back to flatc: ${message}`
+        );
+      }
+    }
+
+    if (jsonContent === undefined) {
+      jsonContent = await this.convertWithFlatc(
+        fileData,
+        schema,
+        progress,
+        token,
+        options.uri
+      );
+    }
+
+    throwIfCancelled(token);
+    await cache.set(cacheKey, jsonContent).catch((error) => {
+      console.warn("DUC Viewer: Failed to write conversion cache", error);
+    });
+    return {
+      json: jsonContent,
+      schemaContent,
+      schemaPath: schema.path,
+      schemaIncludes: schema.includes,
+      schemaLabel: schema.label,
+    };
+  }
+
+  /**
+   * Convert DUC binary file to JSON by running flatc
+   */
+  private async convertWithFlatc(
+    fileData: Uint8Array,
+    schema: FlatcSchema,
+    progress: ConversionProgress,
+    token: vscode.CancellationToken,
+    uri: vscode.Uri | undefined
+  ): Promise<string> {
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "duc_convert_")
+    );
+    const tempPath = path.join(tempDir, "data.duc");
+    const jsonFilePath = path.join(tempDir, "data.json");
+
+    try {
+      const schemaArgs = await getFlatcSchemaArgs(schema, tempDir, uri);
+      console.debug("DUC Viewer: Schema prepared.");
+
+      progress.report({ message: "Preparing binary data..." });
+      await fs.promises.writeFile(tempPath, fileData);
+      console.debug("DUC Viewer: Binary data prepared.");
+
+      progress.report({ message: "Executing flatc for JSON conversion..." });
+      console.debug("DUC Viewer: Executing flatc...");
+      // Execute flatc to convert binary to JSON
+      await this.runFlatc(
+        [
+          "--json",
+          "--strict-json",
+          "--allow-non-utf8",
+          "--raw-binary",
+          "--no-warnings",
+          // '--defaults-json',
+          "-o",
+          tempDir,
+          ...schemaArgs,
+          "--",
+          tempPath,
+        ],
+        progress,
+        token,
+        uri
+      );
+      console.debug("DUC Viewer: flatc execution complete.");
+
+      // Parsed and post-processed off the extension host thread
+      return await this.runConversionWorker(
+        {
+          fileData: new Uint8Array(),
+          schemaContent: schema.content,
+          schemaIncludes: schema.includes,
+          flatcOutputPath: jsonFilePath,
+        },
+        progress,
+        token
+      );
+    } finally {
+      // Clean up whether the conversion succeeded, failed or was cancelled
+      await fs.promises
+        .rm(tempDir, { recursive: true, force: true })
+        .catch((e: unknown) =>
+          console.warn(
+            "DUC Viewer: Failed to delete temp conversion directory",
+            (e as Error).message
+          )
+        );
+      console.debug("DUC Viewer: Temporary files cleaned up.");
+    }
+  }
+
+  /**
+   * Produce the formatted JSON of a buffer in a worker thread, so that large
+   * files don't block the extension host. Cancelling the token stops the worker.
+   */
+  private async runConversionWorker(
+    request: ConversionRequest,
+    progress: ConversionProgress,
+    token: vscode.CancellationToken
+  ): Promise<string> {
+    const result = await this.runWorker(request, progress, token);
+    if (result.type !== "result") {
+      throw new Error("The conversion worker did not produce JSON.");
+    }
+    return result.json;
+  }
+
+  /**
+   * Map which bytes of a buffer belong to which JSON node, in a worker thread
+   * as large files take long to map
+   */
+  public async mapBufferLayout(
+    fileData: Uint8Array,
+    schemaContent: string,
+    schemaIncludes: IncludedSchema[]
+  ): Promise<EncodedBufferLayout> {
+    const result = await this.runWorker(
+      { fileData, schemaContent, schemaIncludes, mapLayout: true },
+      { report: () => undefined },
+      new vscode.CancellationTokenSource().token
+    );
+    if (result.type !== "layout") {
+      throw new Error("The conversion worker did not produce a layout.");
+    }
+    return result.layout;
+  }
+
+  private runWorker(
+    request: ConversionRequest,
+    progress: ConversionProgress,
+    token: vscode.CancellationToken
+  ): Promise<Extract<ConversionWorkerMessage, { type: "result" | "layout" }>> {
+    throwIfCancelled(token);
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(path.join(__dirname, "conversionWorker.js"), {
+        workerData: request,
+      });
+      let settled = false;
+      const settle = (complete: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        cancelListener.dispose();
+        void worker.terminate();
+        complete();
+      };
+      const cancelListener = token.onCancellationRequested(() =>
+        settle(() =>
+          reject(new ConversionCancelledError("The conversion was cancelled."))
+        )
+      );
+
+      worker.on("message", (message: ConversionWorkerMessage) => {
+        switch (message.type) {
+          case "progress":
+            progress.report({ message: message.message });
+            break;
+          case "result":
+          case "layout":
+            settle(() => resolve(message));
+            break;
+          case "error":
+            settle(() => reject(new Error(message.message)));
+            break;
+        }
+      });
+      worker.on("error", (error) => settle(() => reject(error)));
+      worker.on("exit", (code) =>
+        settle(() =>
+          reject(new Error(`The conversion worker exited with code ${code}.`))
+        )
+      );
+    });
+  }
+
+  /**
+   * Run flatc, stopping it when the token is cancelled or the configured timeout elapses
+   */
+  private async runFlatc(
+    args: string[],
+    progress: ConversionProgress,
+    token: vscode.CancellationToken,
+    uri: vscode.Uri | undefined
+  ): Promise<void> {
+    throwIfCancelled(token);
+    progress.report({ message: "Locating flatc compiler..." });
+    const flatcPath = await this._flatcManager.getFlatcPath(); // This might trigger FlatcManager's own progress
+    console.debug(`DUC Viewer: flatc path: ${flatcPath}`);
+    throwIfCancelled(token);
+
+    const timeoutSeconds = getConversionTimeout(uri);
+    const abortController = new AbortController();
+    const cancelListener = token.onCancellationRequested(() =>
+      abortController.abort()
+    );
+    try {
+      await execFile(flatcPath, args, {
+        signal: abortController.signal,
+        timeout: timeoutSeconds * 1000,
+      });
+    } catch (execError: unknown) {
+      if (abortController.signal.aborted) {
+        throw new ConversionCancelledError("The conversion was cancelled.");
+      }
+      if ((execError as { killed?: boolean }).killed) {
+        throw new ConversionCancelledError(
+          `flatc did not finish within ${timeoutSeconds} seconds and was stopped. ` +
+            `The limit can be changed with the ducPreview.conversionTimeout setting.`
+        );
+      }
+      const stderr = (execError as { stderr?: Buffer | string }).stderr;
+      throw new FlatcError(
+        this.describeFlatcError(execError),
+        stderr ? String(stderr) : ""
+      );
+    } finally {
+      cancelListener.dispose();
+    }
+  }
+
+  /**
+   * Build a detailed error message from a failed flatc execution
+   */
+  private describeFlatcError(execError: unknown): string {
+    // Cast to the expected error structure from child_process.execFile
+    const error = execError as Error & {
+      stderr?: Buffer | string;
+      stdout?: Buffer | string;
+      code?: number;
+      signal?: string;
+    };
+
+    // Default base message from the execFile error, typically includes the command
+    let detailedMessage =
+      error && typeof error.message === "string"
+        ? error.message
+        : "Failed to execute flatc command.";
+
+    // Log the raw error object for extension developer's debugging console
+    console.error(
+      "DUC Viewer: Raw error object from flatc execution:",
+      execError
+    );
+    if (execError && typeof execError === "object") {
+      console.error(
+        "DUC Viewer: Keys of raw error object:",
+        Object.keys(execError)
+      );
+    }
+
+    // Append Stderr information
+    if (error && typeof error.stderr !== "undefined") {
+      const stderrStr = Buffer.isBuffer(error.stderr)
+        ? error.stderr.toString().trim()
+        : String(error.stderr).trim();
+      detailedMessage += `\n\nStderr from flatc:\n${
+        stderrStr.length > 0 ? stderrStr : "(empty)"
+      }`;
+    } else {
+      detailedMessage +=
+        "\n\nStderr from flatc: (not available on error object)";
+    }
+
+    // Append Stdout information
+    if (error && typeof error.stdout !== "undefined") {
+      const stdoutStr = Buffer.isBuffer(error.stdout)
+        ? error.stdout.toString().trim()
+        : String(error.stdout).trim();
+      detailedMessage += `\n\nStdout from flatc:\n${
+        stdoutStr.length > 0 ? stdoutStr : "(empty)"
+      }`;
+    } else {
+      detailedMessage +=
+        "\n\nStdout from flatc: (not available on error object)";
+    }
+
+    // Append exit code if available
+    if (error && typeof error.code === "number") {
+      detailedMessage += `\n\nExit code: ${error.code}`;
+    } else if (error && typeof error.code !== "undefined") {
+      detailedMessage += `\n\nExit code: ${
+        error.code
+      } (type: ${typeof error.code})`;
+    }
+
+    // Append signal if available
+    if (error && typeof error.signal === "string") {
+      detailedMessage += `\n\nSignal: ${error.signal}`;
+    } else if (error && typeof error.signal !== "undefined") {
+      detailedMessage += `\n\nSignal: ${
+        error.signal
+      } (type: ${typeof error.signal})`;
+    }
+
+    return detailedMessage;
+  }
+}
@@ -0,0 +1,250 @@
+import { describeItem, isIdentifiedList } from './ducItems';
+
+/**
+ * A changed value. `before` is undefined for added values and `after` for removed ones.
+ */
+export interface FieldChange {
+    path: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface ItemSummary {
+    id: string;
+    type?: string;
+    /** Position among the items sharing a duplicated id, from 1 */
+    occurrence?: number;
+}
+
+export interface ItemChange extends ItemSummary {
+    changes: FieldChange[];
+}
+
+/**
+ * Changes to a top-level list whose items are matched by id
+ */
+export interface SectionDiff {
+    name: string;
+    added: ItemSummary[];
+    removed: ItemSummary[];
+    modified: ItemChange[];
+    /** Items present on both sides appear in a different order */
+    reordered: boolean;
+    /** Ids used by several items of a side, whose items are matched by position */
+    duplicateIds: string[];
+}
+
+export interface DucDiff {
+    sections: SectionDiff[];
+    /** Changes outside of the id matched sections */
+    fieldChanges: FieldChange[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Items of a list by id, keeping every item of a duplicated id in list order
+ */
+function groupById(items: JsonObject[]): Map<string, JsonObject[]> {
+    const byId = new Map<string, JsonObject[]>();
+    for (const item of items) {
+        const id = describeItem(item).id!;
+        const group = byId.get(id);
+        if (group) {
+            group.push(item);
+        } else {
+            byId.set(id, [item]);
+        }
+    }
+    return byId;
+}
+
+/**
+ * Items of both sides sharing an id. `before` or `after` is undefined for
+ * items found on one side only.
+ */
+interface ItemPair {
+    id: string;
+    /** Position among the items sharing the id, from 0 */
+    index: number;
+    before?: JsonObject;
+    after?: JsonObject;
+}
+
+/**
+ * Match the items of two lists by id, the nth item of a duplicated id on one
+ * side with the nth one on the other
+ */
+function matchById(before: JsonObject[], after: JsonObject[]): ItemPair[] {
+    const beforeById = groupById(before);
+    const afterById = groupById(after);
+    const pairs: ItemPair[] = [];
+    for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+        const beforeGroup = beforeById.get(id) ?? [];
+        const afterGroup = afterById.get(id) ?? [];
+        for (let index = 0; index < Math.max(beforeGroup.length, afterGroup.length); index++) {
+            pairs.push({ id, index, before: beforeGroup[index], after: afterGroup[index] });
+        }
+    }
+    return pairs;
+}
+
+function itemPath(path: string, id: string, index: number): string {
+    return index > 0 ? `${path}[id=${id}#${index + 1}]` : `${path}[id=${id}]`;
+}
+
+/**
+ * Key of every item in list order, telling apart the items of a duplicated id
+ */
+function occurrenceKeys(items: JsonObject[]): string[] {
+    const seen = new Map<string, number>();
+    return items.map(item => {
+        const id = describeItem(item).id!;
+        const index = seen.get(id) ?? 0;
+        seen.set(id, index + 1);
+        return itemPath('', id, index);
+    });
+}
+
+/**
+ * Whether a value can be compared as a list of items matched by id.
+ * Empty or missing lists qualify when the other side is an identified list.
+ */
+function isMatchableList(value: unknown, other: unknown): boolean {
+    if (isIdentifiedList(value)) {
+        return true;
+    }
+    const isEmpty = value === undefined || (Array.isArray(value) && value.length === 0);
+    return isEmpty && isIdentifiedList(other);
+}
+
+/**
+ * Recursively collect the differences between two values
+ */
+function compareValues(path: string, before: unknown, after: unknown, out: FieldChange[]): void {
+    if (isEqual(before, after)) {
+        return;
+    }
+
+    if (isObject(before) && isObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            compareValues(joinPath(path, key), before[key], after[key], out);
+        }
+        return;
+    }
+
+    if (isIdentifiedList(before) && isIdentifiedList(after)) {
+        for (const pair of matchById(before, after)) {
+            compareValues(itemPath(path, pair.id, pair.index), pair.before, pair.after, out);
+        }
+        return;
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const length = Math.max(before.length, after.length);
+        for (let i = 0; i < length; i++) {
+            compareValues(`${path}[${i}]`, before[i], after[i], out);
+        }
+        return;
+    }
+
+    out.push({ path, before, after });
+}
+
+function compareSection(name: string, before: unknown, after: unknown): SectionDiff {
+    const beforeItems = Array.isArray(before) ? before as JsonObject[] : [];
+    const afterItems = Array.isArray(after) ? after as JsonObject[] : [];
+    const section: SectionDiff = { name, added: [], removed: [], modified: [], reordered: false, duplicateIds: [] };
+    const matched = new Set<string>();
+    const pairs = matchById(beforeItems, afterItems);
+    const duplicateIds = new Set(pairs.filter(pair => pair.index > 0).map(pair => pair.id));
+
+    for (const pair of pairs) {
+        const summary = (item: JsonObject): ItemSummary => duplicateIds.has(pair.id)
+            ? { id: pair.id, type: describeItem(item).type, occurrence: pair.index + 1 }
+            : { id: pair.id, type: describeItem(item).type };
+        if (!pair.after) {
+            section.removed.push(summary(pair.before!));
+            continue;
+        }
+        if (!pair.before) {
+            section.added.push(summary(pair.after));
+            continue;
+        }
+        matched.add(itemPath('', pair.id, pair.index));
+        const changes: FieldChange[] = [];
+        compareValues('', pair.before, pair.after, changes);
+        if (changes.length > 0) {
+            section.modified.push({ ...summary(pair.after), changes });
+        }
+    }
+
+    const beforeOrder = occurrenceKeys(beforeItems).filter(key => matched.has(key));
+    const afterOrder = occurrenceKeys(afterItems).filter(key => matched.has(key));
+    section.reordered = beforeOrder.some((key, i) => afterOrder[i] !== key);
+    section.duplicateIds = [...duplicateIds];
+    return section;
+}
+
+/**
+ * Compare two decoded DUC documents, matching the items of top-level lists by id
+ */
+export function computeDucDiff(before: unknown, after: unknown): DucDiff {
+    const diff: DucDiff = { sections: [], fieldChanges: [] };
+    const beforeRoot = isObject(before) ? before : {};
+    const afterRoot = isObject(after) ? after : {};
+    const keys = new Set([...Object.keys(beforeRoot), ...Object.keys(afterRoot)]);
+
+    for (const key of keys) {
+        const beforeValue = beforeRoot[key];
+        const afterValue = afterRoot[key];
+        if (isMatchableList(beforeValue, afterValue) && isMatchableList(afterValue, beforeValue)) {
+            const section = compareSection(key, beforeValue, afterValue);
+            if (section.added.length || section.removed.length || section.modified.length || section.reordered) {
+                diff.sections.push(section);
+            }
+        } else {
+            compareValues(key, beforeValue, afterValue, diff.fieldChanges);
+        }
+    }
+    return diff;
+}
+
+/**
+ * Copy of a document with id matched lists sorted by id, so a line based diff
+ * lines up the same items on both sides
+ */
+export function normalizeForDiff(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        const items = value.map(normalizeForDiff);
+        if (isIdentifiedList(value)) {
+            const ids = value.map(item => describeItem(item).id!);
+            return items
+                .map((item, i) => ({ item, id: ids[i] }))
+                .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+                .map(entry => entry.item);
+        }
+        return items;
+    }
+    if (isObject(value)) {
+        const result: JsonObject = {};
+        for (const [key, child] of Object.entries(value)) {
+            result[key] = normalizeForDiff(child);
+        }
+        return result;
+    }
+    return value;
+}
@@ -0,0 +1,77 @@
+/**
+ * Helpers to identify the items (elements, layers, blocks, ...) of a decoded DUC document
+ */
+
+import { JsonPath, getValueAtPath } from './jsonPath';
+
+/**
+ * Section of a decoded document listing its elements
+ */
+const ELEMENTS_SECTION = 'elements';
+
+/**
+ * Find the type label and id of an item, looking through wrappers such as
+ * `{ element_type, element: { base: { id } } }`
+ */
+export function describeItem(value: Record<string, unknown>): { type?: string; id?: string } {
+    let type: string | undefined;
+    let id: string | undefined;
+    let level: Record<string, unknown>[] = [value];
+
+    for (let depth = 0; depth < 4 && level.length > 0 && (!type || !id); depth++) {
+        const nextLevel: Record<string, unknown>[] = [];
+        for (const obj of level) {
+            for (const [key, child] of Object.entries(obj)) {
+                if (!type && typeof child === 'string' && (key.endsWith('_type') || key === 'type')) {
+                    type = child;
+                } else if (!id && key === 'id' && (typeof child === 'string' || typeof child === 'number')) {
+                    id = String(child);
+                } else if (child !== null && typeof child === 'object' && !Array.isArray(child)) {
+                    nextLevel.push(child as Record<string, unknown>);
+                }
+            }
+        }
+        level = nextLevel;
+    }
+    return { type, id };
+}
+
+/**
+ * Whether every item of an array can be identified by an id, so items can be
+ * matched by id rather than by position
+ */
+export function isIdentifiedList(value: unknown): value is Record<string, unknown>[] {
+    return Array.isArray(value) && value.length > 0 && value.every(item =>
+        item !== null && typeof item === 'object' && !Array.isArray(item)
+        && describeItem(item as Record<string, unknown>).id !== undefined
+    );
+}
+
+/**
+ * Id of the element a path of a decoded document points into, e.g. the id of
+ * `elements[3]` for `elements[3].element.base.x`
+ */
+export function findElementIdAtPath(root: unknown, path: JsonPath): string | undefined {
+    if (path[0] !== ELEMENTS_SECTION || typeof path[1] !== 'number') {
+        return undefined;
+    }
+    const element = getValueAtPath(root, path.slice(0, 2));
+    return element !== null && typeof element === 'object' && !Array.isArray(element)
+        ? describeItem(element as Record<string, unknown>).id
+        : undefined;
+}
+
+/**
+ * Path of the element with the given id in a decoded document
+ */
+export function findElementPath(root: unknown, id: string): JsonPath | undefined {
+    const elements = getValueAtPath(root, [ELEMENTS_SECTION]);
+    if (!Array.isArray(elements)) {
+        return undefined;
+    }
+    const index = elements.findIndex(element =>
+        element !== null && typeof element === 'object' && !Array.isArray(element)
+        && describeItem(element as Record<string, unknown>).id === id
+    );
+    return index >= 0 ? [ELEMENTS_SECTION, index] : undefined;
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DucConverter } from './ducConverter';
+
+/**
+ * Serves the decoded JSON of any .duc revision under the `duc-json` scheme.
+ *
+ * The source document, e.g. a `file:` or `git:` URI, is stored in the query so
+ * every revision the git extension can read can be decoded and diffed.
+ */
+export class DucJsonContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'duc-json';
+    private static instance: DucJsonContentProvider;
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly _context: vscode.ExtensionContext) {
+        // Decoded working tree files follow changes on disk
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.duc');
+        this._disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(DucJsonContentProvider.scheme, this),
+            watcher,
+            watcher.onDidChange(uri => this.fireChanged(uri)),
+            watcher.onDidCreate(uri => this.fireChanged(uri)),
+            this._onDidChange
+        );
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): DucJsonContentProvider {
+        if (!DucJsonContentProvider.instance) {
+            DucJsonContentProvider.instance = new DucJsonContentProvider(context);
+            context.subscriptions.push(DucJsonContentProvider.instance);
+        }
+        return DucJsonContentProvider.instance;
+    }
+
+    /**
+     * URI of the decoded JSON of a .duc document
+     */
+    public static toJsonUri(source: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: DucJsonContentProvider.scheme,
+            path: `${source.path}.json`,
+            query: source.toString()
+        });
+    }
+
+    /**
+     * Source .duc document of a `duc-json` URI
+     */
+    public static toSourceUri(uri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.parse(uri.query);
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+        const source = DucJsonContentProvider.toSourceUri(uri);
+        const fileData = await vscode.workspace.fs.readFile(source);
+        // The git extension returns no content for revisions where the file doesn't exist
+        if (fileData.length === 0) {
+            return '';
+        }
+
+        // Resource scoped settings such as the schema apply to the file itself, not the revision
+        const settingsUri = source.scheme === 'git' ? source.with({ scheme: 'file', query: '' }) : source;
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Decoding ${path.basename(source.path)}`
+        }, progress => DucConverter.getInstance(this._context).convertDucToJson(fileData, {
+            uri: settingsUri,
+            progress,
+            token
+        }));
+        return result.json;
+    }
+
+    /**
+     * Show the changes of .duc files listed in the Source Control view as a JSON diff
+     */
+    public async openScmChanges(resourceStates: vscode.SourceControlResourceState[], staged: boolean): Promise<void> {
+        for (const state of resourceStates) {
+            const uri = state.resourceUri;
+            const fileName = path.basename(uri.fsPath);
+            // Same revisions the git extension compares for the Changes and Staged Changes groups
+            const left = staged ? toGitUri(uri, 'HEAD') : toGitUri(uri, '~');
+            const right = staged ? toGitUri(uri, '') : uri;
+            const title = staged ? `${fileName} (Index) as JSON` : `${fileName} (Working Tree) as JSON`;
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                DucJsonContentProvider.toJsonUri(left),
+                DucJsonContentProvider.toJsonUri(right),
+                title
+            );
+        }
+    }
+
+    private fireChanged(source: vscode.Uri): void {
+        const jsonUri = DucJsonContentProvider.toJsonUri(source).toString();
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.toString() === jsonUri) {
+                this._onDidChange.fire(document.uri);
+            }
+        }
+    }
+
+    public dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Build a URI the git extension resolves to a revision of a file.
+ *
+ * `ref` is a commit-ish, `''` for the index or `'~'` for the index as shown
+ * on the left of working tree changes.
+ */
+function toGitUri(uri: vscode.Uri, ref: string): vscode.Uri {
+    return uri.with({
+        scheme: 'git',
+        path: uri.path,
+        query: JSON.stringify({ path: uri.fsPath, ref })
+    });
+}
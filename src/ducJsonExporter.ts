@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionCancelledError, ConversionResult, DucConverter, JsonFormatOptions } from './ducConverter';
+
+const LAST_OPTIONS_KEY = 'ducPreview.exportJsonOptions';
+
+interface FormatPick extends vscode.QuickPickItem {
+    minify: boolean;
+}
+
+interface EncodingPick extends vscode.QuickPickItem {
+    binaryEncoding: 'base64' | 'bytes';
+}
+
+/**
+ * Exports decoded .duc files as JSON files.
+ *
+ * The JSON is written straight to disk so large files never pass through the viewer.
+ */
+export class DucJsonExporter {
+    private static instance: DucJsonExporter;
+
+    private constructor(private readonly _context: vscode.ExtensionContext) { }
+
+    public static getInstance(context: vscode.ExtensionContext): DucJsonExporter {
+        if (!DucJsonExporter.instance) {
+            DucJsonExporter.instance = new DucJsonExporter(context);
+        }
+        return DucJsonExporter.instance;
+    }
+
+    /**
+     * Ask for the export options and output path, then write the JSON.
+     *
+     * Pass `unsaved` to export the edited JSON of an open document instead of the file on disk.
+     */
+    public async exportFile(uri: vscode.Uri, unsaved?: Pick<ConversionResult, 'json' | 'schemaContent' | 'schemaIncludes'>): Promise<void> {
+        const options = await this.pickOptions();
+        if (!options) {
+            return;
+        }
+
+        const defaultUri = uri.with({ path: uri.path.replace(/\.duc$/i, '') + '.json' });
+        const target = await vscode.window.showSaveDialog({
+            defaultUri,
+            filters: { 'JSON Files': ['json'] },
+            saveLabel: 'Export',
+            title: 'Export DUC as JSON'
+        });
+        if (!target) {
+            return;
+        }
+
+        const converter = DucConverter.getInstance(this._context);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Exporting ${path.basename(uri.fsPath)} as JSON`,
+                cancellable: true
+            }, async (progress, token) => {
+                const result = unsaved ?? await converter.convertFile(uri, { progress, token });
+                progress.report({ message: 'Writing JSON...' });
+                const json = converter.formatJson(result, options);
+                await vscode.workspace.fs.writeFile(target, Buffer.from(json, 'utf8'));
+            });
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                console.log(`DUC Export: ${error.message}`);
+                return;
+            }
+            vscode.window.showErrorMessage(`Failed to export DUC file as JSON: ${(error as Error).message}`);
+            return;
+        }
+
+        const action = await vscode.window.showInformationMessage(
+            `Exported ${path.basename(target.fsPath)}`,
+            'Open'
+        );
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+
+    /**
+     * Ask how to write the JSON, offering the last used options first
+     */
+    private async pickOptions(): Promise<JsonFormatOptions | undefined> {
+        const last = this._context.globalState.get<JsonFormatOptions>(LAST_OPTIONS_KEY, {});
+
+        const formats: FormatPick[] = [
+            { label: 'Pretty', description: 'Indented with two spaces', minify: false },
+            { label: 'Minified', description: 'Single line, smallest file', minify: true }
+        ];
+        const format = await vscode.window.showQuickPick(
+            last.minify ? formats.reverse() : formats,
+            { title: 'Export as JSON: Formatting', placeHolder: 'How should the JSON be formatted?' }
+        );
+        if (!format) {
+            return undefined;
+        }
+
+        const encodings: EncodingPick[] = [
+            { label: 'Base64 strings', description: 'Binary fields as Base64, like the Duc Viewer', binaryEncoding: 'base64' },
+            { label: 'Byte arrays', description: 'Binary fields as arrays of numbers, like flatc', binaryEncoding: 'bytes' }
+        ];
+        const encoding = await vscode.window.showQuickPick(
+            last.binaryEncoding === 'bytes' ? encodings.reverse() : encodings,
+            { title: 'Export as JSON: Binary Fields', placeHolder: 'How should binary fields be written?' }
+        );
+        if (!encoding) {
+            return undefined;
+        }
+
+        const options: JsonFormatOptions = { minify: format.minify, binaryEncoding: encoding.binaryEncoding };
+        await this._context.globalState.update(LAST_OPTIONS_KEY, options);
+        return options;
+    }
+}
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionCancelledError, DucConverter, FlatcError } from './ducConverter';
+import { JsonNode, JsonPath, findNodeAtPath, formatJsonPath, getPathAtOffset, parseJsonTree } from './jsonPath';
+
+/**
+ * Error location as printed by flatc, `file.json:12: 5: error: msg` or `file.json(12, 5): error: msg` on Windows
+ */
+const FLATC_ERROR_PATTERN = /\.json(?::(\d+):\s*(\d+)|\((\d+),\s*(\d+)\)):\s*error:\s*(.+)/;
+
+interface FlatcDiagnostic {
+    line?: number;
+    column?: number;
+    message: string;
+}
+
+/**
+ * Compiles JSON documents into .duc binaries with flatc.
+ *
+ * Errors reported by flatc are shown as diagnostics on the JSON file.
+ */
+export class DucJsonImporter implements vscode.Disposable {
+    private static instance: DucJsonImporter;
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('duc');
+
+    private constructor(private readonly _context: vscode.ExtensionContext) { }
+
+    public static getInstance(context: vscode.ExtensionContext): DucJsonImporter {
+        if (!DucJsonImporter.instance) {
+            DucJsonImporter.instance = new DucJsonImporter(context);
+            context.subscriptions.push(DucJsonImporter.instance);
+        }
+        return DucJsonImporter.instance;
+    }
+
+    /**
+     * Compile a JSON file and write the .duc binary next to it
+     */
+    public async createDuc(uri: vscode.Uri): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const target = uri.with({ path: uri.path.replace(/\.json$/i, '') + '.duc' });
+        const targetName = path.basename(target.fsPath);
+
+        if (await exists(target)) {
+            const overwrite = await vscode.window.showWarningMessage(
+                `${targetName} already exists. Do you want to replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (overwrite !== 'Replace') {
+                return;
+            }
+        }
+
+        this._diagnostics.delete(uri);
+        const converter = DucConverter.getInstance(this._context);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Creating ${targetName}`,
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: 'Preparing DUC schema...' });
+                // Pick the schema registered for the version the JSON declares
+                const schema = await converter.getSchema(uri, readVersion(document.getText()));
+                const binary = await converter.convertJsonToDuc(document.getText(), schema, { uri, progress, token });
+                await vscode.workspace.fs.writeFile(target, binary);
+            });
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                console.log(`DUC Import: ${error.message}`);
+                return;
+            }
+            if (error instanceof FlatcError && this.reportFlatcErrors(document, error)) {
+                vscode.window.showErrorMessage(
+                    `flatc could not compile ${path.basename(uri.fsPath)} with the active schema, see the Problems panel.`
+                );
+                return;
+            }
+            vscode.window.showErrorMessage(`Failed to create DUC file: ${(error as Error).message}`);
+            return;
+        }
+
+        const action = await vscode.window.showInformationMessage(`Created ${targetName}`, 'Open');
+        if (action === 'Open') {
+            await vscode.commands.executeCommand('vscode.openWith', target, 'ducPreview.ducViewer');
+        }
+    }
+
+    /**
+     * Show the errors printed by flatc as diagnostics on the JSON document.
+     *
+     * flatc reports positions in the JSON it was given, which differs from the
+     * source after binary fields are restored, so errors are mapped back by JSON path.
+     * Returns false when no error could be read from the output.
+     */
+    private reportFlatcErrors(document: vscode.TextDocument, error: FlatcError): boolean {
+        const errors = parseFlatcErrors(error.stderr);
+        if (errors.length === 0) {
+            return false;
+        }
+
+        const input = error.input;
+        const inputTree = input ? parseJsonTree(input) : undefined;
+        const sourceTree = parseJsonTree(document.getText());
+        const lineOffsets = input ? computeLineOffsets(input) : [];
+
+        const diagnostics = errors.map(({ line, column, message }) => {
+            let range = new vscode.Range(0, 0, 0, 0);
+            let jsonPath: JsonPath | undefined;
+            if (inputTree && sourceTree && line !== undefined && line <= lineOffsets.length) {
+                const offset = lineOffsets[line - 1] + Math.max(0, (column ?? 1) - 1);
+                jsonPath = getPathAtOffset(inputTree, offset);
+                range = findRange(document, sourceTree, jsonPath);
+            }
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                jsonPath && jsonPath.length > 0 ? `${message} (at ${formatJsonPath(jsonPath)})` : message,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'flatc';
+            return diagnostic;
+        });
+        this._diagnostics.set(document.uri, diagnostics);
+        return true;
+    }
+
+    public dispose(): void {
+        this._diagnostics.dispose();
+    }
+}
+
+/**
+ * The format version declared at the root of a JSON document
+ */
+function readVersion(text: string): string | undefined {
+    try {
+        const version = (JSON.parse(text) as Record<string, unknown> | null)?.version;
+        return typeof version === 'string' || typeof version === 'number' ? String(version) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Read the error messages from flatc's output
+ */
+function parseFlatcErrors(stderr: string): FlatcDiagnostic[] {
+    const errors: FlatcDiagnostic[] = [];
+    for (const rawLine of stderr.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const match = FLATC_ERROR_PATTERN.exec(line);
+        if (match) {
+            errors.push({
+                line: Number(match[1] ?? match[3]),
+                column: Number(match[2] ?? match[4]),
+                message: match[5]
+            });
+        } else if (/^error:\s*\S/.test(line)) {
+            errors.push({ message: line.replace(/^error:\s*/, '') });
+        }
+    }
+    return errors;
+}
+
+function computeLineOffsets(text: string): number[] {
+    const offsets = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            offsets.push(i + 1);
+        }
+    }
+    return offsets;
+}
+
+/**
+ * Range of the deepest existing node on a path, from its property name to the
+ * end of a scalar value or the opening bracket of a container
+ */
+function findRange(document: vscode.TextDocument, root: JsonNode, jsonPath: JsonPath): vscode.Range {
+    const existing = [...jsonPath];
+    let node = findNodeAtPath(root, existing);
+    while (!node && existing.length > 0) {
+        existing.pop();
+        node = findNodeAtPath(root, existing);
+    }
+    if (!node) {
+        return new vscode.Range(0, 0, 0, 0);
+    }
+
+    const parent = existing.length > 0 ? findNodeAtPath(root, existing.slice(0, -1)) : undefined;
+    const entry = parent?.children?.find(child => child.key === existing[existing.length - 1]);
+    const start = parent?.type === 'object' && entry ? entry.keyOffset : node.offset;
+    const end = node.children ? node.offset + 1 : node.offset + node.length;
+    return new vscode.Range(document.positionAt(start), document.positionAt(end));
+}
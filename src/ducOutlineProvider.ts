@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { Disposable } from './dispose';
+import { DucDocument, DucViewerProvider } from './ducViewerEditor';
+import { JsonPath, formatJsonPath, getValueAtPath } from './jsonPath';
+import { describeItem } from './ducItems';
+
+/**
+ * Delay before the outline is rebuilt after the document is edited
+ */
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * A node of the outline, identified by its path in the decoded document
+ */
+export interface OutlineNode {
+    path: JsonPath;
+}
+
+/**
+ * Tree of the sections and items of the DUC document shown in the last focused Duc Viewer
+ */
+export class DucOutlineProvider extends Disposable implements vscode.TreeDataProvider<OutlineNode> {
+    private _document: DucDocument | undefined;
+    private _documentListeners: vscode.Disposable[] = [];
+    private _refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    private readonly _onDidChangeTreeData = this._register(new vscode.EventEmitter<OutlineNode | undefined>());
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(viewerProvider: DucViewerProvider) {
+        super();
+        this._register(viewerProvider.onDidChangeActiveDocument(document => {
+            // Keep showing the last document while focus moves to other views
+            if (document) {
+                this.setDocument(document);
+            }
+        }));
+        this.setDocument(viewerProvider.activeDocument);
+    }
+
+    /**
+     * The document currently shown in the outline
+     */
+    public get document(): DucDocument | undefined {
+        return this._document;
+    }
+
+    public dispose(): void {
+        clearTimeout(this._refreshTimer);
+        this.clearDocumentListeners();
+        super.dispose();
+    }
+
+    private clearDocumentListeners(): void {
+        this._documentListeners.forEach(listener => listener.dispose());
+        this._documentListeners = [];
+    }
+
+    private setDocument(document: DucDocument | undefined): void {
+        if (this._document === document) {
+            return;
+        }
+        this.clearDocumentListeners();
+        this._document = document;
+
+        if (document) {
+            const scheduleRefresh = () => {
+                clearTimeout(this._refreshTimer);
+                this._refreshTimer = setTimeout(() => this._onDidChangeTreeData.fire(undefined), REFRESH_DELAY_MS);
+            };
+            this._documentListeners.push(
+                document.onDidChange(scheduleRefresh),
+                document.onDidChangeContent(scheduleRefresh),
+                document.onDidDispose(() => this.setDocument(undefined))
+            );
+        }
+
+        vscode.commands.executeCommand('setContext', 'ducPreview.outlineHasDocument', document !== undefined);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getChildren(element?: OutlineNode): OutlineNode[] {
+        const root = this._document?.jsonValue;
+        if (root === undefined) {
+            return [];
+        }
+
+        const path = element ? element.path : [];
+        const value = getValueAtPath(root, path);
+        if (Array.isArray(value)) {
+            return value.map((_, index) => ({ path: [...path, index] }));
+        }
+        if (value !== null && typeof value === 'object') {
+            return Object.keys(value).map(key => ({ path: [...path, key] }));
+        }
+        return [];
+    }
+
+    public getTreeItem(element: OutlineNode): vscode.TreeItem {
+        const value = getValueAtPath(this._document?.jsonValue, element.path);
+        const key = element.path[element.path.length - 1];
+        const isContainer = value !== null && typeof value === 'object';
+
+        const item = new vscode.TreeItem(
+            typeof key === 'number' ? `[${key}]` : key,
+            isContainer ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `${this._document?.uri.toString()}#${formatJsonPath(element.path)}`;
+        item.tooltip = formatJsonPath(element.path);
+
+        if (Array.isArray(value)) {
+            item.iconPath = new vscode.ThemeIcon('symbol-array');
+            item.description = `${value.length} item${value.length === 1 ? '' : 's'}`;
+        } else if (isContainer) {
+            const { type, id } = describeItem(value as Record<string, unknown>);
+            item.iconPath = new vscode.ThemeIcon(type ? 'symbol-class' : 'symbol-object');
+            if (typeof key === 'number' && type) {
+                item.label = `[${key}] ${type}`;
+            }
+            item.description = id;
+        } else {
+            item.iconPath = new vscode.ThemeIcon('symbol-field');
+            item.description = typeof value === 'string' && value.length > 80 ? `${JSON.stringify(value.slice(0, 80))}…` : JSON.stringify(value);
+        }
+
+        item.command = {
+            command: 'ducPreview.revealJsonPath',
+            title: 'Reveal in Duc Viewer',
+            arguments: [element.path],
+        };
+        return item;
+    }
+
+    public getParent(element: OutlineNode): OutlineNode | undefined {
+        return element.path.length > 1 ? { path: element.path.slice(0, -1) } : undefined;
+    }
+}
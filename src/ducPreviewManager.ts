@@ -1,14 +1,66 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { DucConverter } from './ducConverter';
+import { DucViewerProvider } from './ducViewerEditor';
+import { buildDucScene } from './ducScene';
+import { findElementIdAtPath, findElementPath } from './ducItems';
+import { disposeAll } from './dispose';
+import {
+	AppErrorMessage, PREVIEW_PROTOCOL_VERSION, PreviewCapability, PreviewHostMessage, SaveRequestMessage,
+	negotiatePreviewProtocol, parsePreviewAppMessage
+} from './previewProtocol';
+import { getNonce } from './util';
 
+/**
+ * Where previews are drawn: by the bundled renderer, or by the online app
+ * which the file is sent to
+ */
+type PreviewRenderer = 'local' | 'remote';
+
+const DEFAULT_PREVIEW_URL = 'https://scopture.com/preview';
+
+/**
+ * Delay after the last change on disk before a preview is updated
+ */
+const FILE_CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * A preview shown by the remote app, and what was agreed on in its handshake
+ */
+interface RemotePreviewSession {
+	panel: vscode.WebviewPanel;
+	uri: vscode.Uri;
+	fileName: string;
+	/** Origin of the app, the only one messages are exchanged with */
+	origin: string;
+	/** Protocol version agreed on, 0 for apps that only send APP_READY */
+	protocolVersion?: number;
+	capabilities: Set<PreviewCapability>;
+	/** Revision of the last file data sent */
+	revision: number;
+	/** Element ids last sent or received, serialized, so selections aren't echoed */
+	selection: string;
+	selectionTracking?: vscode.Disposable;
+	/** Whether the user allowed the app to overwrite the file */
+	saveAllowed: boolean;
+}
+
+/**
+ * Shows .duc files as drawings, by default with the renderer bundled in
+ * `media/ducPreview.js` so files never leave the machine
+ */
 export class DucPreviewManager {
 	private static instance: DucPreviewManager;
 	private readonly _previews = new Set<vscode.WebviewPanel>();
 
-	private constructor(private readonly _context: vscode.ExtensionContext) { }
+	private constructor(
+		private readonly _context: vscode.ExtensionContext,
+		private readonly _viewerProvider: DucViewerProvider
+	) { }
 
-	public static getInstance(context: vscode.ExtensionContext): DucPreviewManager {
+	public static getInstance(context: vscode.ExtensionContext, viewerProvider: DucViewerProvider): DucPreviewManager {
 		if (!DucPreviewManager.instance) {
-			DucPreviewManager.instance = new DucPreviewManager(context);
+			DucPreviewManager.instance = new DucPreviewManager(context, viewerProvider);
 		}
 		return DucPreviewManager.instance;
 	}
@@ -28,31 +80,381 @@ export class DucPreviewManager {
 		);
 
 		this._previews.add(panel);
+		const disposables: vscode.Disposable[] = [];
 
 		// Cleanup when module is disposed
 		panel.onDidDispose(() => {
 			this._previews.delete(panel);
+			disposeAll(disposables);
 		});
 
-		// Set HTML content
-		panel.webview.html = this._getHtmlForWebview();
+		// Only the user may choose to send files off the machine, never a workspace they opened
+		const renderer = vscode.workspace.getConfiguration('ducPreview').inspect<PreviewRenderer>('preview.renderer')?.globalValue ?? 'local';
+		if (renderer === 'remote') {
+			this._openRemotePreview(panel, uri, disposables);
+		} else {
+			this._openLocalPreview(panel, uri, disposables);
+		}
+	}
+
+	private _openLocalPreview(panel: vscode.WebviewPanel, uri: vscode.Uri, disposables: vscode.Disposable[]) {
+		panel.webview.html = this._getLocalHtmlForWebview(panel.webview);
 
-		// Handle messages from the webview
 		panel.webview.onDidReceiveMessage(async (message) => {
-			if (message.type === 'APP_READY') {
-				await this._sendFileData(panel, uri);
+			if (message.type === 'ready') {
+				await this._sendScene(panel, uri);
 			}
-		});
+		}, undefined, disposables);
+		disposables.push(this._watchFile(uri, () => this._sendScene(panel, uri)));
+	}
+
+	private _openRemotePreview(panel: vscode.WebviewPanel, uri: vscode.Uri, disposables: vscode.Disposable[]) {
+		// Like the renderer, the app receiving the file is chosen by the user alone
+		const setting = vscode.workspace.getConfiguration('ducPreview').inspect<string>('preview.url')?.globalValue || DEFAULT_PREVIEW_URL;
+		let previewUrl: URL;
+		try {
+			previewUrl = new URL(setting);
+			if (previewUrl.protocol !== 'https:' && previewUrl.protocol !== 'http:') {
+				throw new Error('Only http and https URLs are supported.');
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Invalid ducPreview.preview.url "${setting}": ${(error as Error).message}`);
+			panel.dispose();
+			return;
+		}
+
+		const session: RemotePreviewSession = {
+			panel,
+			uri,
+			fileName: path.basename(uri.fsPath),
+			origin: previewUrl.origin,
+			capabilities: new Set(),
+			revision: 0,
+			selection: '[]',
+			saveAllowed: false
+		};
+
+		// Set HTML content
+		panel.webview.html = this._getHtmlForWebview(panel.webview, previewUrl);
+
+		// Handle messages from the app, relayed by the webview
+		panel.webview.onDidReceiveMessage(data => this._handleAppMessage(session, data), undefined, disposables);
+
+		disposables.push(
+			this._watchFile(uri, () => {
+				if (session.capabilities.has('fileUpdates')) {
+					this._sendFileData(session);
+				}
+			}),
+			this._viewerProvider.onDidChangeSelection(({ document, path: jsonPath }) => {
+				if (document.uri.toString() === uri.toString() && session.capabilities.has('selection')) {
+					const id = findElementIdAtPath(document.jsonValue, jsonPath);
+					this._postSelection(session, id !== undefined ? [id] : []);
+				}
+			}),
+			{ dispose: () => session.selectionTracking?.dispose() }
+		);
+	}
+
+	/**
+	 * Call `onChange` once a burst of writes to the file is over
+	 */
+	private _watchFile(uri: vscode.Uri, onChange: () => void): vscode.Disposable {
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), path.posix.basename(uri.path)),
+			false,
+			false,
+			true
+		);
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const schedule = () => {
+			clearTimeout(timer);
+			timer = setTimeout(onChange, FILE_CHANGE_DEBOUNCE_MS);
+		};
+		// Tools that write atomically replace the file, which shows up as a create
+		return vscode.Disposable.from(
+			watcher,
+			watcher.onDidCreate(schedule),
+			watcher.onDidChange(schedule),
+			{ dispose: () => clearTimeout(timer) }
+		);
+	}
+
+	private _post(session: RemotePreviewSession, message: PreviewHostMessage) {
+		session.panel.webview.postMessage(message);
+	}
+
+	private async _handleAppMessage(session: RemotePreviewSession, data: unknown) {
+		const message = parsePreviewAppMessage(data);
+		if (!message) {
+			const type = data !== null && typeof data === 'object' ? (data as Record<string, unknown>).type : undefined;
+			this._post(session, { type: 'ERROR', message: `Unsupported or malformed message ${JSON.stringify(type)}.` });
+			return;
+		}
+
+		switch (message.type) {
+			case 'APP_READY':
+				// Apps written before the protocol was versioned get the file once
+				session.protocolVersion = 0;
+				await this._sendFileData(session);
+				break;
+
+			case 'HELLO': {
+				const welcome = negotiatePreviewProtocol(message);
+				if (!welcome) {
+					this._post(session, {
+						type: 'ERROR',
+						message: `Protocol version ${message.protocolVersion} is not supported, use a version from 1 to ${PREVIEW_PROTOCOL_VERSION}.`
+					});
+					return;
+				}
+				session.protocolVersion = welcome.protocolVersion;
+				session.capabilities = new Set(welcome.capabilities);
+				// Apps reloaded in the iframe say hello again
+				session.selectionTracking?.dispose();
+				session.selectionTracking = session.capabilities.has('selection')
+					? this._viewerProvider.trackSelection(session.uri)
+					: undefined;
+				this._post(session, welcome);
+				await this._sendFileData(session);
+				break;
+			}
+
+			case 'SELECT':
+				if (!session.capabilities.has('selection')) {
+					this._post(session, { type: 'ERROR', message: 'SELECT needs the "selection" capability, which was not negotiated.' });
+					return;
+				}
+				this._revealElements(session, message.elementIds);
+				break;
+
+			case 'SAVE_REQUEST':
+				await this._saveFile(session, message);
+				break;
+
+			case 'ERROR':
+				this._showAppError(session, message);
+				break;
+		}
+	}
+
+	/**
+	 * Reveal the first selected element in the Duc Viewer, if the file is open in one
+	 */
+	private _revealElements(session: RemotePreviewSession, elementIds: string[]) {
+		// The cursor of the viewer only reports the revealed element, which mustn't be echoed either
+		session.selection = JSON.stringify(elementIds.slice(0, 1));
+		const document = this._viewerProvider.getDocument(session.uri);
+		if (!document || elementIds.length === 0) {
+			return;
+		}
+		const elementPath = findElementPath(document.jsonValue, elementIds[0]);
+		if (elementPath) {
+			this._viewerProvider.revealJsonPath(document, elementPath);
+		} else {
+			this._post(session, { type: 'ERROR', message: `No element with id ${JSON.stringify(elementIds[0])} in ${session.fileName}.` });
+		}
+	}
+
+	private _postSelection(session: RemotePreviewSession, elementIds: string[]) {
+		const selection = JSON.stringify(elementIds);
+		if (selection !== session.selection) {
+			session.selection = selection;
+			this._post(session, { type: 'SELECTION', elementIds });
+		}
+	}
+
+	/**
+	 * Write bytes sent by the app to the file, once the user allowed it for this preview
+	 */
+	private async _saveFile(session: RemotePreviewSession, message: SaveRequestMessage) {
+		const reply = (error?: string) => this._post(session, error === undefined
+			? { type: 'SAVE_RESULT', requestId: message.requestId, ok: true }
+			: { type: 'SAVE_RESULT', requestId: message.requestId, ok: false, error });
+
+		if (!session.capabilities.has('save')) {
+			reply('SAVE_REQUEST needs the "save" capability, which was not negotiated.');
+			return;
+		}
+		const fileData = Buffer.from(message.data, 'base64');
+		if (fileData.length === 0) {
+			reply('The file data is empty.');
+			return;
+		}
+		if (this._viewerProvider.getDocument(session.uri)?.isDirty) {
+			reply(`${session.fileName} has unsaved edits in the Duc Viewer.`);
+			return;
+		}
+		if (!session.saveAllowed) {
+			const allow = 'Allow';
+			const answer = await vscode.window.showWarningMessage(
+				`The preview of ${session.fileName} wants to overwrite the file.`,
+				{ modal: true, detail: `The new contents come from ${session.origin}. Allow saves from this preview until it is closed?` },
+				allow
+			);
+			if (answer !== allow) {
+				reply('The user declined the save.');
+				return;
+			}
+			session.saveAllowed = true;
+		}
+
+		try {
+			await vscode.workspace.fs.writeFile(session.uri, fileData);
+		} catch (error) {
+			reply(`Failed to write ${session.fileName}: ${(error as Error).message}`);
+			return;
+		}
+		reply();
+	}
+
+	private _showAppError(session: RemotePreviewSession, message: AppErrorMessage) {
+		const text = `Duc Preview of ${session.fileName}: ${message.message}`;
+		console.warn(text);
+		if (message.fatal) {
+			vscode.window.showErrorMessage(text);
+		} else {
+			vscode.window.showWarningMessage(text);
+		}
 	}
 
-	private _getHtmlForWebview(): string {
-		const targetUrl = 'https://scopture.com/preview';
+	private _getLocalHtmlForWebview(webview: vscode.Webview): string {
+		const nonce = getNonce();
+		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._context.extensionUri, 'media', 'ducPreview.js'));
 
 		return `
             <!DOCTYPE html>
             <html lang="en" style="height: 100%">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="
+                    default-src 'none';
+                    style-src ${webview.cspSource} 'unsafe-inline';
+                    script-src ${webview.cspSource} 'nonce-${nonce}';
+                    img-src data:;
+                ">
+                <style>
+                    body, html { margin: 0; padding: 0; height: 100%; overflow: hidden; }
+                    body {
+                        display: flex;
+                        flex-direction: column;
+                        font-family: var(--vscode-font-family);
+                        font-size: var(--vscode-font-size);
+                        color: var(--vscode-foreground);
+                        background-color: var(--vscode-editor-background);
+                    }
+                    #toolbar {
+                        display: flex;
+                        align-items: center;
+                        gap: 4px;
+                        padding: 4px 8px;
+                        border-bottom: 1px solid var(--vscode-panel-border);
+                    }
+                    #status {
+                        flex: 1;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                        white-space: nowrap;
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    #status.error {
+                        color: var(--vscode-errorForeground);
+                    }
+                    #zoom-level {
+                        min-width: 4em;
+                        text-align: right;
+                        font-variant-numeric: tabular-nums;
+                    }
+                    button {
+                        min-width: 26px;
+                        padding: 2px 8px;
+                        border: none;
+                        border-radius: 2px;
+                        cursor: pointer;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-button-secondaryForeground);
+                        background-color: var(--vscode-button-secondaryBackground);
+                    }
+                    button:hover {
+                        background-color: var(--vscode-button-secondaryHoverBackground);
+                    }
+                    #main {
+                        flex: 1;
+                        display: flex;
+                        min-height: 0;
+                    }
+                    #canvas {
+                        flex: 1;
+                        min-width: 0;
+                        cursor: grab;
+                        touch-action: none;
+                    }
+                    #canvas.panning {
+                        cursor: grabbing;
+                    }
+                    #layers {
+                        width: 180px;
+                        overflow-y: auto;
+                        padding: 6px 8px;
+                        border-left: 1px solid var(--vscode-panel-border);
+                    }
+                    #layers[hidden] {
+                        display: none;
+                    }
+                    #layers label {
+                        display: flex;
+                        align-items: center;
+                        gap: 4px;
+                        padding: 2px 0;
+                        white-space: nowrap;
+                    }
+                </style>
+            </head>
+            <body>
+                <div id="toolbar">
+                    <span id="status">Loading...</span>
+                    <button id="zoom-out" title="Zoom Out">−</button>
+                    <span id="zoom-level"></span>
+                    <button id="zoom-in" title="Zoom In">+</button>
+                    <button id="fit" title="Fit Drawing to View">Fit</button>
+                </div>
+                <div id="main">
+                    <canvas id="canvas"></canvas>
+                    <div id="layers" hidden></div>
+                </div>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>
+        `;
+	}
+
+	private async _sendScene(panel: vscode.WebviewPanel, uri: vscode.Uri) {
+		const fileName = path.basename(uri.fsPath);
+		try {
+			const root = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Window,
+				title: `Loading preview of ${fileName}`
+			}, () => DucConverter.getInstance(this._context).decodeFile(uri));
+			panel.webview.postMessage({ type: 'scene', fileName, scene: buildDucScene(root) });
+		} catch (error) {
+			panel.webview.postMessage({ type: 'error', message: `Failed to load ${fileName}: ${(error as Error).message}` });
+		}
+	}
+
+	private _getHtmlForWebview(webview: vscode.Webview, previewUrl: URL): string {
+		const nonce = getNonce();
+
+		return `
+            <!DOCTYPE html>
+            <html lang="en" style="height: 100%">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="
+                    default-src 'none';
+                    style-src ${webview.cspSource} 'unsafe-inline';
+                    script-src 'nonce-${nonce}';
+                    frame-src ${previewUrl.origin};
+                ">
                 <style>
                     body, html { margin: 0; padding: 0; height: 100%; overflow: hidden; }
                     iframe { 
@@ -65,47 +467,48 @@ export class DucPreviewManager {
                 </style>
             </head>
             <body>
-                <iframe src="${targetUrl}" id="app-frame" sandbox="allow-scripts allow-same-origin allow-forms allow-popups"></iframe>
+                <iframe src="${previewUrl.href}" id="app-frame" sandbox="allow-scripts allow-same-origin allow-forms allow-popups"></iframe>
                 
-                <script>
+                <script nonce="${nonce}">
                     const vscode = acquireVsCodeApi();
                     const frame = document.getElementById('app-frame');
+                    const appOrigin = ${JSON.stringify(previewUrl.origin)};
 
-                    // Forward messages from VS Code Extension -> Iframe (React App)
                     window.addEventListener('message', event => {
-                        // Ensure we are forwarding valid data to the iframe
-                        if (frame && frame.contentWindow) {
-                            frame.contentWindow.postMessage(event.data, '*');
+                        if (event.source === frame.contentWindow) {
+                            // Forward messages from Iframe -> VS Code, only from the configured app
+                            if (event.origin === appOrigin) {
+                                vscode.postMessage(event.data);
+                            }
+                        } else if (frame.contentWindow) {
+                            // Forward messages from VS Code Extension -> Iframe
+                            frame.contentWindow.postMessage(event.data, appOrigin);
                         }
                     });
-
-                    // Forward messages from Iframe -> VS Code (e.g., "I'm ready")
-                    window.addEventListener('message', event => {
-                         // Check if origin matches to avoid processing our own messages if needed, 
-                         // but for "APP_READY" usually checking data type is enough.
-                         if (event.data && event.data.type === 'APP_READY') {
-                             vscode.postMessage(event.data);
-                         }
-                    });
                 </script>
             </body>
             </html>
         `;
 	}
 
-	private async _sendFileData(panel: vscode.WebviewPanel, uri: vscode.Uri) {
+	private async _sendFileData(session: RemotePreviewSession) {
 		try {
-			const fileName = uri.path.split('/').pop() || 'file.duc';
-			const fileData = await vscode.workspace.fs.readFile(uri);
+			const fileData = await vscode.workspace.fs.readFile(session.uri);
 			const base64 = Buffer.from(fileData).toString('base64');
 
-			panel.webview.postMessage({
+			this._post(session, {
 				type: 'FILE_DATA',
-				name: fileName,
-				data: base64
+				name: session.fileName,
+				data: base64,
+				// Apps predating the protocol only ever get one version
+				...(session.protocolVersion ? { revision: ++session.revision } : {})
 			});
 		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to read file: ${(error as Error).message}`);
+			const message = `Failed to read file: ${(error as Error).message}`;
+			vscode.window.showErrorMessage(message);
+			if (session.protocolVersion) {
+				this._post(session, { type: 'ERROR', message });
+			}
 		}
 	}
 }
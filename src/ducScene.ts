@@ -0,0 +1,315 @@
+import { decodeBlob } from './binaryInspector';
+import { describeItem } from './ducItems';
+
+/**
+ * How deep fields of items are looked for, through wrappers such as
+ * `{ element: { linear_base: { base: { x } } } }`
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Font size of texts that don't declare one
+ */
+const DEFAULT_FONT_SIZE = 20;
+
+/**
+ * Properties shared by every drawable element, in document units
+ */
+interface SceneElementBase {
+    id: string;
+    /** Type of the element in the document, e.g. `DucRectangleElement` */
+    type: string;
+    layerId?: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Rotation around the center of the element, in radians */
+    angle: number;
+    opacity: number;
+    stroke?: string;
+    fill?: string;
+    strokeWidth: number;
+}
+
+/**
+ * An element reduced to what the local preview draws. Elements of types it
+ * can't draw are shown as their bounding `box`.
+ */
+export type SceneElement = SceneElementBase & (
+    | { kind: 'rectangle' | 'box' }
+    | {
+        kind: 'ellipse';
+        /** Angles of arcs, in radians; undefined for full ellipses */
+        startAngle?: number;
+        endAngle?: number;
+    }
+    | {
+        kind: 'polyline';
+        /** Points relative to `x` and `y` */
+        points: [number, number][];
+        closed: boolean;
+    }
+    | {
+        kind: 'text';
+        text: string;
+        fontSize: number;
+        fontFamily?: string;
+        align: 'left' | 'center' | 'right';
+        lineHeight: number;
+    }
+    | { kind: 'image'; fileId?: string }
+);
+
+export interface SceneLayer {
+    id: string;
+    name: string;
+    /** Visibility saved in the document, the preview lets users toggle it */
+    visible: boolean;
+}
+
+export interface SceneImage {
+    mime: string;
+    /** Base64 encoded content */
+    data: string;
+}
+
+/**
+ * What the local preview draws of a decoded document
+ */
+export interface DucScene {
+    elements: SceneElement[];
+    layers: SceneLayer[];
+    /** Embedded files shown by image elements, by file id */
+    images: Record<string, SceneImage>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+function isBoolean(value: unknown): value is boolean {
+    return typeof value === 'boolean';
+}
+
+/**
+ * Find the shallowest value stored under one of `keys` that passes `test`,
+ * looking through nested objects but not into arrays
+ */
+function findValue<T>(value: unknown, keys: readonly string[], test: (value: unknown) => value is T): T | undefined {
+    let level: JsonObject[] = isObject(value) ? [value] : [];
+    for (let depth = 0; depth <= MAX_SEARCH_DEPTH && level.length > 0; depth++) {
+        const nextLevel: JsonObject[] = [];
+        for (const obj of level) {
+            for (const key of keys) {
+                if (test(obj[key])) {
+                    return obj[key] as T;
+                }
+            }
+            for (const child of Object.values(obj)) {
+                if (isObject(child)) {
+                    nextLevel.push(child);
+                }
+            }
+        }
+        level = nextLevel;
+    }
+    return undefined;
+}
+
+/**
+ * Find the shallowest object passing `test`, e.g. the base properties of an element
+ */
+function findObject(value: unknown, test: (obj: JsonObject) => boolean): JsonObject | undefined {
+    let level: JsonObject[] = isObject(value) ? [value] : [];
+    for (let depth = 0; depth <= MAX_SEARCH_DEPTH && level.length > 0; depth++) {
+        const nextLevel: JsonObject[] = [];
+        for (const obj of level) {
+            if (test(obj)) {
+                return obj;
+            }
+            nextLevel.push(...Object.values(obj).filter(isObject));
+        }
+        level = nextLevel;
+    }
+    return undefined;
+}
+
+/**
+ * Color of a stroke or background, given either as a color string or as a list
+ * of styles such as `[{ content: { src: '#000000', visible: true } }]`
+ */
+function findColor(value: unknown, keys: readonly string[]): string | undefined {
+    const style = findValue(value, keys, (v): v is string | unknown[] => isString(v) || Array.isArray(v));
+    if (isString(style)) {
+        return style || undefined;
+    }
+    if (!Array.isArray(style)) {
+        return undefined;
+    }
+    for (const item of style) {
+        if (findValue(item, ['visible', 'is_visible'], isBoolean) === false) {
+            continue;
+        }
+        const color = findValue(item, ['src', 'color'], isString);
+        if (color) {
+            return color;
+        }
+    }
+    return undefined;
+}
+
+function findStrokeWidth(value: unknown): number {
+    const strokes = findValue(value, ['stroke'], Array.isArray);
+    const width = strokes && strokes.length > 0
+        ? findValue(strokes[0], ['width'], isNumber)
+        : findValue(value, ['stroke_width', 'strokeWidth'], isNumber);
+    return width ?? 1;
+}
+
+function readPoint(value: unknown): [number, number] | undefined {
+    if (Array.isArray(value) && isNumber(value[0]) && isNumber(value[1])) {
+        return [value[0], value[1]];
+    }
+    if (isObject(value) && isNumber(value.x) && isNumber(value.y)) {
+        return [value.x, value.y];
+    }
+    return undefined;
+}
+
+function readTextAlign(value: unknown): 'left' | 'center' | 'right' {
+    const align = findValue(value, ['text_align', 'textAlign'], isString)?.toLowerCase();
+    return align === 'center' || align === 'right' ? align : 'left';
+}
+
+/**
+ * Reduce a decoded element to what the preview draws, or undefined when it
+ * has no position or is hidden
+ */
+function buildElement(wrapper: JsonObject, index: number): SceneElement | undefined {
+    const item = describeItem(wrapper);
+    const base = findObject(wrapper, obj => isNumber(obj.x) && isNumber(obj.y) && ('width' in obj || 'id' in obj));
+    if (!base || base.is_visible === false || base.is_deleted === true) {
+        return undefined;
+    }
+
+    const type = item.type ?? '';
+    const common: SceneElementBase = {
+        id: item.id ?? String(index),
+        type,
+        layerId: findValue(wrapper, ['layer_id', 'layerId'], isString) || undefined,
+        x: base.x as number,
+        y: base.y as number,
+        width: isNumber(base.width) ? base.width : 0,
+        height: isNumber(base.height) ? base.height : 0,
+        angle: isNumber(base.angle) ? base.angle : 0,
+        opacity: findValue(base, ['opacity'], isNumber) ?? 1,
+        stroke: findColor(base, ['stroke', 'stroke_color', 'strokeColor']),
+        fill: findColor(base, ['background', 'background_color', 'backgroundColor']),
+        strokeWidth: findStrokeWidth(base)
+    };
+
+    if (/text/i.test(type)) {
+        return {
+            ...common,
+            kind: 'text',
+            text: findValue(wrapper, ['text'], isString) ?? '',
+            fontSize: findValue(wrapper, ['font_size', 'fontSize'], isNumber) ?? DEFAULT_FONT_SIZE,
+            fontFamily: findValue(wrapper, ['font_family', 'fontFamily'], isString),
+            align: readTextAlign(wrapper),
+            lineHeight: findValue(wrapper, ['line_height', 'lineHeight'], isNumber) ?? 1.25
+        };
+    }
+    if (/image/i.test(type)) {
+        return { ...common, kind: 'image', fileId: findValue(wrapper, ['file_id', 'fileId'], isString) };
+    }
+    if (/ellipse|circle|arc/i.test(type)) {
+        const startAngle = findValue(wrapper, ['start_angle', 'startAngle'], isNumber);
+        const endAngle = findValue(wrapper, ['end_angle', 'endAngle'], isNumber);
+        const isArc = startAngle !== undefined && endAngle !== undefined
+            && startAngle !== endAngle && Math.abs(endAngle - startAngle) < 2 * Math.PI;
+        return isArc ? { ...common, kind: 'ellipse', startAngle, endAngle } : { ...common, kind: 'ellipse' };
+    }
+    if (/rectangle|frame/i.test(type)) {
+        return { ...common, kind: 'rectangle' };
+    }
+
+    const rawPoints = findValue(wrapper, ['points'], Array.isArray);
+    const points = (rawPoints ?? []).map(readPoint).filter((p): p is [number, number] => p !== undefined);
+    if (points.length >= 2) {
+        const [first, last] = [points[0], points[points.length - 1]];
+        const closed = /polygon/i.test(type) || (points.length > 2 && first[0] === last[0] && first[1] === last[1]);
+        return { ...common, kind: 'polyline', points, closed };
+    }
+    return { ...common, kind: 'box' };
+}
+
+function buildLayer(value: unknown, index: number): SceneLayer | undefined {
+    if (!isObject(value)) {
+        return undefined;
+    }
+    const id = describeItem(value).id ?? String(index);
+    return {
+        id,
+        name: findValue(value, ['name', 'label'], isString) || id,
+        visible: findValue(value, ['visible', 'is_visible'], isBoolean) ?? true
+    };
+}
+
+/**
+ * Embedded files as `[{ key, value: { mime_type, data } }]` entries or as a map by id
+ */
+function findImages(root: JsonObject, fileIds: Set<string>): Record<string, SceneImage> {
+    const files = root.external_files ?? root.files;
+    const entries: [string | undefined, unknown][] = Array.isArray(files)
+        ? files.map(entry => [isObject(entry) && isString(entry.key) ? entry.key : undefined, isObject(entry) ? entry.value ?? entry : undefined])
+        : isObject(files) ? Object.entries(files) : [];
+
+    const images: Record<string, SceneImage> = {};
+    for (const [key, file] of entries) {
+        const id = key ?? findValue(file, ['id'], isString);
+        const mime = findValue(file, ['mime_type', 'mimeType'], isString);
+        if (!id || !fileIds.has(id) || !mime?.startsWith('image/') || !isObject(file)) {
+            continue;
+        }
+        const data = isString(file.data) ? file.data : decodeBlob(file.data);
+        if (data !== undefined) {
+            images[id] = { mime, data: isString(data) ? data : Buffer.from(data).toString('base64') };
+        }
+    }
+    return images;
+}
+
+/**
+ * Collect the elements, layers and images of a decoded document for the local preview
+ */
+export function buildDucScene(root: unknown): DucScene {
+    if (!isObject(root)) {
+        return { elements: [], layers: [], images: {} };
+    }
+
+    const elements = (Array.isArray(root.elements) ? root.elements : [])
+        .map((element, i) => isObject(element) ? buildElement(element, i) : undefined)
+        .filter((element): element is SceneElement => element !== undefined);
+    const layers = (Array.isArray(root.layers) ? root.layers : [])
+        .map(buildLayer)
+        .filter((layer): layer is SceneLayer => layer !== undefined);
+
+    const fileIds = new Set<string>();
+    for (const element of elements) {
+        if (element.kind === 'image' && element.fileId) {
+            fileIds.add(element.fileId);
+        }
+    }
+    return { elements, layers, images: findImages(root, fileIds) };
+}
@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Disposable } from './dispose';
+import { ConversionCancelledError, DucConverter } from './ducConverter';
+import { JsonPath, formatJsonPath } from './jsonPath';
+import { JsonQueryError, evaluateQuery } from './jsonQuery';
+
+/**
+ * Most matches listed for a single file
+ */
+const MAX_HITS_PER_FILE = 500;
+
+/**
+ * Length after which the values shown for matches are cut
+ */
+const PREVIEW_LENGTH = 80;
+
+/**
+ * A match inside a decoded file
+ */
+interface SearchHit {
+    path: JsonPath;
+    preview: string;
+}
+
+/**
+ * Matches found in one file, or the reason it could not be searched
+ */
+interface FileResult {
+    uri: vscode.Uri;
+    hits: SearchHit[];
+    /** Number of matches, including those beyond `MAX_HITS_PER_FILE` */
+    total: number;
+    error?: string;
+}
+
+export type SearchNode =
+    | { kind: 'file'; result: FileResult }
+    | { kind: 'hit'; uri: vscode.Uri; hit: SearchHit };
+
+/**
+ * Searches the decoded content of every .duc file in the workspace, either for
+ * text in keys and values or with a JSONPath / jq query, and lists the matches
+ * grouped by file in the DUC Search Results view.
+ */
+export class DucSearchProvider extends Disposable implements vscode.TreeDataProvider<SearchNode> {
+    public static readonly viewId = 'ducPreview.searchResults';
+    private static instance: DucSearchProvider;
+    private readonly _treeView: vscode.TreeView<SearchNode>;
+    private _results: FileResult[] = [];
+    private _lastQuery = '';
+    /** Incremented for each search, so a superseded search stops */
+    private _runId = 0;
+
+    private readonly _onDidChangeTreeData = this._register(new vscode.EventEmitter<SearchNode | undefined>());
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private constructor(private readonly _context: vscode.ExtensionContext) {
+        super();
+        this._treeView = this._register(vscode.window.createTreeView(DucSearchProvider.viewId, {
+            treeDataProvider: this,
+            showCollapseAll: true
+        }));
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): DucSearchProvider {
+        if (!DucSearchProvider.instance) {
+            DucSearchProvider.instance = new DucSearchProvider(context);
+            context.subscriptions.push(DucSearchProvider.instance);
+        }
+        return DucSearchProvider.instance;
+    }
+
+    /**
+     * Ask for a search and run it over all .duc files of the workspace
+     */
+    public async search(): Promise<void> {
+        const query = await vscode.window.showInputBox({
+            title: 'Search in DUC Files',
+            prompt: 'Text to find in keys and values, or a JSONPath ($…) or jq (.…) query',
+            placeHolder: 'e.g. Room 101, $..layer_id or .elements[] | select(.element_type == "DucTextElement")',
+            value: this._lastQuery,
+            validateInput: value => {
+                if (!isQuery(value)) {
+                    return undefined;
+                }
+                try {
+                    evaluateQuery(undefined, value);
+                    return undefined;
+                } catch (error) {
+                    return error instanceof JsonQueryError ? error.message : undefined;
+                }
+            }
+        });
+        if (!query?.trim()) {
+            return;
+        }
+        await this.run(query);
+    }
+
+    /**
+     * Run the last search again, e.g. after files changed
+     */
+    public async refresh(): Promise<void> {
+        if (this._lastQuery) {
+            await this.run(this._lastQuery);
+        } else {
+            await this.search();
+        }
+    }
+
+    public clear(): void {
+        this._runId++;
+        this._results = [];
+        this._treeView.message = undefined;
+        this.setHasResults(false);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async run(query: string): Promise<void> {
+        const runId = ++this._runId;
+        this._lastQuery = query;
+        this._results = [];
+        this._treeView.message = `Searching for ${query}...`;
+        await this.setHasResults(true);
+        this._onDidChangeTreeData.fire(undefined);
+        await vscode.commands.executeCommand(`${DucSearchProvider.viewId}.focus`);
+
+        const converter = DucConverter.getInstance(this._context);
+        const matcher = isQuery(query) ? queryMatcher(query) : textMatcher(query);
+        let searched = 0;
+        let fileCount = 0;
+        let cancelled = false;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Searching DUC files',
+            cancellable: true
+        }, async (progress, token) => {
+            // Leaving out the exclude pattern applies `files.exclude`
+            const files = await vscode.workspace.findFiles('**/*.duc', undefined, undefined, token);
+            fileCount = files.length;
+            files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+            for (const uri of files) {
+                if (runId !== this._runId) {
+                    return;
+                }
+                if (token.isCancellationRequested) {
+                    cancelled = true;
+                    break;
+                }
+                progress.report({
+                    message: `${searched + 1}/${files.length} ${vscode.workspace.asRelativePath(uri)}`,
+                    increment: 100 / files.length
+                });
+
+                let result: FileResult;
+                try {
+                    const conversion = await converter.convertFile(uri, { token });
+                    const value: unknown = JSON.parse(conversion.json);
+                    const binaryPaths = new Set(converter.findBinaryFields(value, conversion.schemaContent, conversion.schemaIncludes).map(formatJsonPath));
+                    const hits = matcher(value, binaryPaths);
+                    result = { uri, hits: hits.slice(0, MAX_HITS_PER_FILE), total: hits.length };
+                } catch (error) {
+                    if (error instanceof ConversionCancelledError) {
+                        cancelled = true;
+                        break;
+                    }
+                    result = { uri, hits: [], total: 0, error: (error as Error).message };
+                }
+                searched++;
+                if (runId !== this._runId) {
+                    return;
+                }
+                if (result.total > 0 || result.error) {
+                    this._results.push(result);
+                    this._onDidChangeTreeData.fire(undefined);
+                }
+            }
+        });
+
+        if (runId !== this._runId) {
+            return;
+        }
+        const total = this._results.reduce((sum, result) => sum + result.total, 0);
+        const matchedFiles = this._results.filter(result => result.total > 0).length;
+        let message = total === 0
+            ? `No matches for ${query}`
+            : `${total} ${total === 1 ? 'match' : 'matches'} in ${matchedFiles} ${matchedFiles === 1 ? 'file' : 'files'}`;
+        if (cancelled) {
+            message += ` (cancelled after ${searched} of ${fileCount} files)`;
+        }
+        this._treeView.message = message;
+    }
+
+    private setHasResults(hasResults: boolean): Thenable<unknown> {
+        return vscode.commands.executeCommand('setContext', 'ducPreview.hasSearchResults', hasResults);
+    }
+
+    public getChildren(element?: SearchNode): SearchNode[] {
+        if (!element) {
+            return this._results.map(result => ({ kind: 'file', result }));
+        }
+        if (element.kind === 'file') {
+            return element.result.hits.map(hit => ({ kind: 'hit', uri: element.result.uri, hit }));
+        }
+        return [];
+    }
+
+    public getTreeItem(element: SearchNode): vscode.TreeItem {
+        if (element.kind === 'hit') {
+            const item = new vscode.TreeItem(formatJsonPath(element.hit.path), vscode.TreeItemCollapsibleState.None);
+            item.description = element.hit.preview;
+            item.tooltip = `${formatJsonPath(element.hit.path)}: ${element.hit.preview}`;
+            item.iconPath = new vscode.ThemeIcon('symbol-field');
+            item.command = {
+                command: 'ducPreview.openSearchResult',
+                title: 'Open in Duc Viewer',
+                arguments: [element.uri, element.hit.path]
+            };
+            return item;
+        }
+
+        const { uri, hits, total, error } = element.result;
+        const item = new vscode.TreeItem(
+            uri,
+            hits.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = uri.toString();
+        const folder = path.dirname(vscode.workspace.asRelativePath(uri));
+        if (error) {
+            item.iconPath = new vscode.ThemeIcon('warning');
+            item.description = 'Could not be decoded';
+            item.tooltip = `${uri.fsPath}\n${error}`;
+        } else {
+            const shown = total > hits.length ? ` (showing ${hits.length})` : '';
+            item.description = `${folder === '.' ? '' : `${folder} · `}${total}${shown}`;
+            item.tooltip = uri.fsPath;
+        }
+        return item;
+    }
+}
+
+/**
+ * Queries start like JSONPath (`$`) or jq (`.`) expressions, anything else is searched as text
+ */
+function isQuery(input: string): boolean {
+    return /^\s*[$.]/.test(input);
+}
+
+type Matcher = (root: unknown, binaryPaths: Set<string>) => SearchHit[];
+
+function queryMatcher(query: string): Matcher {
+    return root => evaluateQuery(root, query).map(match => ({ path: match.path, preview: formatPreview(match.value) }));
+}
+
+/**
+ * Case-insensitive search of property names and scalar values, skipping binary fields
+ */
+function textMatcher(text: string): Matcher {
+    const needle = text.trim().toLowerCase();
+    const matches = (value: unknown) => String(value).toLowerCase().includes(needle);
+    return (root, binaryPaths) => {
+        const hits: SearchHit[] = [];
+        const visit = (value: unknown, jsonPath: JsonPath) => {
+            const entries: [string | number, unknown][] = Array.isArray(value)
+                ? value.map((item, i) => [i, item])
+                : Object.entries(value as Record<string, unknown>);
+            for (const [key, child] of entries) {
+                const childPath = [...jsonPath, key];
+                if (binaryPaths.has(formatJsonPath(childPath))) {
+                    continue;
+                }
+                const isContainer = child !== null && typeof child === 'object';
+                // One hit per property, whether its name or its value matched
+                if ((typeof key === 'string' && matches(key)) || (!isContainer && child !== null && matches(child))) {
+                    hits.push({ path: childPath, preview: formatPreview(child) });
+                }
+                if (isContainer) {
+                    visit(child, childPath);
+                }
+            }
+        };
+        if (root !== null && typeof root === 'object') {
+            visit(root, []);
+        }
+        return hits;
+    };
+}
+
+function formatPreview(value: unknown): string {
+    const text = JSON.stringify(value) ?? 'undefined';
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
@@ -0,0 +1,186 @@
+import { BlobInfo } from './binaryInspector';
+import { BufferLayout, BufferRegionKind } from './bufferLayout';
+import { describeItem } from './ducItems';
+import { formatJsonPath } from './jsonPath';
+
+/**
+ * Number of binary fields listed among the largest blobs
+ */
+const MAX_LARGEST_BLOBS = 20;
+
+/**
+ * Section of the document holding the elements counted by type
+ */
+const ELEMENTS_SECTION = 'elements';
+
+/**
+ * Name given to the bytes of the header and of the root table itself
+ */
+export const ROOT_SECTION = '(root)';
+
+/**
+ * Regions that never overlap, so their sizes add up to the mapped bytes of the file
+ */
+const BLOCK_KINDS: ReadonlySet<BufferRegionKind> = new Set(['header', 'vtable', 'table', 'vector', 'string']);
+
+export interface ItemCount {
+    /** Path of a list of the document, or an element type */
+    name: string;
+    count: number;
+}
+
+export interface SectionStatistics {
+    /** Top-level field of the document, or {@link ROOT_SECTION} */
+    name: string;
+    /** Number of items of lists, undefined for other values */
+    items?: number;
+    /** Bytes of the file the section is stored in */
+    bytes: number;
+    /** Bytes of the binary fields of the section once decoded */
+    binaryBytes: number;
+}
+
+export interface BlobStatistics {
+    path: string;
+    mime: string;
+    size: number;
+}
+
+/**
+ * Figures describing a decoded .duc file, shown by "Show File Statistics"
+ */
+export interface DucStatistics {
+    fileName: string;
+    fileSize: number;
+    schemaLabel: string;
+    /** Number of items of the lists found at the top two levels of the document */
+    counts: ItemCount[];
+    /** Number of elements of each type, most frequent first */
+    elementTypes: ItemCount[];
+    /** Top-level sections, largest first */
+    sections: SectionStatistics[];
+    /** Bytes of the file no section accounts for, such as alignment padding */
+    unmappedBytes: number;
+    /** Largest binary fields, largest first */
+    largestBlobs: BlobStatistics[];
+    blobCount: number;
+    blobBytes: number;
+    /** Problems that left parts of the buffer out of the section sizes */
+    layoutWarnings: string[];
+}
+
+/**
+ * Count the items, sections and blobs of a decoded document, sizing each
+ * section from the layout of the buffer it was decoded from
+ */
+export function computeDucStatistics(
+    fileName: string,
+    fileSize: number,
+    schemaLabel: string,
+    root: unknown,
+    layout: BufferLayout,
+    blobs: BlobInfo[]
+): DucStatistics {
+    const record = root !== null && typeof root === 'object' && !Array.isArray(root)
+        ? root as Record<string, unknown>
+        : {};
+
+    const counts: ItemCount[] = [];
+    for (const [key, value] of Object.entries(record)) {
+        if (Array.isArray(value)) {
+            counts.push({ name: key, count: value.length });
+        } else if (value !== null && typeof value === 'object') {
+            for (const [childKey, child] of Object.entries(value)) {
+                if (Array.isArray(child)) {
+                    counts.push({ name: `${key}.${childKey}`, count: child.length });
+                }
+            }
+        }
+    }
+
+    const elementTypes = new Map<string, number>();
+    const elements = record[ELEMENTS_SECTION];
+    if (Array.isArray(elements)) {
+        for (const element of elements) {
+            const type = element !== null && typeof element === 'object'
+                ? describeItem(element as Record<string, unknown>).type
+                : undefined;
+            const name = type ?? '(unknown)';
+            elementTypes.set(name, (elementTypes.get(name) ?? 0) + 1);
+        }
+    }
+
+    const sections = new Map<string, SectionStatistics>();
+    const getSection = (name: string): SectionStatistics => {
+        let section = sections.get(name);
+        if (!section) {
+            const value = record[name];
+            section = { name, items: Array.isArray(value) ? value.length : undefined, bytes: 0, binaryBytes: 0 };
+            sections.set(name, section);
+        }
+        return section;
+    };
+
+    let mappedBytes = 0;
+    for (const region of layout.regions) {
+        if (BLOCK_KINDS.has(region.kind)) {
+            getSection(region.path.length > 0 ? String(region.path[0]) : ROOT_SECTION).bytes += region.end - region.start;
+            mappedBytes += region.end - region.start;
+        }
+    }
+    for (const blob of blobs) {
+        if (blob.path.length > 0) {
+            getSection(String(blob.path[0])).binaryBytes += blob.size;
+        }
+    }
+
+    const layoutWarnings = [...layout.errors];
+    if (layout.truncated) {
+        layoutWarnings.unshift('The buffer has too many regions to be mapped completely, section sizes are incomplete.');
+    }
+
+    return {
+        fileName,
+        fileSize,
+        schemaLabel,
+        counts,
+        elementTypes: [...elementTypes]
+            .map(([name, count]) => ({ name, count }))
+            .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+        sections: [...sections.values()].sort((a, b) => b.bytes - a.bytes),
+        unmappedBytes: Math.max(0, fileSize - mappedBytes),
+        largestBlobs: [...blobs]
+            .sort((a, b) => b.size - a.size)
+            .slice(0, MAX_LARGEST_BLOBS)
+            .map(blob => ({ path: formatJsonPath(blob.path), mime: blob.mime, size: blob.size })),
+        blobCount: blobs.length,
+        blobBytes: blobs.reduce((total, blob) => total + blob.size, 0),
+        layoutWarnings
+    };
+}
+
+/**
+ * Write the figures as CSV, one row per figure
+ */
+export function formatStatisticsCsv(statistics: DucStatistics): string {
+    const rows: (string | number | undefined)[][] = [
+        ['category', 'name', 'count', 'bytes', 'binary_bytes', 'mime'],
+        ['file', statistics.fileName, undefined, statistics.fileSize],
+        ['schema', statistics.schemaLabel],
+        ...statistics.counts.map(c => ['count', c.name, c.count]),
+        ...statistics.elementTypes.map(t => ['element_type', t.name, t.count]),
+        ...statistics.sections.map(s => ['section', s.name, s.items, s.bytes, s.binaryBytes]),
+        ['unmapped', '', undefined, statistics.unmappedBytes],
+        ['blobs', '', statistics.blobCount, undefined, statistics.blobBytes],
+        ...statistics.largestBlobs.map(b => ['blob', b.path, undefined, undefined, b.size, b.mime])
+    ];
+    return rows.map(row => row.map(formatCsvCell).join(',')).join('\n') + '\n';
+}
+
+function formatCsvCell(value: string | number | undefined): string {
+    if (value === undefined) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,351 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionCancelledError, DucConverter } from './ducConverter';
+import { BufferLayout, BufferLayoutBuilder } from './bufferLayout';
+import { describeBlobs } from './binaryInspector';
+import { getCompiledSchema } from './schemaCompiler';
+import { DucStatistics, ROOT_SECTION, computeDucStatistics, formatStatisticsCsv } from './ducStatistics';
+import { getNonce } from './util';
+
+/**
+ * Shows counts and byte sizes of .duc files in a webview, without opening
+ * their JSON, and exports the figures as CSV or JSON.
+ */
+export class DucStatisticsManager implements vscode.Disposable {
+    private static instance: DucStatisticsManager;
+    /** Open panels by file, a file is shown in one panel at a time */
+    private readonly _panels = new Map<string, vscode.WebviewPanel>();
+    /** Statistics shown in each panel, the ones exported */
+    private readonly _statistics = new WeakMap<vscode.WebviewPanel, DucStatistics>();
+
+    private constructor(private readonly _context: vscode.ExtensionContext) { }
+
+    public static getInstance(context: vscode.ExtensionContext): DucStatisticsManager {
+        if (!DucStatisticsManager.instance) {
+            DucStatisticsManager.instance = new DucStatisticsManager(context);
+            context.subscriptions.push(DucStatisticsManager.instance);
+        }
+        return DucStatisticsManager.instance;
+    }
+
+    /**
+     * Compute the statistics of a file and show them, reusing its panel if it has one
+     */
+    public async showStatistics(uri: vscode.Uri): Promise<void> {
+        const statistics = await this.computeWithProgress(uri);
+        if (!statistics) {
+            return;
+        }
+
+        const key = uri.toString();
+        let panel = this._panels.get(key);
+        if (panel) {
+            panel.reveal();
+        } else {
+            panel = this.createPanel(uri);
+        }
+        this.render(panel, statistics);
+    }
+
+    private createPanel(uri: vscode.Uri): vscode.WebviewPanel {
+        const key = uri.toString();
+        const panel = vscode.window.createWebviewPanel(
+            'ducPreview.statistics',
+            `Statistics: ${path.basename(uri.fsPath)}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, localResourceRoots: [] }
+        );
+        this._panels.set(key, panel);
+
+        panel.webview.onDidReceiveMessage(async message => {
+            switch (message.type) {
+                case 'refresh': {
+                    const refreshed = await this.computeWithProgress(uri);
+                    if (refreshed) {
+                        this.render(panel, refreshed);
+                    }
+                    break;
+                }
+                case 'export': {
+                    const statistics = this._statistics.get(panel);
+                    if (statistics) {
+                        await this.exportStatistics(uri, statistics, message.format === 'csv' ? 'csv' : 'json');
+                    }
+                    break;
+                }
+            }
+        });
+        panel.onDidDispose(() => {
+            this._panels.delete(key);
+            this._statistics.delete(panel);
+        });
+        return panel;
+    }
+
+    private render(panel: vscode.WebviewPanel, statistics: DucStatistics): void {
+        this._statistics.set(panel, statistics);
+        panel.webview.html = this.getHtml(panel.webview, statistics);
+    }
+
+    private async computeWithProgress(uri: vscode.Uri): Promise<DucStatistics | undefined> {
+        const fileName = path.basename(uri.fsPath);
+        try {
+            return await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Computing statistics of ${fileName}`,
+                cancellable: true
+            }, (progress, token) => this.compute(uri, progress, token));
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                console.log(`DUC Statistics: ${error.message}`);
+                return undefined;
+            }
+            vscode.window.showErrorMessage(`Failed to compute statistics of ${fileName}: ${(error as Error).message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Decode a file and map its buffer with the same schema
+     */
+    public async compute(
+        uri: vscode.Uri,
+        progress?: vscode.Progress<{ message?: string }>,
+        token?: vscode.CancellationToken
+    ): Promise<DucStatistics> {
+        const converter = DucConverter.getInstance(this._context);
+        const fileData = await vscode.workspace.fs.readFile(uri);
+        const schema = await converter.selectSchema(fileData, uri);
+        const result = await converter.convertDucToJson(fileData, { uri, schema, progress, token });
+
+        progress?.report({ message: 'Mapping buffer...' });
+        const root: unknown = JSON.parse(result.json);
+        let layout: BufferLayout;
+        try {
+            layout = new BufferLayoutBuilder(fileData, getCompiledSchema(schema.content, schema.includes)).build();
+        } catch (error) {
+            // Schemas only flatc understands still give counts and blobs
+            layout = {
+                regions: [],
+                truncated: false,
+                errors: [`The buffer could not be mapped, section sizes are missing: ${(error as Error).message}`]
+            };
+        }
+        const blobs = describeBlobs(root, converter.findBinaryFields(root, schema.content, schema.includes));
+        return computeDucStatistics(path.basename(uri.fsPath), fileData.length, schema.label, root, layout, blobs);
+    }
+
+    private async exportStatistics(uri: vscode.Uri, statistics: DucStatistics, format: 'csv' | 'json'): Promise<void> {
+        const defaultUri = uri.with({ path: `${uri.path.replace(/\.duc$/i, '')}.statistics.${format}` });
+        const target = await vscode.window.showSaveDialog({
+            defaultUri,
+            filters: format === 'csv' ? { 'CSV Files': ['csv'] } : { 'JSON Files': ['json'] },
+            saveLabel: 'Export',
+            title: 'Export DUC File Statistics'
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = format === 'csv' ? formatStatisticsCsv(statistics) : JSON.stringify(statistics, null, 2);
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export statistics: ${(error as Error).message}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Exported ${path.basename(target.fsPath)}`);
+    }
+
+    private getHtml(webview: vscode.Webview, statistics: DucStatistics): string {
+        const nonce = getNonce();
+        const largestSection = Math.max(1, ...statistics.sections.map(s => s.bytes), statistics.unmappedBytes);
+        const sizeBar = (bytes: number) =>
+            `<div class="bar"><div style="width: ${(bytes / largestSection * 100).toFixed(1)}%"></div></div>`;
+        const share = (bytes: number) =>
+            statistics.fileSize > 0 ? `${(bytes / statistics.fileSize * 100).toFixed(1)}%` : '';
+
+        const countRows = statistics.counts.map(c =>
+            `<tr><td>${escapeHtml(c.name)}</td><td class="number">${c.count.toLocaleString()}</td></tr>`);
+        const typeRows = statistics.elementTypes.map(t =>
+            `<tr><td>${escapeHtml(t.name)}</td><td class="number">${t.count.toLocaleString()}</td></tr>`);
+        const sectionRows = statistics.sections.map(s => `
+            <tr>
+                <td>${escapeHtml(s.name)}${s.name === ROOT_SECTION ? ' <span class="muted">header and root table</span>' : ''}</td>
+                <td class="number">${s.items?.toLocaleString() ?? ''}</td>
+                <td class="number">${formatSize(s.bytes)}</td>
+                <td class="number">${share(s.bytes)}</td>
+                <td class="number">${s.binaryBytes > 0 ? formatSize(s.binaryBytes) : ''}</td>
+                <td>${sizeBar(s.bytes)}</td>
+            </tr>`);
+        if (statistics.unmappedBytes > 0) {
+            sectionRows.push(`
+            <tr>
+                <td class="muted">Padding and unmapped bytes</td>
+                <td></td>
+                <td class="number">${formatSize(statistics.unmappedBytes)}</td>
+                <td class="number">${share(statistics.unmappedBytes)}</td>
+                <td></td>
+                <td>${sizeBar(statistics.unmappedBytes)}</td>
+            </tr>`);
+        }
+        const blobRows = statistics.largestBlobs.map(b => `
+            <tr>
+                <td><code>${escapeHtml(b.path)}</code></td>
+                <td>${escapeHtml(b.mime)}</td>
+                <td class="number">${formatSize(b.size)}</td>
+            </tr>`);
+        const warnings = statistics.layoutWarnings.map(w => `<p class="warning">${escapeHtml(w)}</p>`);
+
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <meta http-equiv="Content-Security-Policy" content="
+                    default-src 'none';
+                    style-src ${webview.cspSource} 'unsafe-inline';
+                    script-src 'nonce-${nonce}';
+                ">
+                <style>
+                    body {
+                        padding: 0 20px 20px;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-foreground);
+                    }
+                    header {
+                        display: flex;
+                        align-items: center;
+                        gap: 8px;
+                    }
+                    header h1 {
+                        flex: 1;
+                        font-size: 1.4em;
+                    }
+                    h2 {
+                        margin-top: 24px;
+                        font-size: 1.1em;
+                    }
+                    table {
+                        border-collapse: collapse;
+                        min-width: 360px;
+                    }
+                    th, td {
+                        padding: 3px 12px 3px 0;
+                        text-align: left;
+                    }
+                    th {
+                        border-bottom: 1px solid var(--vscode-panel-border);
+                        font-weight: 600;
+                    }
+                    .number {
+                        text-align: right;
+                        font-variant-numeric: tabular-nums;
+                    }
+                    .muted {
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    .warning {
+                        color: var(--vscode-editorWarning-foreground);
+                    }
+                    .bar {
+                        width: 160px;
+                        height: 8px;
+                        background-color: var(--vscode-editorWidget-background);
+                    }
+                    .bar div {
+                        height: 100%;
+                        background-color: var(--vscode-charts-blue);
+                    }
+                    button {
+                        padding: 4px 14px;
+                        border: none;
+                        border-radius: 2px;
+                        cursor: pointer;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-button-secondaryForeground);
+                        background-color: var(--vscode-button-secondaryBackground);
+                    }
+                    button:hover {
+                        background-color: var(--vscode-button-secondaryHoverBackground);
+                    }
+                </style>
+            </head>
+            <body>
+                <header>
+                    <h1>${escapeHtml(statistics.fileName)}</h1>
+                    <button data-action="refresh">Refresh</button>
+                    <button data-action="export" data-format="csv">Export CSV</button>
+                    <button data-action="export" data-format="json">Export JSON</button>
+                </header>
+                <p class="muted">${formatSize(statistics.fileSize)} · ${escapeHtml(statistics.schemaLabel)}</p>
+                ${warnings.join('')}
+
+                <h2>Counts</h2>
+                <table>
+                    <tr><th>List</th><th class="number">Items</th></tr>
+                    ${countRows.join('') || '<tr><td class="muted">No lists</td><td></td></tr>'}
+                </table>
+
+                <h2>Elements by Type</h2>
+                <table>
+                    <tr><th>Type</th><th class="number">Elements</th></tr>
+                    ${typeRows.join('') || '<tr><td class="muted">No elements</td><td></td></tr>'}
+                </table>
+
+                <h2>Size by Section</h2>
+                <table>
+                    <tr>
+                        <th>Section</th>
+                        <th class="number">Items</th>
+                        <th class="number">Size</th>
+                        <th class="number">Share</th>
+                        <th class="number">Binary data</th>
+                        <th></th>
+                    </tr>
+                    ${sectionRows.join('')}
+                </table>
+
+                <h2>Largest Binary Fields</h2>
+                <p class="muted">${statistics.blobCount.toLocaleString()} binary fields, ${formatSize(statistics.blobBytes)} in total</p>
+                <table>
+                    <tr><th>Path</th><th>Type</th><th class="number">Size</th></tr>
+                    ${blobRows.join('') || '<tr><td class="muted">No binary fields</td><td></td><td></td></tr>'}
+                </table>
+
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+                    for (const button of document.querySelectorAll('button')) {
+                        button.addEventListener('click', () => {
+                            vscode.postMessage({ type: button.dataset.action, format: button.dataset.format });
+                        });
+                    }
+                </script>
+            </body>
+            </html>`;
+    }
+
+    public dispose(): void {
+        this._panels.forEach(panel => panel.dispose());
+        this._panels.clear();
+    }
+}
+
+function formatSize(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    }
+    if (size < 1024 * 1024) {
+        return `${(size / 1024).toFixed(1)} KB`;
+    }
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
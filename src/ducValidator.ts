@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DucConverter } from './ducConverter';
+import { getCompiledSchema } from './schemaCompiler';
+import { FlatBufferVerifier, VerificationIssue } from './flatbufferVerifier';
+import { formatJsonPath } from './jsonPath';
+
+/**
+ * Verifies .duc files against the schema they are decoded with and lists the
+ * problems found in the Problems panel.
+ */
+export class DucValidator implements vscode.Disposable {
+    private static instance: DucValidator;
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('duc-validation');
+
+    private constructor(private readonly _context: vscode.ExtensionContext) { }
+
+    public static getInstance(context: vscode.ExtensionContext): DucValidator {
+        if (!DucValidator.instance) {
+            DucValidator.instance = new DucValidator(context);
+            context.subscriptions.push(DucValidator.instance);
+        }
+        return DucValidator.instance;
+    }
+
+    /**
+     * Whether files are validated when they are opened in the Duc Viewer
+     */
+    public static validatesOnOpen(uri: vscode.Uri): boolean {
+        return vscode.workspace.getConfiguration('ducPreview', uri).get<boolean>('validateOnOpen', false);
+    }
+
+    /**
+     * Validate a file and tell the result
+     */
+    public async validateFile(uri: vscode.Uri): Promise<void> {
+        const fileName = path.basename(uri.fsPath);
+        let issues: VerificationIssue[];
+        try {
+            issues = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Validating ${fileName}`
+            }, () => this.validate(uri));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to validate ${fileName}: ${(error as Error).message}`);
+            return;
+        }
+
+        if (issues.length === 0) {
+            vscode.window.showInformationMessage(`${fileName} is a valid DUC file.`);
+            return;
+        }
+        const errors = issues.filter(issue => issue.severity === 'error').length;
+        const warnings = issues.length - errors;
+        const counts = [
+            errors > 0 && `${errors} ${errors === 1 ? 'error' : 'errors'}`,
+            warnings > 0 && `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`
+        ].filter(Boolean).join(' and ');
+        const showProblems = 'Show Problems';
+        const show = errors > 0
+            ? vscode.window.showErrorMessage(`Found ${counts} in ${fileName}.`, showProblems)
+            : vscode.window.showWarningMessage(`Found ${counts} in ${fileName}.`, showProblems);
+        if (await show === showProblems) {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    /**
+     * Verify a file and replace its diagnostics with the problems found
+     */
+    public async validate(uri: vscode.Uri): Promise<VerificationIssue[]> {
+        const fileData = await vscode.workspace.fs.readFile(uri);
+        const converter = DucConverter.getInstance(this._context);
+        const schema = await converter.selectSchema(fileData, uri);
+
+        let issues: VerificationIssue[];
+        try {
+            const compiled = getCompiledSchema(schema.content, schema.includes);
+            issues = new FlatBufferVerifier(fileData, compiled).verify();
+        } catch (error) {
+            issues = [{
+                severity: 'error',
+                message: `The schema can't be used to verify the file: ${(error as Error).message}`,
+                offset: 0,
+                path: []
+            }];
+        }
+        this._diagnostics.set(uri, issues.map(issue => toDiagnostic(issue, schema.label)));
+        return issues;
+    }
+
+    /**
+     * Remove the diagnostics of a file, once it is no longer open
+     */
+    public clear(uri: vscode.Uri): void {
+        this._diagnostics.delete(uri);
+    }
+
+    public dispose(): void {
+        this._diagnostics.dispose();
+    }
+}
+
+function toDiagnostic(issue: VerificationIssue, schemaLabel: string): vscode.Diagnostic {
+    const hexOffset = `0x${issue.offset.toString(16).toUpperCase().padStart(8, '0')}`;
+    const diagnostic = new vscode.Diagnostic(
+        // Binary files have no lines, the location is given in the message
+        new vscode.Range(0, 0, 0, 0),
+        `${issue.message} [${formatJsonPath(issue.path)} at byte ${issue.offset} (${hexOffset})]`,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = `duc (${schemaLabel})`;
+    return diagnostic;
+}
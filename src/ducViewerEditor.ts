@@ -1,30 +1,138 @@
 import * as vscode from "vscode";
 import * as os from "os";
 import * as path from "path";
-import * as util from "util";
-import * as childProcess from "child_process";
-import * as fs from "fs";
-import { FlatcManager } from "./flatcManager";
 import { CustomSchemaManager } from "./customSchemaManager";
-import { SchemaParser } from "./schemaParser";
 import { DUC_SCHEMA } from "./assets/schema";
+import { Disposable, disposeAll } from "./dispose";
+import { ConversionCancelledError, DucConverter } from "./ducConverter";
+import { getNonce } from "./util";
+import { JsonPath, formatJsonPath, getValueAtPath } from "./jsonPath";
+import { BlobInfo, decodeBlob, describeBlobs } from "./binaryInspector";
+import { SchemaInfoProvider } from "./schemaInfoProvider";
+import { IncludedSchema } from "./schemaCompiler";
+import { BufferLayoutIndex } from "./bufferLayout";
+import { DucValidator } from "./ducValidator";
+import { getJsonTreeChildren } from "./jsonTree";
+import {
+  JsonQueryError,
+  QueryMatch,
+  detectQueryLanguage,
+  evaluateQuery,
+} from "./jsonQuery";
 
-const execFile = util.promisify(childProcess.execFile);
+/**
+ * Delay after the last change on disk before a document is reloaded
+ */
+const RELOAD_DEBOUNCE_MS = 300;
+
+/**
+ * Maximum number of query matches listed in the viewer, copy and export include all of them
+ */
+const MAX_QUERY_RESULTS = 1000;
+
+/**
+ * Length after which the value previews of query matches are cut
+ */
+const QUERY_PREVIEW_LENGTH = 120;
+
+/**
+ * Characters of JSON sent to a viewer per message, large documents are sent in chunks
+ */
+const CONTENT_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Number of children of a node sent to the tree mode of a viewer at most at once
+ */
+const MAX_TREE_CHILDREN = 1000;
+
+/**
+ * Bytes sent to the hex view of a viewer at most at once, it asks for the rows it shows
+ */
+const MAX_HEX_RANGE = 64 * 1024;
+
+/**
+ * How a viewer shows the document: as editable JSON text in Monaco, or as a
+ * lazily loaded tree for documents too large for the text editor
+ */
+type ViewMode = "text" | "tree";
+
+/**
+ * A single edit of the decoded JSON, stored as before/after snapshots
+ */
+interface DucEdit {
+  readonly before: string;
+  readonly after: string;
+}
 
 /**
  * Provider for DUC file editor
  */
 export class DucViewerProvider
-  implements vscode.CustomReadonlyEditorProvider<DucDocument>
+  implements vscode.CustomEditorProvider<DucDocument>
 {
-  private flatcManager: FlatcManager;
   private customSchemaManager: CustomSchemaManager;
-  private schemaParser: SchemaParser;
+  private schemaInfoProvider: SchemaInfoProvider;
 
-  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+  /**
+   * Tracks all known webviews
+   */
+  private readonly webviews = new WebviewCollection();
+
+  private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<
+    vscode.CustomDocumentEditEvent<DucDocument>
+  >();
+  public readonly onDidChangeCustomDocument =
+    this._onDidChangeCustomDocument.event;
+
+  /**
+   * Viewers whose editor has been created and can receive messages
+   */
+  private readonly _readyPanels = new WeakSet<vscode.WebviewPanel>();
+  /**
+   * Paths to reveal once the viewer of a document is ready, by document URI
+   */
+  private readonly _pendingReveals = new Map<string, JsonPath>();
+  /**
+   * How each viewer shows its document, decided when it is first ready
+   */
+  private readonly _viewModes = new WeakMap<vscode.WebviewPanel, ViewMode>();
+  /**
+   * Identifies the chunks of a content transfer, superseded transfers are dropped by the viewer
+   */
+  private _nextContentTransfer = 0;
+
+  private _activeDocument: DucDocument | undefined;
+  private readonly _onDidChangeActiveDocument = new vscode.EventEmitter<
+    DucDocument | undefined
+  >();
+  /**
+   * Fired when the focused Duc Viewer changes to another document or closes
+   */
+  public readonly onDidChangeActiveDocument =
+    this._onDidChangeActiveDocument.event;
+
+  /**
+   * Open documents by URI
+   */
+  private readonly _documents = new Map<string, DucDocument>();
+  /**
+   * Number of listeners to the selection of each document's viewers, by document URI
+   */
+  private readonly _selectionTracking = new Map<string, number>();
+  private readonly _onDidChangeSelection = new vscode.EventEmitter<{
+    document: DucDocument;
+    path: JsonPath;
+  }>();
+  /**
+   * Fired when the node under the cursor of a viewer changes, for documents
+   * whose selection is tracked with `trackSelection`
+   */
+  public readonly onDidChangeSelection = this._onDidChangeSelection.event;
+
+  public static register(provider: DucViewerProvider): vscode.Disposable {
     return vscode.window.registerCustomEditorProvider(
       "ducPreview.ducViewer",
-      new DucViewerProvider(context),
+      provider,
       {
         supportsMultipleEditorsPerDocument: false,
         webviewOptions: { retainContextWhenHidden: true },
@@ -33,18 +141,88 @@ export class DucViewerProvider
   }
 
   constructor(private readonly context: vscode.ExtensionContext) {
-    this.flatcManager = FlatcManager.getInstance(context);
     this.customSchemaManager = CustomSchemaManager.getInstance(context);
-    this.schemaParser = SchemaParser.getInstance();
+    this.schemaInfoProvider = SchemaInfoProvider.getInstance(context);
   }
 
   async openCustomDocument(
     uri: vscode.Uri,
-    _openContext: vscode.CustomDocumentOpenContext,
+    openContext: vscode.CustomDocumentOpenContext,
     _token: vscode.CancellationToken
   ): Promise<DucDocument> {
-    const fileData = await vscode.workspace.fs.readFile(uri);
-    return new DucDocument(uri, fileData, this.context);
+    const document = await DucDocument.create(
+      uri,
+      openContext.backupId,
+      this.context
+    );
+
+    const key = uri.toString();
+    this._documents.set(key, document);
+    const listeners: vscode.Disposable[] = [];
+
+    listeners.push(
+      document.onDidChange((e) => {
+        // Tell VS Code that the document has been edited by the user
+        this._onDidChangeCustomDocument.fire({
+          document,
+          ...e,
+        });
+      })
+    );
+
+    listeners.push(
+      document.onDidChangeContent((e) => {
+        // Update all webviews when the document changes
+        for (const webviewPanel of this.webviews.get(document.uri)) {
+          if (this._viewModes.get(webviewPanel) === "tree") {
+            // Trees fetch the nodes they show again
+            this.postMessage(webviewPanel, "treeChanged", {
+              schemaLabel: document.schemaLabel,
+            });
+            continue;
+          }
+          this.postContent(webviewPanel, "setContent", e.content, {
+            binaryFields: document.binaryFields,
+            schemaLabel: document.schemaLabel,
+          });
+        }
+      })
+    );
+
+    listeners.push(
+      document.onDidReportProgress((message) => {
+        for (const webviewPanel of this.webviews.get(document.uri)) {
+          this.postMessage(webviewPanel, "progress", { message });
+        }
+      })
+    );
+
+    listeners.push(
+      document.onDidChangeFileData(() => {
+        for (const webviewPanel of this.webviews.get(document.uri)) {
+          this.postMessage(webviewPanel, "fileDataChanged", {});
+        }
+      })
+    );
+
+    document.onDidDispose(() => {
+      disposeAll(listeners);
+      if (this._documents.get(key) === document) {
+        this._documents.delete(key);
+      }
+      // The problems of a closed file would no longer be updated
+      DucValidator.getInstance(this.context).clear(uri);
+    });
+
+    if (DucValidator.validatesOnOpen(uri)) {
+      DucValidator.getInstance(this.context)
+        .validate(uri)
+        .catch((error) =>
+          console.warn(`DUC Viewer: Failed to validate ${uri.fsPath}`, error)
+        );
+    }
+
+    return document;
   }
 
   async resolveCustomEditor(
@@ -57,13 +235,199 @@ export class DucViewerProvider
       enableScripts: true,
     };
 
-    // Set initial HTML content with loading message
-    webviewPanel.webview.html = this.getLoadingHtml();
+    // Add the webview to our internal set of active webviews
+    this.webviews.add(document.uri, webviewPanel);
+
+    // Keep track of the document shown in the focused viewer
+    if (webviewPanel.active) {
+      this.setActiveDocument(document);
+    }
+    webviewPanel.onDidChangeViewState((e) => {
+      if (e.webviewPanel.active) {
+        this.setActiveDocument(document);
+      } else if (this._activeDocument === document) {
+        this.setActiveDocument(undefined);
+      }
+    });
+    webviewPanel.onDidDispose(() => {
+      if (this._activeDocument === document) {
+        this.setActiveDocument(undefined);
+      }
+    });
+
+    // Cancels the conversion that is currently running for this editor
+    let loadCancellation: vscode.CancellationTokenSource | undefined;
+
+    const loadDocument = async () => {
+      loadCancellation?.dispose();
+      const cancellation = new vscode.CancellationTokenSource();
+      loadCancellation = cancellation;
+      const tokenListener = _token.onCancellationRequested(() =>
+        cancellation.cancel()
+      );
+
+      // Set initial HTML content with loading message
+      this._readyPanels.delete(webviewPanel);
+      webviewPanel.webview.html = this.getLoadingHtml(webviewPanel.webview);
+
+      try {
+        // Convert to JSON
+        await document.load(cancellation.token);
+
+        // Update webview with Monaco editor, which requests the JSON once ready
+        webviewPanel.webview.html = this.getMonacoEditorHtml(
+          webviewPanel.webview
+        );
+      } catch (error) {
+        if (error instanceof ConversionCancelledError) {
+          console.debug(`DUC Viewer: ${error.message}`);
+          webviewPanel.webview.html = this.getCancelledHtml(
+            webviewPanel.webview,
+            error.message
+          );
+          return;
+        }
+        const errorMessage = `Error processing DUC file: ${
+          (error as Error).message
+        }`;
+        console.error(errorMessage);
+        webviewPanel.webview.html = this.getErrorHtml(
+          webviewPanel.webview,
+          errorMessage,
+          document.schemaLabel ??
+            this.customSchemaManager.getCurrentSchemaDisplayName(document.uri)
+        );
+      } finally {
+        tokenListener.dispose();
+        cancellation.dispose();
+        if (loadCancellation === cancellation) {
+          loadCancellation = undefined;
+        }
+      }
+    };
+
+    webviewPanel.onDidDispose(() => loadCancellation?.cancel());
 
     // Handle messages from webview
     webviewPanel.webview.onDidReceiveMessage(
       (message) => {
         switch (message.type) {
+          case "ready": {
+            const mode = this.getViewMode(document, webviewPanel);
+            this._viewModes.set(webviewPanel, mode);
+            // Trees never receive the whole document
+            this.postContent(
+              webviewPanel,
+              "init",
+              mode === "text" ? document.content : "",
+              {
+                mode,
+                editable: this.isEditingEnabled(document),
+                binaryFields: mode === "text" ? document.binaryFields : [],
+                schemaLabel: document.schemaLabel,
+              }
+            );
+            this._readyPanels.add(webviewPanel);
+            this.revealPendingPath(document, webviewPanel);
+            if (this._selectionTracking.has(document.uri.toString())) {
+              this.postMessage(webviewPanel, "trackSelection", {
+                enabled: true,
+              });
+            }
+            break;
+          }
+          case "setViewMode":
+            this._viewModes.set(webviewPanel, message.mode);
+            this._readyPanels.delete(webviewPanel);
+            webviewPanel.webview.html = this.getMonacoEditorHtml(
+              webviewPanel.webview
+            );
+            break;
+          case "getChildren":
+            this.postMessage(webviewPanel, "children", {
+              requestId: message.requestId,
+              ...getJsonTreeChildren(
+                document.jsonValue,
+                message.path,
+                message.offset,
+                Math.min(message.limit, MAX_TREE_CHILDREN)
+              ),
+            });
+            break;
+          case "saveBlob":
+            this.saveBinaryField(document, message.path);
+            break;
+          case "openBlob":
+            this.openBinaryField(document, message.path);
+            break;
+          case "hover":
+            this.postMessage(webviewPanel, "hoverResult", {
+              requestId: message.requestId,
+              markdown: document.schemaContent
+                ? this.schemaInfoProvider.describe(
+                    document.jsonValue,
+                    message.path,
+                    document.schemaContent,
+                    document.schemaIncludes
+                  )
+                : undefined,
+            });
+            break;
+          case "goToDefinition":
+            if (document.schemaContent) {
+              this.schemaInfoProvider.goToDefinition(
+                document.jsonValue,
+                message.path,
+                document.schemaContent,
+                document.schemaPath,
+                document.schemaIncludes
+              );
+            }
+            break;
+          case "getHexView":
+            this.postHexView(document, webviewPanel, message.generation);
+            break;
+          case "getHexRows":
+            this.postHexRows(document, webviewPanel, message);
+            break;
+          case "getHexRanges":
+            this.postHexRanges(document, webviewPanel, message);
+            break;
+          case "query":
+            this.postMessage(webviewPanel, "queryResult", {
+              requestId: message.requestId,
+              ...this.runQuery(document, message.query),
+            });
+            break;
+          case "copyQueryResult":
+            this.copyQueryResult(document, message.query);
+            break;
+          case "exportQueryResult":
+            this.exportQueryResult(document, message.query);
+            break;
+          case "edit":
+            document.makeEdit(message.content);
+            break;
+          case "undo":
+          case "redo":
+            // Routed to the document of the active custom editor
+            vscode.commands.executeCommand(message.type);
+            break;
+          case "cancel":
+            loadCancellation?.cancel();
+            break;
+          case "retry":
+            loadDocument();
+            break;
+          case "validate":
+            vscode.commands.executeCommand(
+              "ducPreview.validateFile",
+              document.uri
+            );
+            break;
+          case "selectionChanged":
+            this._onDidChangeSelection.fire({ document, path: message.path });
+            break;
           case "wordWrapToggled":
             vscode.window.showInformationMessage(message.message);
             break;
@@ -73,32 +437,490 @@ export class DucViewerProvider
       this.context.subscriptions
     );
 
+    await loadDocument();
+  }
+
+  public saveCustomDocument(
+    document: DucDocument,
+    cancellation: vscode.CancellationToken
+  ): Thenable<void> {
+    return document.save(cancellation);
+  }
+
+  public saveCustomDocumentAs(
+    document: DucDocument,
+    destination: vscode.Uri,
+    cancellation: vscode.CancellationToken
+  ): Thenable<void> {
+    return document.saveAs(destination, cancellation);
+  }
+
+  public revertCustomDocument(
+    document: DucDocument,
+    cancellation: vscode.CancellationToken
+  ): Thenable<void> {
+    return document.revert(cancellation);
+  }
+
+  public backupCustomDocument(
+    document: DucDocument,
+    context: vscode.CustomDocumentBackupContext,
+    cancellation: vscode.CancellationToken
+  ): Thenable<vscode.CustomDocumentBackup> {
+    return document.backup(context.destination, cancellation);
+  }
+
+  /**
+   * The document shown in the focused Duc Viewer, if any
+   */
+  public get activeDocument(): DucDocument | undefined {
+    return this._activeDocument;
+  }
+
+  private setActiveDocument(document: DucDocument | undefined): void {
+    if (this._activeDocument === document) {
+      return;
+    }
+    this._activeDocument = document;
+    this._onDidChangeActiveDocument.fire(document);
+  }
+
+  /**
+   * The open document of a file, if any
+   */
+  public getDocument(uri: vscode.Uri): DucDocument | undefined {
+    return this._documents.get(uri.toString());
+  }
+
+  /**
+   * Have the viewers of a file report the node under their cursor through
+   * `onDidChangeSelection` until the returned disposable is disposed
+   */
+  public trackSelection(uri: vscode.Uri): vscode.Disposable {
+    const key = uri.toString();
+    const update = (count: number) => {
+      const wasTracked = this._selectionTracking.has(key);
+      if (count > 0) {
+        this._selectionTracking.set(key, count);
+      } else {
+        this._selectionTracking.delete(key);
+      }
+      // Viewers only track while someone listens, finding the node under the cursor is not free
+      if (wasTracked !== count > 0) {
+        for (const webviewPanel of this.webviews.get(uri)) {
+          if (this._readyPanels.has(webviewPanel)) {
+            this.postMessage(webviewPanel, "trackSelection", {
+              enabled: count > 0,
+            });
+          }
+        }
+      }
+    };
+    update((this._selectionTracking.get(key) ?? 0) + 1);
+
+    let disposed = false;
+    return new vscode.Disposable(() => {
+      if (!disposed) {
+        disposed = true;
+        update((this._selectionTracking.get(key) ?? 1) - 1);
+      }
+    });
+  }
+
+  /**
+   * Reveal and highlight the JSON node at `path` in the viewers of a document
+   */
+  public revealJsonPath(document: DucDocument, path: JsonPath): void {
+    for (const webviewPanel of this.webviews.get(document.uri)) {
+      webviewPanel.reveal(webviewPanel.viewColumn, true);
+      this.postMessage(webviewPanel, "revealPath", { path });
+    }
+  }
+
+  /**
+   * Open a .duc file in the Duc Viewer and reveal the JSON node at `path`,
+   * once the file has been decoded if it wasn't open yet
+   */
+  public async openAtPath(uri: vscode.Uri, jsonPath: JsonPath): Promise<void> {
+    this._pendingReveals.set(uri.toString(), jsonPath);
+    await vscode.commands.executeCommand(
+      "vscode.openWith",
+      uri,
+      "ducPreview.ducViewer"
+    );
+    for (const webviewPanel of this.webviews.get(uri)) {
+      if (this._readyPanels.has(webviewPanel)) {
+        this._pendingReveals.delete(uri.toString());
+        this.postMessage(webviewPanel, "revealPath", { path: jsonPath });
+      }
+    }
+  }
+
+  private revealPendingPath(
+    document: DucDocument,
+    webviewPanel: vscode.WebviewPanel
+  ): void {
+    const key = document.uri.toString();
+    const jsonPath = this._pendingReveals.get(key);
+    if (jsonPath) {
+      this._pendingReveals.delete(key);
+      this.postMessage(webviewPanel, "revealPath", { path: jsonPath });
+    }
+  }
+
+  /**
+   * Tell the hex view of a viewer how large the file is and how well its bytes
+   * could be mapped. The bytes themselves are requested by rows.
+   */
+  private async postHexView(
+    document: DucDocument,
+    webviewPanel: vscode.WebviewPanel,
+    generation: number
+  ): Promise<void> {
+    try {
+      const { fileData, index } = await document.getBufferLayout();
+      this.postMessage(webviewPanel, "hexView", {
+        generation,
+        size: fileData.length,
+        regionCount: index.layout.regions.length / 5,
+        truncated: index.layout.truncated,
+        errors: index.layout.errors,
+        isDirty: document.isDirty,
+      });
+    } catch (error) {
+      this.postMessage(webviewPanel, "hexView", {
+        generation,
+        error: `Failed to map the bytes of the file: ${
+          (error as Error).message
+        }`,
+      });
+    }
+  }
+
+  /**
+   * Send a range of bytes and the regions overlapping it to the hex view of a viewer
+   */
+  private async postHexRows(
+    document: DucDocument,
+    webviewPanel: vscode.WebviewPanel,
+    request: { generation: number; start: number; end: number }
+  ): Promise<void> {
+    let layout;
+    try {
+      layout = await document.getBufferLayout();
+    } catch {
+      // Already reported by postHexView
+      return;
+    }
+    const start = Math.max(0, request.start);
+    const end = Math.min(
+      layout.fileData.length,
+      request.end,
+      start + MAX_HEX_RANGE
+    );
+    this.postMessage(webviewPanel, "hexRows", {
+      generation: request.generation,
+      start,
+      bytes: Buffer.from(layout.fileData.subarray(start, end)).toString(
+        "base64"
+      ),
+      layout: layout.index.slice(start, end),
+    });
+  }
+
+  /**
+   * Send the byte ranges of a JSON node to the hex view of a viewer, to select them
+   */
+  private async postHexRanges(
+    document: DucDocument,
+    webviewPanel: vscode.WebviewPanel,
+    request: { generation: number; requestId: number; path: JsonPath }
+  ): Promise<void> {
+    let ranges: number[] = [];
+    try {
+      ranges = (await document.getBufferLayout()).index.findRanges(
+        request.path
+      );
+    } catch {
+      // Already reported by postHexView
+    }
+    this.postMessage(webviewPanel, "hexRanges", {
+      generation: request.generation,
+      requestId: request.requestId,
+      ranges,
+    });
+  }
+
+
+  /**
+   * Ask where to save the content of a binary field and write it
+   */
+  private async saveBinaryField(
+    document: DucDocument,
+    jsonPath: JsonPath
+  ): Promise<void> {
+    const blob = document.binaryFields.find(
+      (field) => formatJsonPath(field.path) === formatJsonPath(jsonPath)
+    );
+    const bytes = document.readBinaryField(jsonPath);
+    if (!blob || !bytes) {
+      vscode.window.showErrorMessage("The binary field no longer exists.");
+      return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(
+        document.uri,
+        "..",
+        `${this.getBlobFileName(document, jsonPath)}.${blob.extension}`
+      ),
+      saveLabel: "Save",
+      title: `Save ${formatJsonPath(jsonPath)}`,
+    });
+    if (!target) {
+      return;
+    }
     try {
-      // Convert to JSON
-      const jsonData = await document.getJsonContent();
+      await vscode.workspace.fs.writeFile(target, bytes);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save binary field: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Write the content of a binary field to a temporary file and open it with
+   * the editor VS Code associates with its type
+   */
+  private async openBinaryField(
+    document: DucDocument,
+    jsonPath: JsonPath
+  ): Promise<void> {
+    const blob = document.binaryFields.find(
+      (field) => formatJsonPath(field.path) === formatJsonPath(jsonPath)
+    );
+    const bytes = document.readBinaryField(jsonPath);
+    if (!blob || !bytes) {
+      vscode.window.showErrorMessage("The binary field no longer exists.");
+      return;
+    }
 
-      // Update webview with Monaco editor displaying the JSON
-      webviewPanel.webview.html = this.getMonacoEditorHtml(
-        webviewPanel.webview,
-        jsonData
+    const target = vscode.Uri.file(
+      path.join(
+        os.tmpdir(),
+        "duc-blobs",
+        `${this.getBlobFileName(document, jsonPath)}.${blob.extension}`
+      )
+    );
+    try {
+      await vscode.workspace.fs.writeFile(target, bytes);
+      await vscode.commands.executeCommand("vscode.open", target);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to open binary field: ${(error as Error).message}`
       );
+    }
+  }
+
+  /**
+   * File name for a binary field, e.g. `drawing-files.entries.0.value.data`
+   */
+  private getBlobFileName(document: DucDocument, jsonPath: JsonPath): string {
+    const baseName = path.basename(document.uri.fsPath, ".duc");
+    return `${baseName}-${jsonPath.join(".")}`.replace(/[^\w.-]+/g, "_");
+  }
+
+  /**
+   * Evaluate a query over the current JSON and describe its matches for the results list
+   */
+  private runQuery(
+    document: DucDocument,
+    query: string
+  ): Record<string, unknown> {
+    const language = detectQueryLanguage(query);
+    let matches: QueryMatch[];
+    try {
+      matches = evaluateQuery(document.jsonValue, query);
     } catch (error) {
-      const errorMessage = `Error processing DUC file: ${
-        (error as Error).message
-      }`;
-      console.error(errorMessage);
-      webviewPanel.webview.html = this.getErrorHtml(
-        webviewPanel.webview,
-        errorMessage
+      // Syntax errors point into the query, anything else is reported as a whole
+      return {
+        language,
+        error:
+          error instanceof JsonQueryError
+            ? { message: error.message, offset: error.offset }
+            : { message: (error as Error).message },
+      };
+    }
+    return {
+      language,
+      total: matches.length,
+      results: matches.slice(0, MAX_QUERY_RESULTS).map((match) => ({
+        path: match.path,
+        label: formatJsonPath(match.path),
+        preview: formatQueryPreview(match.value),
+      })),
+    };
+  }
+
+  /**
+   * Values matched by a query, or undefined after reporting an invalid query
+   */
+  private getQueryValues(
+    document: DucDocument,
+    query: string
+  ): unknown[] | undefined {
+    try {
+      return evaluateQuery(document.jsonValue, query).map(
+        (match) => match.value
       );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Invalid query: ${(error as Error).message}`
+      );
+      return undefined;
+    }
+  }
+
+  private async copyQueryResult(
+    document: DucDocument,
+    query: string
+  ): Promise<void> {
+    const values = this.getQueryValues(document, query);
+    if (!values) {
+      return;
     }
+    await vscode.env.clipboard.writeText(JSON.stringify(values, null, 2));
+    vscode.window.showInformationMessage(
+      `Copied ${values.length} ${values.length === 1 ? "match" : "matches"} as JSON.`
+    );
   }
 
-  private getLoadingHtml(): string {
+  /**
+   * Ask where to save the values matched by a query and write them as a JSON array
+   */
+  private async exportQueryResult(
+    document: DucDocument,
+    query: string
+  ): Promise<void> {
+    const values = this.getQueryValues(document, query);
+    if (!values) {
+      return;
+    }
+    const baseName = path.basename(document.uri.fsPath, ".duc");
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(
+        document.uri,
+        "..",
+        `${baseName}-query.json`
+      ),
+      filters: { JSON: ["json"] },
+      saveLabel: "Export",
+      title: `Export matches of ${query}`,
+    });
+    if (!target) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.writeFile(
+        target,
+        Buffer.from(JSON.stringify(values, null, 2), "utf8")
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to export query result: ${(error as Error).message}`
+      );
+      return;
+    }
+    const action = await vscode.window.showInformationMessage(
+      `Exported ${values.length} ${values.length === 1 ? "match" : "matches"} to ${path.basename(target.fsPath)}`,
+      "Open"
+    );
+    if (action === "Open") {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+
+  /**
+   * The view mode of a viewer: the one chosen for it, otherwise the tree for
+   * documents larger than the configured threshold
+   */
+  private getViewMode(
+    document: DucDocument,
+    webviewPanel: vscode.WebviewPanel
+  ): ViewMode {
+    const chosen = this._viewModes.get(webviewPanel);
+    if (chosen) {
+      return chosen;
+    }
+    const thresholdMB = vscode.workspace
+      .getConfiguration("ducPreview", document.uri)
+      .get<number>("treeView.thresholdMB", 20);
+    return thresholdMB > 0 &&
+      document.content.length > thresholdMB * 1024 * 1024
+      ? "tree"
+      : "text";
+  }
+
+  /**
+   * Whether the decoded JSON may be edited and saved back to the .duc file
+   */
+  private isEditingEnabled(document: DucDocument): boolean {
+    return vscode.workspace
+      .getConfiguration("ducPreview", document.uri)
+      .get<boolean>("editable", true);
+  }
+
+  /**
+   * Post a message announcing JSON content, then the content itself in chunks
+   * so that large documents don't travel as one huge message
+   */
+  private async postContent(
+    panel: vscode.WebviewPanel,
+    type: string,
+    content: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const transfer = this._nextContentTransfer++;
+    this.postMessage(panel, type, {
+      ...body,
+      transfer,
+      contentLength: content.length,
+    });
+    try {
+      for (let i = 0; i < content.length; i += CONTENT_CHUNK_SIZE) {
+        // One chunk at a time, leaving the host free to handle other work in between
+        await panel.webview.postMessage({
+          type: "contentChunk",
+          transfer,
+          chunk: content.slice(i, i + CONTENT_CHUNK_SIZE),
+        });
+      }
+    } catch {
+      // The viewer was closed while receiving the content
+    }
+  }
+
+  private postMessage(
+    panel: vscode.WebviewPanel,
+    type: string,
+    body: Record<string, unknown>
+  ): void {
+    panel.webview.postMessage({ type, ...body });
+  }
+
+  private getLoadingHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
     return `
         <!DOCTYPE html>
         <html>
         <head>
+            <meta http-equiv="Content-Security-Policy" content="
+                default-src 'none';
+                style-src ${webview.cspSource} 'unsafe-inline';
+                script-src 'nonce-${nonce}';
+            ">
             <style>
                 body {
                     display: flex;
@@ -124,20 +946,120 @@ export class DucViewerProvider
                 @keyframes spin {
                     to { transform: rotate(360deg); }
                 }
+                .progress {
+                    min-height: 1.4em;
+                    margin: 6px 0 12px;
+                    color: var(--vscode-descriptionForeground);
+                }
+                ${this.getButtonCss()}
             </style>
         </head>
         <body>
             <div class="loading">
                 <div class="spinner"></div>
                 <div>Converting DUC file to JSON...</div>
+                <div id="progress" class="progress"></div>
+                <button id="cancel" class="secondary">Cancel</button>
             </div>
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                document.getElementById('cancel').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'cancel' });
+                });
+                window.addEventListener('message', event => {
+                    if (event.data.type === 'progress') {
+                        document.getElementById('progress').textContent = event.data.message;
+                    }
+                });
+            </script>
         </body>
         </html>`;
   }
 
-  private getErrorHtml(webview: vscode.Webview, message: string): string {
+  private getCancelledHtml(webview: vscode.Webview, message: string): string {
+    const nonce = getNonce();
+
+    return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta http-equiv="Content-Security-Policy" content="
+                default-src 'none';
+                style-src ${webview.cspSource} 'unsafe-inline';
+                script-src 'nonce-${nonce}';
+            ">
+            <style>
+                body {
+                    display: flex;
+                    justify-content: center;
+                    align-items: center;
+                    height: 100vh;
+                    margin: 0;
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                }
+                .cancelled {
+                    text-align: center;
+                }
+                .cancelled-title {
+                    font-size: 18px;
+                    font-weight: bold;
+                    margin-bottom: 10px;
+                }
+                .cancelled-message {
+                    color: var(--vscode-descriptionForeground);
+                }
+                ${this.getButtonCss()}
+            </style>
+        </head>
+        <body>
+            <div class="cancelled">
+                <div class="cancelled-title">Conversion Cancelled</div>
+                <div class="cancelled-message">${this.escapeHtml(message)}</div>
+                <button id="retry">Retry</button>
+            </div>
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                document.getElementById('retry').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'retry' });
+                });
+            </script>
+        </body>
+        </html>`;
+  }
+
+  private getButtonCss(): string {
+    return `
+                button {
+                    margin-top: 20px;
+                    padding: 4px 14px;
+                    border: none;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-button-foreground);
+                    background-color: var(--vscode-button-background);
+                }
+                button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                button.secondary {
+                    color: var(--vscode-button-secondaryForeground);
+                    background-color: var(--vscode-button-secondaryBackground);
+                }
+                button.secondary:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }`;
+  }
+
+  private getErrorHtml(
+    webview: vscode.Webview,
+    message: string,
+    schemaLabel: string | undefined
+  ): string {
     const currentSchema =
-      this.customSchemaManager.getCurrentSchemaDisplayName();
+      schemaLabel ?? this.customSchemaManager.getCurrentSchemaDisplayName();
+    const nonce = getNonce();
 
     return `
         <!DOCTYPE html>
@@ -148,7 +1070,7 @@ export class DucViewerProvider
             <meta http-equiv="Content-Security-Policy" content="
                 default-src 'none';
                 style-src ${webview.cspSource} 'unsafe-inline';
-                script-src ${webview.cspSource} 'unsafe-inline';
+                script-src 'nonce-${nonce}';
             ">
             <style>
                 body {
@@ -209,6 +1131,7 @@ export class DucViewerProvider
                     font-family: var(--vscode-editor-font-family);
                     font-size: 12px;
                 }
+                ${this.getButtonCss()}
             </style>
         </head>
         <body>
@@ -218,15 +1141,24 @@ export class DucViewerProvider
                 
                 <div class="schema-info">
                     <div class="schema-label">Current Schema:</div>
-                    <div class="schema-current">${currentSchema}</div>
+                    <div class="schema-current">${this.escapeHtml(currentSchema)}</div>
                 </div>
 
                 <div class="help-text">
-                    Try using a custom schema if the default doesn't match your file format:<br>
+                    Register schemas for older format versions in the <span class="command-hint">ducPreview.schemaRegistry</span> setting,
+                    or try using a custom schema if the default doesn't match your file format:<br>
                     • Command Palette → <span class="command-hint">Duc: Select Custom FlatBuffers Schema (.fbs)</span><br>
                     • Or use: <span class="command-hint">Duc: Clear Custom Schema (Use Default)</span>
                 </div>
+
+                <button id="validate" title="List the problems of the buffer in the Problems panel">Validate File</button>
             </div>
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                document.getElementById('validate').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'validate' });
+                });
+            </script>
         </body>
         </html>`;
   }
@@ -242,12 +1174,10 @@ export class DucViewerProvider
     return text.replace(/[&<>"']/g, (m) => map[m]);
   }
 
-  private getMonacoEditorHtml(
-    webview: vscode.Webview,
-    jsonData: string
-  ): string {
+  private getMonacoEditorHtml(webview: vscode.Webview): string {
     // Get a reference to the VS Code webview origin
     const cspSource = webview.cspSource;
+    const nonce = getNonce();
 
     // Create a URI to the monaco editor resources
     const monacoBase = webview.asWebviewUri(
@@ -259,6 +1189,11 @@ export class DucViewerProvider
       )
     );
 
+    // Script that drives the editor inside the webview
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, "media", "ducViewer.js")
+    );
+
     return `
         <!DOCTYPE html>
         <html>
@@ -268,7 +1203,7 @@ export class DucViewerProvider
             <meta http-equiv="Content-Security-Policy" content="
                 default-src 'none';
                 style-src ${cspSource} 'unsafe-inline';
-                script-src ${cspSource} 'unsafe-inline';
+                script-src ${cspSource} 'nonce-${nonce}';
                 font-src ${cspSource};
                 worker-src blob:;
                 connect-src ${cspSource} https:;
@@ -278,369 +1213,852 @@ export class DucViewerProvider
                 body {
                     margin: 0;
                     padding: 0;
-                    width: 100%;
-                    height: 100vh;
-                    overflow: hidden;
+                    width: 100%;
+                    height: 100vh;
+                    overflow: hidden;
+                    display: flex;
+                    flex-direction: column;
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                }
+                #load-progress {
+                    padding: 4px 8px;
+                    color: var(--vscode-descriptionForeground);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                #load-progress[hidden] {
+                    display: none;
+                }
+                #load-progress-bar {
+                    height: 2px;
+                    width: 0;
+                    margin-bottom: 4px;
+                    background-color: var(--vscode-progressBar-background);
+                }
+                #panes {
+                    display: flex;
+                    flex: 1;
+                    min-height: 0;
+                }
+                #editor {
+                    flex: 1;
+                    min-width: 0;
+                }
+                #editor[hidden], #tree[hidden] {
+                    display: none;
+                }
+                #tree {
+                    position: relative;
+                    flex: 1;
+                    min-width: 0;
+                    overflow-y: auto;
+                    outline: none;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+                #tree-rows {
+                    position: absolute;
+                    left: 0;
+                    right: 0;
+                    overflow: hidden;
+                }
+                .tree-row {
+                    height: 22px;
+                    line-height: 22px;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    cursor: pointer;
+                }
+                .tree-row:hover {
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+                .tree-row.selected {
+                    color: var(--vscode-list-activeSelectionForeground);
+                    background-color: var(--vscode-list-activeSelectionBackground);
+                }
+                .tree-twisty {
+                    display: inline-block;
+                    width: 16px;
+                    text-align: center;
+                }
+                .tree-key {
+                    color: var(--vscode-debugTokenExpression-name);
+                }
+                .tree-value.type-string {
+                    color: var(--vscode-debugTokenExpression-string);
+                }
+                .tree-value.type-number {
+                    color: var(--vscode-debugTokenExpression-number);
+                }
+                .tree-value.type-boolean, .tree-value.type-null {
+                    color: var(--vscode-debugTokenExpression-boolean);
+                }
+                .tree-value.type-object, .tree-value.type-array, .tree-more {
+                    color: var(--vscode-descriptionForeground);
+                }
+                #hex-view {
+                    display: flex;
+                    flex-direction: column;
+                    /* Offsets, 16 bytes and their characters */
+                    flex: 0 0 calc(70ch + 32px);
+                    border-left: 1px solid var(--vscode-panel-border);
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+                #hex-view[hidden] {
+                    display: none;
+                }
+                #hex-status {
+                    padding: 2px 8px;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    color: var(--vscode-descriptionForeground);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                #hex-scroll {
+                    position: relative;
+                    flex: 1;
+                    overflow-y: auto;
+                    overflow-x: hidden;
+                }
+                #hex-rows {
+                    position: absolute;
+                    left: 0;
+                    right: 0;
+                }
+                .hex-row {
+                    height: 18px;
+                    line-height: 18px;
+                    padding: 0 8px;
+                    white-space: pre;
+                }
+                .hex-offset, .hex-ascii {
+                    color: var(--vscode-descriptionForeground);
+                }
+                .hex-byte {
+                    display: inline-block;
+                    width: 2.6ch;
+                    text-align: center;
+                    cursor: pointer;
+                }
+                .hex-byte.kind-header { background-color: color-mix(in srgb, var(--vscode-charts-red) 30%, transparent); }
+                .hex-byte.kind-vtable { background-color: color-mix(in srgb, var(--vscode-charts-purple) 30%, transparent); }
+                .hex-byte.kind-table { background-color: color-mix(in srgb, var(--vscode-charts-blue) 25%, transparent); }
+                .hex-byte.kind-field { background-color: color-mix(in srgb, var(--vscode-charts-blue) 45%, transparent); }
+                .hex-byte.kind-struct { background-color: color-mix(in srgb, var(--vscode-charts-yellow) 35%, transparent); }
+                .hex-byte.kind-vector { background-color: color-mix(in srgb, var(--vscode-charts-green) 30%, transparent); }
+                .hex-byte.kind-string { background-color: color-mix(in srgb, var(--vscode-charts-orange) 30%, transparent); }
+                .hex-byte.selected {
+                    outline: 1px solid var(--vscode-focusBorder);
+                    outline-offset: -1px;
+                    color: var(--vscode-list-activeSelectionForeground);
+                    background-color: var(--vscode-list-activeSelectionBackground);
+                }
+                #hex-legend {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    padding: 2px 8px;
+                    border-top: 1px solid var(--vscode-panel-border);
+                }
+                #hex-legend .hex-byte {
+                    width: auto;
+                    padding: 0 4px;
+                    cursor: default;
+                }
+                .duc-highlight {
+                    background-color: var(--vscode-editor-findMatchHighlightBackground);
+                }
+                #query-bar {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    padding: 4px 8px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                #query-input {
+                    flex: 1;
+                    min-width: 0;
+                    padding: 3px 6px;
+                    font-family: var(--vscode-editor-font-family);
+                    color: var(--vscode-input-foreground);
+                    background-color: var(--vscode-input-background);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    border-radius: 2px;
+                    outline: none;
+                }
+                #query-input:focus {
+                    border-color: var(--vscode-focusBorder);
+                }
+                #query-input.invalid {
+                    border-color: var(--vscode-inputValidation-errorBorder);
+                }
+                #query-status {
+                    white-space: nowrap;
+                    color: var(--vscode-descriptionForeground);
+                }
+                #schema-label {
+                    max-width: 30%;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    padding-left: 6px;
+                    border-left: 1px solid var(--vscode-panel-border);
+                    color: var(--vscode-descriptionForeground);
+                }
+                #query-status.error {
+                    color: var(--vscode-errorForeground);
+                }
+                #query-bar button {
+                    padding: 3px 10px;
+                    border: none;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-button-secondaryForeground);
+                    background-color: var(--vscode-button-secondaryBackground);
+                }
+                #query-bar button:hover:not(:disabled) {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+                #query-bar button.active {
+                    color: var(--vscode-button-foreground);
+                    background-color: var(--vscode-button-background);
+                }
+                #query-bar button:disabled {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+                #query-results {
+                    max-height: 30vh;
+                    overflow-y: auto;
+                    margin: 0;
+                    padding: 0;
+                    list-style: none;
+                    border-bottom: 1px solid var(--vscode-panel-border);
                 }
-                #editor {
-                    width: 100%;
-                    height: 100%;
+                #query-results li {
+                    display: flex;
+                    gap: 12px;
+                    padding: 2px 8px;
+                    cursor: pointer;
+                    white-space: nowrap;
+                    font-family: var(--vscode-editor-font-family);
+                }
+                #query-results li:hover {
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+                #query-results li:focus {
+                    outline: 1px solid var(--vscode-focusBorder);
+                    outline-offset: -1px;
+                    background-color: var(--vscode-list-activeSelectionBackground);
+                    color: var(--vscode-list-activeSelectionForeground);
+                }
+                #query-results .preview {
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    color: var(--vscode-descriptionForeground);
                 }
             </style>
         </head>
         <body>
-            <div id="editor"></div>
-            
-            <script src="${monacoBase}/vs/loader.js"></script>
-            <script>
-                const vscode = acquireVsCodeApi();
+            <div id="query-bar">
+                <input id="query-input" type="text" spellcheck="false"
+                    placeholder="Query with JSONPath, e.g. $.elements[?(@.type == 'text')], or jq, e.g. .elements[] | select(.type == &quot;text&quot;)">
+                <span id="query-status"></span>
+                <button id="query-copy" disabled title="Copy the matched values as a JSON array">Copy</button>
+                <button id="query-export" disabled title="Save the matched values as a JSON array">Export...</button>
+                <button id="mode-toggle"></button>
+                <button id="view-toggle" title="Show the bytes of the file next to the JSON">Hex</button>
+                <span id="schema-label" title="Schema used to decode this file"></span>
+            </div>
+            <ul id="query-results" hidden></ul>
+            <div id="load-progress" hidden>
+                <div id="load-progress-bar"></div>
+                <span id="load-progress-label"></span>
+            </div>
+            <div id="panes">
+                <div id="editor"></div>
+                <div id="tree" tabindex="0" hidden><div id="tree-spacer"></div><div id="tree-rows"></div></div>
+                <div id="hex-view" hidden>
+                    <div id="hex-status"></div>
+                    <div id="hex-scroll"><div id="hex-spacer"></div><div id="hex-rows"></div></div>
+                    <div id="hex-legend">
+                        <span class="hex-byte kind-header">header</span>
+                        <span class="hex-byte kind-vtable">vtable</span>
+                        <span class="hex-byte kind-table">table</span>
+                        <span class="hex-byte kind-field">field</span>
+                        <span class="hex-byte kind-struct">struct</span>
+                        <span class="hex-byte kind-vector">vector</span>
+                        <span class="hex-byte kind-string">string</span>
+                    </div>
+                </div>
+            </div>
 
+            <script nonce="${nonce}" src="${monacoBase}/vs/loader.js"></script>
+            <script nonce="${nonce}">
                 // Configure loader to use monaco
                 require.config({ paths: { vs: '${monacoBase}/vs' } });
-                
-                // Load the editor
-                require(['vs/editor/editor.main'], function() {
-                    // Determine the current theme
-                    const currentTheme = document.body.classList.contains('vscode-dark') ? 'vs-dark' : 
-                                       document.body.classList.contains('vscode-high-contrast') ? 'hc-black' : 'vs';
-                    monaco.editor.setTheme(currentTheme);
-                    
-                    const editor = monaco.editor.create(document.getElementById('editor'), {
-                        value: ${JSON.stringify(jsonData)},
-                        language: 'json',
-                        readOnly: true,
-                        automaticLayout: true,
-                        minimap: { enabled: true },
-
-                        /* --------------- keep long strings on one visual line -------------- */
-                        wordWrap: 'off',          // don’t wrap under normal conditions
-                        wordWrapMinified: false,  // <-- turn OFF the “force wrap if file looks
-                                                //      minified or line > 10 k chars” heuristic
-                        wordWrapOverride1: 'off', // also disable the two override layers
-                        wordWrapOverride2: 'off',
-
-                        // This is the key to preventing freezes. It stops rendering the line after a
-                        // certain number of characters, but crucially, the line itself is NOT wrapped.
-                        stopRenderingLineAfter: 5000,
-                        largeFileOptimizations: false,// don’t switch features off for big files
-                        /* ------------------------------------------------------------------- */
-
-                        scrollbar: {
-                            horizontal: 'visible',
-                            vertical: 'auto'
-                        },
-                        renderWhitespace: 'selection',
-                        renderControlCharacters: true,
-                        folding: true,
-                        scrollBeyondLastLine: false
-                    });
-                    
-                    // Format the document when editor is loaded
-                    setTimeout(() => {
-                        editor.getAction('editor.action.formatDocument').run();
-                    }, 100);
-                    
-                    // Handle window resize
-                    window.addEventListener('resize', function() {
-                        editor.layout();
-                    });
-                    
-                    // Custom JSON formatting for binary data
-                    const formatBinaryData = (jsonString) => {
-                        return jsonString.replace(
-                            /"__binary_data":\s*true,\s*"__base64":\s*"([^"]+)",\s*"__original_length":\s*(\d+),\s*"__field_path":\s*"([^"]+)",\s*"__preview":\s*"([^"]+)"/g,
-                            '"__binary_data": true, "__base64": "$1", "__original_length": $2, "__field_path": "$3", "__preview": "$4"'
-                        );
-                    };
-                    
-                    // Apply custom formatting
-                    const formattedValue = formatBinaryData(editor.getValue());
-                    if (formattedValue !== editor.getValue()) {
-                        editor.setValue(formattedValue);
-                    }
-                    
-                });
             </script>
+            <script nonce="${nonce}" src="${scriptUri}"></script>
         </body>
         </html>`;
   }
 }
 
+/**
+ * Single line preview of a query match
+ */
+function formatQueryPreview(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > QUERY_PREVIEW_LENGTH
+    ? `${text.slice(0, QUERY_PREVIEW_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Tracks the webview panels opened for each document
+ */
+class WebviewCollection {
+  private readonly _webviews = new Set<{
+    readonly resource: string;
+    readonly webviewPanel: vscode.WebviewPanel;
+  }>();
+
+  /**
+   * Get all known webviews for a given uri
+   */
+  public *get(uri: vscode.Uri): Iterable<vscode.WebviewPanel> {
+    const key = uri.toString();
+    for (const entry of this._webviews) {
+      if (entry.resource === key) {
+        yield entry.webviewPanel;
+      }
+    }
+  }
+
+  /**
+   * Add a new webview to the collection
+   */
+  public add(uri: vscode.Uri, webviewPanel: vscode.WebviewPanel) {
+    const entry = { resource: uri.toString(), webviewPanel };
+    this._webviews.add(entry);
+
+    webviewPanel.onDidDispose(() => {
+      this._webviews.delete(entry);
+    });
+  }
+}
+
 /**
  * Class representing a DUC document
  */
-class DucDocument implements vscode.CustomDocument {
-  private _flatcManager: FlatcManager;
-  private _customSchemaManager: CustomSchemaManager;
-  private _schemaParser: SchemaParser;
+export class DucDocument extends Disposable implements vscode.CustomDocument {
+  static async create(
+    uri: vscode.Uri,
+    backupId: string | undefined,
+    context: vscode.ExtensionContext
+  ): Promise<DucDocument> {
+    // If we have a backup, read that. Otherwise read the resource from the workspace
+    const fileData = await vscode.workspace.fs.readFile(uri);
+    let backupContent: string | undefined;
+    if (typeof backupId === "string") {
+      const backupData = await vscode.workspace.fs.readFile(
+        vscode.Uri.parse(backupId)
+      );
+      backupContent = Buffer.from(backupData).toString("utf8");
+    }
+    return new DucDocument(uri, fileData, backupContent, context);
+  }
+
+  private _converter: DucConverter;
+
+  private _content: string | undefined;
+  private _parsedContent: { content: string; value: unknown } | undefined;
+  private _schemaContent: string | undefined;
+  private _schemaPath: string | undefined;
+  private _schemaIncludes: IncludedSchema[] = [];
+  private _schemaLabel: string | undefined;
+  private _binaryFields: { value: unknown; blobs: BlobInfo[] } | undefined;
+  private _bufferLayout:
+    | {
+        fileData: Uint8Array;
+        schemaContent: string;
+        layout: Promise<{ fileData: Uint8Array; index: BufferLayoutIndex }>;
+      }
+    | undefined;
+  private _edits: DucEdit[] = [];
+  private _savedEdits: DucEdit[] = [];
+  /** Increased by reloads from disk, which the undo and redo of older edits must not cross */
+  private _generation = 0;
+  private _reloadTimer: ReturnType<typeof setTimeout> | undefined;
 
-  constructor(
+  private constructor(
     private _uri: vscode.Uri,
     private _fileData: Uint8Array,
+    private _backupContent: string | undefined,
     private _context: vscode.ExtensionContext
   ) {
-    this._flatcManager = FlatcManager.getInstance(_context);
-    this._customSchemaManager = CustomSchemaManager.getInstance(_context);
-    this._schemaParser = SchemaParser.getInstance();
+    super();
+    this._converter = DucConverter.getInstance(_context);
+    this.watchForChanges();
   }
 
   public get uri() {
     return this._uri;
   }
 
-  public async getJsonContent(): Promise<string> {
-    return vscode.window.withProgress(
-      {
-        location: vscode.ProgressLocation.Notification,
-        title: "Processing DUC File",
-        cancellable: false, // Consider cancellable if feasible later
-      },
-      async (progress) => {
-        progress.report({ message: "Starting conversion..." });
-        return this.convertDucToJson(this._fileData, progress);
-      }
-    );
+  /**
+   * The current (possibly edited) JSON text of the document
+   */
+  public get content(): string {
+    return this._content ?? "";
   }
 
   /**
-   * Recursively encode binary fields as Base64 based on schema analysis
+   * Schema text the document was decoded with, once it has been loaded
    */
-  private encodeBinaryFields(obj: any, path: string = ""): void {
-    if (!obj || typeof obj !== "object") {
-      return;
+  public get schemaContent(): string | undefined {
+    return this._schemaContent;
+  }
+
+  /**
+   * File of the schema the document was decoded with, undefined for the embedded schema
+   */
+  public get schemaPath(): string | undefined {
+    return this._schemaPath;
+  }
+
+  /**
+   * Files included by the schema the document was decoded with
+   */
+  public get schemaIncludes(): IncludedSchema[] {
+    return this._schemaIncludes;
+  }
+
+  /**
+   * Which schema the document is decoded with and why, once one has been chosen
+   */
+  public get schemaLabel(): string | undefined {
+    return this._schemaLabel;
+  }
+
+  /**
+   * Bytes of the file as last read or saved, without unsaved edits
+   */
+  public get fileData(): Uint8Array {
+    return this._fileData;
+  }
+
+  /**
+   * Which bytes of the file belong to which table, vtable, vector or string,
+   * and the JSON node they are decoded to. Mapped in a worker on first use and
+   * again after the file or the schema changed.
+   */
+  public getBufferLayout(): Promise<{
+    fileData: Uint8Array;
+    index: BufferLayoutIndex;
+  }> {
+    const schemaContent = this._schemaContent ?? DUC_SCHEMA;
+    if (
+      this._bufferLayout?.fileData !== this._fileData ||
+      this._bufferLayout.schemaContent !== schemaContent
+    ) {
+      const fileData = this._fileData;
+      this._bufferLayout = {
+        fileData,
+        schemaContent,
+        layout: this._converter
+          .mapBufferLayout(fileData, schemaContent, this._schemaIncludes)
+          .then((layout) => ({ fileData, index: new BufferLayoutIndex(layout) })),
+      };
     }
+    return this._bufferLayout.layout;
+  }
 
-    if (Array.isArray(obj)) {
-      // For arrays, check if the current path is a byte array field
-      if (this._schemaParser.shouldEncodeAsBase64(path)) {
-        if (obj.length > 0 && typeof obj[0] === "number") {
-          // This is a byte array, encode as Base64
-          const base64Data = Buffer.from(obj).toString("base64");
-          const originalLength = obj.length;
-          // Replace the entire array with the base64 string
-          obj.splice(0, obj.length, base64Data);
-          console.log(
-            `DUC Viewer: Encoded binary field at path: ${path}, length: ${originalLength}`
-          );
-        }
-      } else {
-        // Recursively process array elements
-        for (let i = 0; i < obj.length; i++) {
-          this.encodeBinaryFields(obj[i], `${path}[${i}]`);
-        }
-      }
-    } else {
-      // For objects, check each property
-      for (const [key, value] of Object.entries(obj)) {
-        const currentPath = path ? `${path}.${key}` : key;
-        console.debug(
-          `DUC Viewer: Checking object property path for base64 encoding: "${currentPath}"`
-        );
 
-        if (this._schemaParser.shouldEncodeAsBase64(currentPath)) {
-          console.debug(
-            `DUC Viewer: Path "${currentPath}" should be encoded as base64`
-          );
-          if (
-            Array.isArray(value) &&
-            value.length > 0 &&
-            typeof value[0] === "number"
-          ) {
-            // This is a byte array field, encode as Base64
-            const base64Data = Buffer.from(value).toString("base64");
-            const originalLength = value.length;
-            // Replace the array with the base64 string
-            obj[key] = base64Data;
-            console.log(
-              `DUC Viewer: Encoded binary field at path: ${currentPath}, length: ${originalLength}`
-            );
-          }
-        } else {
-          // Recursively process nested objects
-          this.encodeBinaryFields(value, currentPath);
-        }
+  /**
+   * The current JSON parsed to a value.
+   *
+   * While the JSON is being edited into an invalid state, the last valid value is returned.
+   */
+  public get jsonValue(): unknown {
+    const content = this.content;
+    if (this._parsedContent?.content !== content) {
+      try {
+        this._parsedContent = { content, value: JSON.parse(content) };
+      } catch {
+        // Keep the last valid value
       }
     }
+    return this._parsedContent?.value;
+  }
+
+  /**
+   * The binary fields of the current JSON, with their detected content type
+   */
+  public get binaryFields(): BlobInfo[] {
+    const value = this.jsonValue;
+    if (!this._schemaContent || value === undefined) {
+      return [];
+    }
+    if (this._binaryFields?.value !== value) {
+      const paths = this._converter.findBinaryFields(
+        value,
+        this._schemaContent,
+        this._schemaIncludes
+      );
+      this._binaryFields = { value, blobs: describeBlobs(value, paths) };
+    }
+    return this._binaryFields.blobs;
   }
 
+  /**
+   * Bytes of the binary field at `path`, or undefined if there is none
+   */
+  public readBinaryField(path: JsonPath): Uint8Array | undefined {
+    return decodeBlob(getValueAtPath(this.jsonValue, path));
+  }
+
+  private readonly _onDidDispose = this._register(
+    new vscode.EventEmitter<void>()
+  );
+  /**
+   * Fired when the document is disposed of
+   */
+  public readonly onDidDispose = this._onDidDispose.event;
+
+  private readonly _onDidChangeDocument = this._register(
+    new vscode.EventEmitter<{ readonly content: string }>()
+  );
+  /**
+   * Fired to notify webviews that the document content has changed
+   */
+  public readonly onDidChangeContent = this._onDidChangeDocument.event;
+
+  private readonly _onDidReportProgress = this._register(
+    new vscode.EventEmitter<string>()
+  );
+  /**
+   * Fired with the steps of a conversion of the document, for display in its viewers
+   */
+  public readonly onDidReportProgress = this._onDidReportProgress.event;
+
+  private readonly _onDidChangeFileData = this._register(
+    new vscode.EventEmitter<void>()
+  );
+  /**
+   * Fired when the bytes of the file have changed, after a save, reload or revert
+   */
+  public readonly onDidChangeFileData = this._onDidChangeFileData.event;
+
+  private setFileData(fileData: Uint8Array): void {
+    this._fileData = fileData;
+    this._onDidChangeFileData.fire();
+  }
+
+  private readonly _onDidChange = this._register(
+    new vscode.EventEmitter<{
+      readonly label: string;
+      undo(): void;
+      redo(): void;
+    }>()
+  );
+  /**
+   * Fired to tell VS Code that an edit has occurred in the document.
+   *
+   * This updates the document's dirty indicator.
+   */
+  public readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * Called by VS Code when there are no more references to the document.
+   *
+   * This happens when all editors for it have been closed.
+   */
   dispose(): void {
-    // Nothing to dispose
+    clearTimeout(this._reloadTimer);
+    this._onDidDispose.fire();
+    super.dispose();
   }
 
   /**
-   * Convert DUC binary file to JSON using flatbuffers
+   * Whether there are edits that have not been saved
    */
-  private async convertDucToJson(
-    fileData: Uint8Array,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
-  ): Promise<string> {
+  public get isDirty(): boolean {
+    return (
+      this._edits.length !== this._savedEdits.length ||
+      this._edits.some((edit, i) => edit !== this._savedEdits[i])
+    );
+  }
+
+  /**
+   * Reload the document when the file is rewritten on disk, e.g. by other tools
+   */
+  private watchForChanges(): void {
+    const watcher = this._register(
+      vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.joinPath(this.uri, ".."),
+          path.posix.basename(this.uri.path)
+        ),
+        false,
+        false,
+        true
+      )
+    );
+    // Tools that write atomically replace the file, which shows up as a create
+    this._register(watcher.onDidCreate(() => this.scheduleReload()));
+    this._register(watcher.onDidChange(() => this.scheduleReload()));
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this._reloadTimer);
+    this._reloadTimer = setTimeout(() => {
+      this.reloadFromDisk().catch((error) =>
+        console.error("DUC Viewer: Failed to reload document", error)
+      );
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  private async reloadFromDisk(): Promise<void> {
+    const liveReload = vscode.workspace
+      .getConfiguration("ducPreview", this.uri)
+      .get<boolean>("liveReload", true);
+    if (!liveReload || this.isDisposed || this._content === undefined) {
+      return;
+    }
+
+    let fileData: Uint8Array;
     try {
-      const tempDir = os.tmpdir();
-      console.debug("DUC Viewer: Starting conversion to JSON");
-
-      // Try to get custom schema first, fall back to embedded schema
-      progress.report({ message: "Preparing DUC schema..." });
-      const schemaPath = path.join(tempDir, `duc_schema_${Date.now()}.fbs`);
-
-      const customSchemaContent =
-        await this._customSchemaManager.getCustomSchemaContent();
-      if (customSchemaContent) {
-        console.debug("DUC Viewer: Using custom schema");
-        fs.writeFileSync(schemaPath, customSchemaContent, "utf8");
-      } else {
-        console.debug("DUC Viewer: Using default embedded schema");
-        fs.writeFileSync(schemaPath, DUC_SCHEMA, "utf8");
-      }
-      console.debug("DUC Viewer: Schema prepared.");
-
-      progress.report({ message: "Preparing binary data..." });
-      const tempPath = path.join(tempDir, `duc_temp_${Date.now()}.duc`);
-      fs.writeFileSync(tempPath, fileData);
-      console.debug("DUC Viewer: Binary data prepared.");
-
-      progress.report({ message: "Locating flatc compiler..." });
-      const flatcPath = await this._flatcManager.getFlatcPath(); // This might trigger FlatcManager's own progress
-      console.debug(`DUC Viewer: flatc path: ${flatcPath}`);
-
-      progress.report({ message: "Executing flatc for JSON conversion..." });
-      console.debug("DUC Viewer: Executing flatc...");
-      // Execute flatc to convert binary to JSON
-      await execFile(flatcPath, [
-        "--json",
-        "--strict-json",
-        "--allow-non-utf8",
-        "--raw-binary",
-        "--no-warnings",
-        // '--defaults-json',
-        "-o",
-        tempDir,
-        schemaPath,
-        "--",
-        tempPath,
-      ]);
-      console.debug("DUC Viewer: flatc execution complete.");
-
-      progress.report({ message: "Reading converted JSON output..." });
-      const jsonFilePath = path.join(
-        tempDir,
-        path.basename(tempPath, ".duc") + ".json"
+      fileData = await vscode.workspace.fs.readFile(this.uri);
+    } catch {
+      // The file may be in the middle of being replaced, a later event will follow
+      return;
+    }
+    // Ignore our own saves and writes that did not change anything
+    if (Buffer.from(fileData).equals(Buffer.from(this._fileData))) {
+      return;
+    }
+
+    const fileName = path.posix.basename(this.uri.path);
+    if (this.isDirty) {
+      vscode.window.showWarningMessage(
+        `${fileName} changed on disk. Save to overwrite it, or use "File: Revert File" to load the new version.`
       );
-      const jsonContent = fs.readFileSync(jsonFilePath, "utf8");
-      console.debug("DUC Viewer: JSON content read.");
+      return;
+    }
 
-      progress.report({ message: "Cleaning up temporary files..." });
-      try {
-        fs.unlinkSync(schemaPath);
-      } catch (e: unknown) {
-        console.warn(
-          "DUC Viewer: Failed to delete temp schema",
-          (e as Error).message
-        );
-      }
-      try {
-        fs.unlinkSync(tempPath);
-      } catch (e: unknown) {
-        console.warn(
-          "DUC Viewer: Failed to delete temp duc file",
-          (e as Error).message
-        );
-      }
-      try {
-        fs.unlinkSync(jsonFilePath);
-      } catch (e: unknown) {
-        console.warn(
-          "DUC Viewer: Failed to delete temp json file",
-          (e as Error).message
+    this.setFileData(fileData);
+    try {
+      const jsonContent = await this.getJsonContent(
+        vscode.ProgressLocation.Window
+      );
+      // Undoing an edit made before the reload would bring back the old drawing
+      this._generation++;
+      this._edits = [];
+      this._savedEdits = [];
+      this.setContent(jsonContent);
+    } catch (error) {
+      if (error instanceof ConversionCancelledError) {
+        console.debug(
+          `DUC Viewer: Reload of ${fileName} stopped: ${error.message}`
         );
+        return;
       }
-      console.debug("DUC Viewer: Temporary files cleaned up.");
+      vscode.window.showErrorMessage(
+        `Failed to reload ${fileName}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Convert the binary data to JSON unless it has already been done
+   */
+  public async load(token?: vscode.CancellationToken): Promise<void> {
+    if (this._content !== undefined) {
+      return;
+    }
+    const jsonContent = await this.getJsonContent(
+      vscode.ProgressLocation.Notification,
+      token
+    );
+    this._content = this._backupContent ?? jsonContent;
+  }
 
-      progress.report({ message: "Finalizing JSON..." });
+  /**
+   * Called when the user edits the JSON in a webview.
+   *
+   * This fires an event to notify VS Code that the document has been edited.
+   */
+  public makeEdit(content: string): void {
+    const before = this.content;
+    if (content === before) {
+      return;
+    }
+    const edit: DucEdit = { before, after: content };
+    const generation = this._generation;
+    this._edits.push(edit);
+    this._content = content;
 
-      const parsedJson = JSON.parse(jsonContent);
+    this._onDidChange.fire({
+      label: "Edit",
+      undo: async () => {
+        if (generation !== this._generation) {
+          return;
+        }
+        this._edits.pop();
+        this.setContent(edit.before);
+      },
+      redo: async () => {
+        if (generation !== this._generation) {
+          return;
+        }
+        this._edits.push(edit);
+        this.setContent(edit.after);
+      },
+    });
+  }
 
-      // Parse schema to detect byte array fields
-      const schemaContent = customSchemaContent || DUC_SCHEMA;
-      this._schemaParser.parseSchema(schemaContent);
+  private setContent(content: string): void {
+    this._content = content;
+    this._onDidChangeDocument.fire({ content });
+  }
 
-      // Replace binary fields with base64 for human readability
-      if (parsedJson) {
-        this.encodeBinaryFields(parsedJson);
-      }
+  /**
+   * Called by VS Code when the user saves the document.
+   */
+  async save(cancellation: vscode.CancellationToken): Promise<void> {
+    await this.saveAs(this.uri, cancellation);
+    this._savedEdits = Array.from(this._edits);
+  }
 
-      return JSON.stringify(parsedJson, null, 2);
-    } catch (execError: unknown) {
-      // Cast to the expected error structure from child_process.execFile
-      const error = execError as Error & {
-        stderr?: Buffer | string;
-        stdout?: Buffer | string;
-        code?: number;
-        signal?: string;
-      };
+  /**
+   * Called by VS Code when the user saves the document to a new location.
+   */
+  async saveAs(
+    targetResource: vscode.Uri,
+    cancellation: vscode.CancellationToken
+  ): Promise<void> {
+    const fileData = await this._converter.convertJsonToDuc(
+      this.content,
+      {
+        content: this._schemaContent ?? DUC_SCHEMA,
+        path: this._schemaPath,
+        includes: this._schemaIncludes,
+      },
+      { uri: this.uri, token: cancellation }
+    );
+    // Fail rather than return, so `save` never marks unwritten content as saved
+    if (cancellation.isCancellationRequested) {
+      throw new vscode.CancellationError();
+    }
+    await vscode.workspace.fs.writeFile(targetResource, fileData);
+    if (targetResource.toString() === this.uri.toString()) {
+      this.setFileData(fileData);
+    }
+  }
 
-      // Default base message from the execFile error, typically includes the command
-      let detailedMessage =
-        error && typeof error.message === "string"
-          ? error.message
-          : "Failed to execute flatc command.";
+  /**
+   * Called by VS Code when the user calls `revert` on a document.
+   */
+  async revert(_cancellation: vscode.CancellationToken): Promise<void> {
+    this.setFileData(await vscode.workspace.fs.readFile(this.uri));
+    const jsonContent = await this.getJsonContent();
+    this._edits = Array.from(this._savedEdits);
+    this.setContent(jsonContent);
+  }
 
-      // Log the raw error object for extension developer's debugging console
-      console.error(
-        "DUC Viewer: Raw error object from flatc execution:",
-        execError
-      );
-      if (execError && typeof execError === "object") {
-        console.error(
-          "DUC Viewer: Keys of raw error object:",
-          Object.keys(execError)
-        );
-      }
+  /**
+   * Called by VS Code to backup the edited document.
+   *
+   * The edited JSON is backed up as-is so no conversion is needed on hot exit.
+   */
+  async backup(
+    destination: vscode.Uri,
+    _cancellation: vscode.CancellationToken
+  ): Promise<vscode.CustomDocumentBackup> {
+    await vscode.workspace.fs.writeFile(
+      destination,
+      Buffer.from(this.content, "utf8")
+    );
 
-      // Append Stderr information
-      if (error && typeof error.stderr !== "undefined") {
-        const stderrStr = Buffer.isBuffer(error.stderr)
-          ? error.stderr.toString().trim()
-          : String(error.stderr).trim();
-        detailedMessage += `\n\nStderr from flatc:\n${
-          stderrStr.length > 0 ? stderrStr : "(empty)"
-        }`;
-      } else {
-        detailedMessage +=
-          "\n\nStderr from flatc: (not available on error object)";
-      }
+    return {
+      id: destination.toString(),
+      delete: async () => {
+        try {
+          await vscode.workspace.fs.delete(destination);
+        } catch {
+          // noop
+        }
+      },
+    };
+  }
 
-      // Append Stdout information
-      if (error && typeof error.stdout !== "undefined") {
-        const stdoutStr = Buffer.isBuffer(error.stdout)
-          ? error.stdout.toString().trim()
-          : String(error.stdout).trim();
-        detailedMessage += `\n\nStdout from flatc:\n${
-          stdoutStr.length > 0 ? stdoutStr : "(empty)"
-        }`;
-      } else {
-        detailedMessage +=
-          "\n\nStdout from flatc: (not available on error object)";
-      }
+  public async getJsonContent(
+    location: vscode.ProgressLocation = vscode.ProgressLocation.Notification,
+    token?: vscode.CancellationToken
+  ): Promise<string> {
+    return vscode.window.withProgress(
+      {
+        location,
+        title: "Processing DUC File",
+        cancellable: true,
+      },
+      async (progress, progressToken) => {
+        // Cancel from either the progress notification or the editor
+        const cancellation = new vscode.CancellationTokenSource();
+        const listeners = [
+          progressToken.onCancellationRequested(() => cancellation.cancel()),
+        ];
+        if (token) {
+          listeners.push(
+            token.onCancellationRequested(() => cancellation.cancel())
+          );
+          if (token.isCancellationRequested) {
+            cancellation.cancel();
+          }
+        }
 
-      // Append exit code if available
-      if (error && typeof error.code === "number") {
-        detailedMessage += `\n\nExit code: ${error.code}`;
-      } else if (error && typeof error.code !== "undefined") {
-        detailedMessage += `\n\nExit code: ${
-          error.code
-        } (type: ${typeof error.code})`;
-      }
+        // Show the steps in the viewers as well
+        const reporter = {
+          report: (value: { message?: string; increment?: number }) => {
+            progress.report(value);
+            if (value.message) {
+              this._onDidReportProgress.fire(value.message);
+            }
+          },
+        };
 
-      // Append signal if available
-      if (error && typeof error.signal === "string") {
-        detailedMessage += `\n\nSignal: ${error.signal}`;
-      } else if (error && typeof error.signal !== "undefined") {
-        detailedMessage += `\n\nSignal: ${
-          error.signal
-        } (type: ${typeof error.signal})`;
+        try {
+          reporter.report({ message: "Starting conversion..." });
+          // Remember the schema before converting so errors can show it
+          const schema = await this._converter.selectSchema(
+            this._fileData,
+            this.uri
+          );
+          this._schemaLabel = schema.label;
+          const result = await this._converter.convertDucToJson(
+            this._fileData,
+            {
+              uri: this.uri,
+              progress: reporter,
+              token: cancellation.token,
+              schema,
+            }
+          );
+          this._schemaContent = result.schemaContent;
+          this._schemaPath = result.schemaPath;
+          this._schemaIncludes = result.schemaIncludes;
+          return result.json;
+        } finally {
+          disposeAll(listeners);
+          cancellation.dispose();
+        }
       }
-
-      throw new Error(detailedMessage);
-    }
+    );
   }
-}
\ No newline at end of file
+}
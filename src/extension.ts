@@ -3,6 +3,17 @@ import { DucViewerProvider } from './ducViewerEditor';
 import { FlatcManager } from './flatcManager';
 import { CustomSchemaManager } from './customSchemaManager';
 import { DucPreviewManager } from './ducPreviewManager';
+import { DucOutlineProvider } from './ducOutlineProvider';
+import { JsonPath } from './jsonPath';
+import { ConversionCache } from './conversionCache';
+import { DucCompareManager } from './ducCompareManager';
+import { DucJsonContentProvider } from './ducJsonContentProvider';
+import { DucJsonExporter } from './ducJsonExporter';
+import { DucJsonImporter } from './ducJsonImporter';
+import { DucSearchProvider } from './ducSearchProvider';
+import { SchemaInfoProvider } from './schemaInfoProvider';
+import { DucValidator } from './ducValidator';
+import { DucStatisticsManager } from './ducStatisticsManager';
 
 export function activate(context: vscode.ExtensionContext) {
 	// Initialize managers
@@ -10,7 +21,21 @@ export function activate(context: vscode.ExtensionContext) {
 	const customSchemaManager = CustomSchemaManager.getInstance(context);
 
 	// Register our custom editor provider
-	context.subscriptions.push(DucViewerProvider.register(context));
+	const ducViewerProvider = new DucViewerProvider(context);
+	context.subscriptions.push(DucViewerProvider.register(ducViewerProvider));
+
+	// Register the outline of the active DUC document
+	const ducOutlineProvider = new DucOutlineProvider(ducViewerProvider);
+	context.subscriptions.push(
+		ducOutlineProvider,
+		vscode.window.registerTreeDataProvider('ducPreview.outline', ducOutlineProvider),
+		vscode.commands.registerCommand('ducPreview.revealJsonPath', (path: JsonPath) => {
+			const document = ducViewerProvider.activeDocument ?? ducOutlineProvider.document;
+			if (document) {
+				ducViewerProvider.revealJsonPath(document, path);
+			}
+		})
+	);
 
 	// Register command to check for flatc
 	context.subscriptions.push(
@@ -39,8 +64,149 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Register command to tell which schema applies to a DUC file
+	const schemaInfoProvider = SchemaInfoProvider.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.showSchemaForFile', async (uri?: vscode.Uri) => {
+			const targetUri = uri ?? ducViewerProvider.activeDocument?.uri;
+			if (targetUri) {
+				await schemaInfoProvider.showSchemaForFile(targetUri);
+			} else {
+				vscode.window.showErrorMessage('No DUC file selected to show the schema for.');
+			}
+		})
+	);
+
+	// Register command to verify a DUC file and list its problems
+	const ducValidator = DucValidator.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.validateFile', async (uri?: vscode.Uri) => {
+			const targetUri = uri ?? ducViewerProvider.activeDocument?.uri;
+			if (targetUri) {
+				await ducValidator.validateFile(targetUri);
+			} else {
+				vscode.window.showErrorMessage('No DUC file selected to validate.');
+			}
+		})
+	);
+
+	// Register command to show the counts and sizes of a DUC file
+	const ducStatisticsManager = DucStatisticsManager.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.showStatistics', async (uri?: vscode.Uri) => {
+			const targetUri = uri ?? ducViewerProvider.activeDocument?.uri;
+			if (targetUri) {
+				await ducStatisticsManager.showStatistics(targetUri);
+			} else {
+				vscode.window.showErrorMessage('No DUC file selected to show statistics for.');
+			}
+		})
+	);
+
+	// Register command to clear the conversion cache
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.clearConversionCache', async () => {
+			try {
+				await ConversionCache.getInstance(context).clear();
+				vscode.window.showInformationMessage('Duc conversion cache cleared.');
+			} catch (err) {
+				vscode.window.showErrorMessage(`Failed to clear the conversion cache: ${(err as Error).message}`);
+			}
+		})
+	);
+
+	// Register command to compare two DUC files
+	const ducCompareManager = DucCompareManager.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.compareWith', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+			// Two files selected together in the explorer are compared with each other
+			if (uris && uris.length === 2) {
+				await ducCompareManager.compare(uris[0], uris[1]);
+				return;
+			}
+			const targetUri = uri ?? ducViewerProvider.activeDocument?.uri;
+			if (targetUri) {
+				await ducCompareManager.compareWith(targetUri);
+			} else {
+				vscode.window.showErrorMessage('No DUC file selected to compare.');
+			}
+		})
+	);
+
+	// Register decoded JSON diffs of .duc revisions for source control
+	const ducJsonContentProvider = DucJsonContentProvider.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.openJsonChanges', async (...args: unknown[]) => {
+			// Invoked with the selected resource states from the Source Control view,
+			// or with a file from the Explorer or the Duc Viewer title bar
+			let states = args.filter((arg): arg is vscode.SourceControlResourceState =>
+				!!arg && (arg as vscode.SourceControlResourceState).resourceUri instanceof vscode.Uri);
+			if (states.length === 0) {
+				const uri = args[0] instanceof vscode.Uri ? args[0] : ducViewerProvider.activeDocument?.uri;
+				states = uri ? [{ resourceUri: uri }] : [];
+			}
+			if (states.length > 0) {
+				await ducJsonContentProvider.openScmChanges(states, false);
+			} else {
+				vscode.window.showErrorMessage('No DUC file selected to show changes for.');
+			}
+		}),
+		vscode.commands.registerCommand('ducPreview.openStagedJsonChanges', async (...states: vscode.SourceControlResourceState[]) => {
+			await ducJsonContentProvider.openScmChanges(states.filter(state => state?.resourceUri), true);
+		})
+	);
+
+	// Register command to export a DUC file as JSON
+	const ducJsonExporter = DucJsonExporter.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.exportJson', async (uri?: vscode.Uri) => {
+			const document = ducViewerProvider.activeDocument;
+			const targetUri = uri ?? document?.uri;
+			if (!targetUri) {
+				vscode.window.showErrorMessage('No DUC file selected to export.');
+				return;
+			}
+			// Export unsaved edits of the open document rather than the file on disk
+			const unsaved = document && document.isDirty && document.schemaContent
+				&& document.uri.toString() === targetUri.toString()
+				? { json: document.content, schemaContent: document.schemaContent, schemaIncludes: document.schemaIncludes }
+				: undefined;
+			await ducJsonExporter.exportFile(targetUri, unsaved);
+		})
+	);
+
+	// Register command to compile a JSON file into a DUC file
+	const ducJsonImporter = DucJsonImporter.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.createDucFromJson', async (uri?: vscode.Uri) => {
+			const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+			if (targetUri) {
+				await ducJsonImporter.createDuc(targetUri);
+			} else {
+				vscode.window.showErrorMessage('No JSON file selected to create a DUC file from.');
+			}
+		})
+	);
+
+	// Register the search over the decoded content of all workspace DUC files
+	const ducSearchProvider = DucSearchProvider.getInstance(context);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('ducPreview.searchInFiles', async () => {
+			await ducSearchProvider.search();
+		}),
+		vscode.commands.registerCommand('ducPreview.refreshSearchResults', async () => {
+			await ducSearchProvider.refresh();
+		}),
+		vscode.commands.registerCommand('ducPreview.clearSearchResults', () => {
+			ducSearchProvider.clear();
+		}),
+		vscode.commands.registerCommand('ducPreview.openSearchResult', async (uri: vscode.Uri, path: JsonPath) => {
+			await ducViewerProvider.openAtPath(uri, path);
+		})
+	);
+
 	// Register command to open webview preview
-	const ducPreviewManager = DucPreviewManager.getInstance(context);
+	const ducPreviewManager = DucPreviewManager.getInstance(context, ducViewerProvider);
 	context.subscriptions.push(
 		vscode.commands.registerCommand('ducPreview.openWebviewPreview', async (uri: vscode.Uri) => {
 			// If uri is undefined (e.g. invoked from command palette without context), we can't easily get the active custom editor in stable API
@@ -0,0 +1,473 @@
+/**
+ * Tokenizer and parser for FlatBuffers schema (.fbs) files, producing a typed
+ * syntax tree with doc comments and source locations
+ */
+
+/**
+ * 1-based position in the schema text
+ */
+export interface FbsLocation {
+    line: number;
+    column: number;
+}
+
+export type FbsAttributeValue = string | number | true;
+
+/**
+ * Reference to a type as written in the schema, e.g. `[Point]` or `[ubyte:16]`
+ */
+export interface FbsTypeRef {
+    name: string;
+    /** `[T]` */
+    vector: boolean;
+    /** Length of a fixed size array `[T:n]` */
+    arrayLength?: number;
+    location: FbsLocation;
+}
+
+interface FbsNode {
+    name: string;
+    attributes: Map<string, FbsAttributeValue>;
+    /** Lines of the `///` comments preceding the declaration */
+    doc: string[];
+    location: FbsLocation;
+}
+
+export interface FbsField extends FbsNode {
+    type: FbsTypeRef;
+    /** Default value as written, e.g. `0.5`, `true` or an enum value name */
+    defaultValue?: string;
+}
+
+export interface FbsObject extends FbsNode {
+    kind: 'table' | 'struct';
+    namespace: string;
+    fields: FbsField[];
+}
+
+export interface FbsEnumValue extends FbsNode {
+    /** Member type of a union value */
+    typeName?: string;
+    /** Explicit value as written */
+    value?: string;
+}
+
+export interface FbsEnum extends FbsNode {
+    kind: 'enum' | 'union';
+    namespace: string;
+    /** Underlying integer type of an enum */
+    underlyingType?: string;
+    values: FbsEnumValue[];
+}
+
+export type FbsDeclaration = FbsObject | FbsEnum;
+
+export interface FbsInclude {
+    path: string;
+    location: FbsLocation;
+}
+
+export interface FbsSchema {
+    includes: FbsInclude[];
+    /** Names declared with `attribute` */
+    attributes: string[];
+    declarations: FbsDeclaration[];
+    rootType?: { name: string; namespace: string; location: FbsLocation };
+    fileIdentifier?: string;
+    fileExtension?: string;
+}
+
+/**
+ * Raised for text that is not a valid schema
+ */
+export class FbsSyntaxError extends Error {
+    constructor(message: string, public readonly location: FbsLocation) {
+        super(`${message} on line ${location.line}`);
+    }
+}
+
+export type FbsTokenKind = 'ident' | 'number' | 'string' | 'punct' | 'eof';
+
+export interface FbsToken {
+    kind: FbsTokenKind;
+    text: string;
+    location: FbsLocation;
+    /** `///` comment lines directly preceding the token */
+    doc?: string[];
+}
+
+/**
+ * Split schema text into tokens, skipping whitespace and comments.
+ *
+ * Doc comments are attached to the token that follows them.
+ */
+export function tokenizeFbs(text: string): FbsToken[] {
+    const tokens: FbsToken[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let i = 0;
+    let doc: string[] = [];
+
+    const location = (): FbsLocation => ({ line, column: i - lineStart + 1 });
+    const push = (kind: FbsTokenKind, tokenText: string, at: FbsLocation) => {
+        tokens.push(doc.length > 0 ? { kind, text: tokenText, location: at, doc } : { kind, text: tokenText, location: at });
+        doc = [];
+    };
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '\n') {
+            i++;
+            line++;
+            lineStart = i;
+        } else if (/\s/.test(ch)) {
+            i++;
+        } else if (text.startsWith('//', i)) {
+            const end = text.indexOf('\n', i);
+            const comment = text.slice(i, end === -1 ? text.length : end);
+            if (comment.startsWith('///') && !comment.startsWith('////')) {
+                doc.push(comment.slice(3).replace(/^ /, '').trimEnd());
+            }
+            i += comment.length;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            for (; i < stop; i++) {
+                if (text[i] === '\n') {
+                    line++;
+                    lineStart = i + 1;
+                }
+            }
+        } else if (ch === '"') {
+            const at = location();
+            let value = '';
+            i++;
+            while (i < text.length && text[i] !== '"' && text[i] !== '\n') {
+                if (text[i] === '\\' && i + 1 < text.length) {
+                    i++;
+                }
+                value += text[i++];
+            }
+            if (text[i] !== '"') {
+                throw new FbsSyntaxError('Unterminated string literal', at);
+            }
+            i++;
+            push('string', value, at);
+        } else if (/[0-9+-]/.test(ch) || (ch === '.' && /[0-9]/.test(text[i + 1] ?? ''))) {
+            const at = location();
+            const match = /^[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|inf(?:inity)?|nan)/.exec(text.slice(i, i + 64));
+            if (!match) {
+                throw new FbsSyntaxError(`Unexpected character '${ch}'`, at);
+            }
+            i += match[0].length;
+            push('number', match[0], at);
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const at = location();
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i, i + 256))!;
+            i += match[0].length;
+            push('ident', match[0], at);
+        } else if ('{}()[]:;,=.'.includes(ch)) {
+            const at = location();
+            i++;
+            push('punct', ch, at);
+        } else {
+            throw new FbsSyntaxError(`Unexpected character '${ch}'`, location());
+        }
+    }
+
+    tokens.push({ kind: 'eof', text: '', location: location() });
+    return tokens;
+}
+
+/**
+ * Recursive descent parser over the tokens of one schema file
+ */
+class FbsParser {
+    private pos = 0;
+    private namespace = '';
+    private readonly schema: FbsSchema = { includes: [], attributes: [], declarations: [] };
+
+    constructor(private readonly tokens: FbsToken[]) {}
+
+    public parse(): FbsSchema {
+        while (this.peek().kind !== 'eof') {
+            this.parseDeclaration();
+        }
+        return this.schema;
+    }
+
+    private peek(): FbsToken {
+        return this.tokens[this.pos];
+    }
+
+    private next(): FbsToken {
+        const token = this.tokens[this.pos];
+        if (token.kind !== 'eof') {
+            this.pos++;
+        }
+        return token;
+    }
+
+    private isPunct(text: string): boolean {
+        const token = this.peek();
+        return token.kind === 'punct' && token.text === text;
+    }
+
+    private accept(text: string): boolean {
+        if (this.isPunct(text)) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private fail(expected: string, token: FbsToken): never {
+        throw new FbsSyntaxError(`Expected ${expected} but found '${token.text || 'end of file'}'`, token.location);
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) {
+            this.fail(`'${text}'`, this.peek());
+        }
+    }
+
+    private expectIdent(): FbsToken {
+        const token = this.next();
+        if (token.kind !== 'ident') {
+            this.fail('identifier', token);
+        }
+        return token;
+    }
+
+    private expectString(): string {
+        const token = this.next();
+        if (token.kind !== 'string') {
+            this.fail('string literal', token);
+        }
+        return token.text;
+    }
+
+    private parseQualifiedName(): string {
+        let name = this.expectIdent().text;
+        while (this.accept('.')) {
+            name += '.' + this.expectIdent().text;
+        }
+        return name;
+    }
+
+    private parseDeclaration(): void {
+        const token = this.peek();
+
+        if (token.kind === 'punct' && token.text === '{') {
+            // flatc allows JSON data after the schema, which we don't need
+            this.skipBlock();
+            return;
+        }
+
+        const keyword = this.expectIdent().text;
+        switch (keyword) {
+            case 'include':
+                this.schema.includes.push({ path: this.expectString(), location: token.location });
+                this.expect(';');
+                break;
+            case 'native_include':
+                this.expectString();
+                this.expect(';');
+                break;
+            case 'namespace':
+                this.namespace = this.isPunct(';') ? '' : this.parseQualifiedName();
+                this.expect(';');
+                break;
+            case 'attribute':
+                this.schema.attributes.push(this.peek().kind === 'string' ? this.expectString() : this.expectIdent().text);
+                this.expect(';');
+                break;
+            case 'root_type':
+                this.schema.rootType = { name: this.parseQualifiedName(), namespace: this.namespace, location: token.location };
+                this.expect(';');
+                break;
+            case 'file_identifier':
+                this.schema.fileIdentifier = this.expectString();
+                this.expect(';');
+                break;
+            case 'file_extension':
+                this.schema.fileExtension = this.expectString();
+                this.expect(';');
+                break;
+            case 'table':
+            case 'struct':
+                this.schema.declarations.push(this.parseObject(keyword, token.doc ?? []));
+                break;
+            case 'enum':
+            case 'union':
+                this.schema.declarations.push(this.parseEnum(keyword, token.doc ?? []));
+                break;
+            case 'rpc_service':
+                this.expectIdent();
+                this.skipBlock();
+                break;
+            default:
+                throw new FbsSyntaxError(`Unexpected '${keyword}'`, token.location);
+        }
+    }
+
+    private skipBlock(): void {
+        this.expect('{');
+        let depth = 1;
+        while (depth > 0) {
+            const token = this.next();
+            if (token.kind === 'eof') {
+                throw new FbsSyntaxError('Unterminated block at end of file', token.location);
+            }
+            if (token.kind === 'punct' && token.text === '{') {
+                depth++;
+            } else if (token.kind === 'punct' && token.text === '}') {
+                depth--;
+            }
+        }
+    }
+
+    private parseMetadata(): Map<string, FbsAttributeValue> {
+        const attributes = new Map<string, FbsAttributeValue>();
+        if (!this.accept('(')) {
+            return attributes;
+        }
+        while (!this.accept(')')) {
+            const name = this.expectIdent().text;
+            let value: FbsAttributeValue = true;
+            if (this.accept(':')) {
+                const token = this.next();
+                value = token.kind === 'number' ? Number(token.text) : token.text;
+            }
+            attributes.set(name, value);
+            if (!this.isPunct(')')) {
+                this.expect(',');
+            }
+        }
+        return attributes;
+    }
+
+    private parseType(): FbsTypeRef {
+        const location = this.peek().location;
+        if (this.accept('[')) {
+            const element = this.parseType();
+            if (element.vector || element.arrayLength !== undefined) {
+                throw new FbsSyntaxError('Nested vector types are not supported', element.location);
+            }
+            let arrayLength: number | undefined;
+            if (this.accept(':')) {
+                arrayLength = Number(this.next().text);
+            }
+            this.expect(']');
+            if (arrayLength !== undefined) {
+                return { name: element.name, vector: false, arrayLength, location };
+            }
+            return { name: element.name, vector: true, location };
+        }
+        return { name: this.parseQualifiedName(), vector: false, location };
+    }
+
+    private parseObject(kind: 'table' | 'struct', doc: string[]): FbsObject {
+        const nameToken = this.expectIdent();
+        const attributes = this.parseMetadata();
+        const fields: FbsField[] = [];
+
+        this.expect('{');
+        while (!this.accept('}')) {
+            const fieldToken = this.expectIdent();
+            this.expect(':');
+            const type = this.parseType();
+            let defaultValue: string | undefined;
+            if (this.accept('=')) {
+                defaultValue = this.next().text;
+            }
+            const fieldAttributes = this.parseMetadata();
+            this.expect(';');
+            fields.push({
+                name: fieldToken.text,
+                type,
+                defaultValue,
+                attributes: fieldAttributes,
+                doc: fieldToken.doc ?? [],
+                location: fieldToken.location,
+            });
+        }
+
+        return {
+            kind,
+            name: nameToken.text,
+            namespace: this.namespace,
+            fields,
+            attributes,
+            doc,
+            location: nameToken.location,
+        };
+    }
+
+    private parseEnum(kind: 'enum' | 'union', doc: string[]): FbsEnum {
+        const nameToken = this.expectIdent();
+        const isUnion = kind === 'union';
+        let underlyingType: string | undefined;
+        if (!isUnion && this.accept(':')) {
+            underlyingType = this.parseQualifiedName();
+        }
+        const attributes = this.parseMetadata();
+        const values: FbsEnumValue[] = [];
+
+        this.expect('{');
+        while (!this.accept('}')) {
+            const valueToken = this.peek();
+            let name = this.parseQualifiedName();
+            let typeName: string | undefined;
+            if (isUnion) {
+                typeName = name;
+                if (this.accept(':')) {
+                    typeName = this.parseQualifiedName();
+                } else {
+                    name = name.replace(/\./g, '_');
+                }
+            }
+            let value: string | undefined;
+            if (this.accept('=')) {
+                value = this.next().text;
+            }
+            values.push({
+                name,
+                typeName,
+                value,
+                attributes: this.parseMetadata(),
+                doc: valueToken.doc ?? [],
+                location: valueToken.location,
+            });
+            if (!this.isPunct('}')) {
+                this.expect(',');
+            }
+        }
+
+        return {
+            kind,
+            name: nameToken.text,
+            namespace: this.namespace,
+            underlyingType,
+            values,
+            attributes,
+            doc,
+            location: nameToken.location,
+        };
+    }
+}
+
+/**
+ * Parse schema text into a syntax tree. Included files are not loaded.
+ */
+export function parseFbs(text: string): FbsSchema {
+    return new FbsParser(tokenizeFbs(text)).parse();
+}
+
+/**
+ * Fully qualified name of a declaration
+ */
+export function qualifiedName(declaration: { name: string; namespace: string }): string {
+    return declaration.namespace ? `${declaration.namespace}.${declaration.name}` : declaration.name;
+}
@@ -0,0 +1,307 @@
+import { ByteBuffer } from 'flatbuffers';
+import { CompiledEnum, CompiledObject, CompiledSchema, CompiledType, ScalarTypeName, scalarSize } from './schemaCompiler';
+
+/**
+ * Maximum nesting of tables and vectors, matching flatc's verifier default
+ */
+const MAX_DEPTH = 64;
+
+const MIN_EXACT_INTEGER = BigInt(Number.MIN_SAFE_INTEGER);
+const MAX_EXACT_INTEGER = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Decodes FlatBuffers binaries in process using a compiled schema.
+ *
+ * The produced value mirrors what `flatc --json --strict-json` prints: fields
+ * in declaration order, absent fields omitted, enums as identifiers and unions
+ * as a `<field>_type` / `<field>` pair. 64-bit integers too large for a JSON
+ * number to hold exactly are printed as decimal strings, which flatc accepts.
+ */
+export class FlatBufferDecoder {
+    private readonly bb: ByteBuffer;
+
+    constructor(private readonly bytes: Uint8Array, private readonly schema: CompiledSchema) {
+        this.bb = new ByteBuffer(bytes);
+    }
+
+    /**
+     * Decode the whole buffer starting at the schema's root table
+     */
+    public decode(): Record<string, unknown> {
+        const root = this.schema.rootType;
+        if (!root) {
+            throw new Error('Schema has no root_type, cannot decode buffer.');
+        }
+        this.checkRange(0, 4);
+        return this.readTable(root, this.bb.readUint32(0), 0);
+    }
+
+    /**
+     * The 4 character file identifier following the root offset, if the buffer has one
+     */
+    public readFileIdentifier(): string | undefined {
+        if (this.bytes.length < 8) {
+            return undefined;
+        }
+        const identifier = Buffer.from(this.bytes.buffer, this.bytes.byteOffset + 4, 4).toString('latin1');
+        return /^[\x20-\x7e]{4}$/.test(identifier) ? identifier : undefined;
+    }
+
+    /**
+     * Read a scalar or string field of the root table without decoding the rest
+     * of the buffer. Deprecated fields are read too.
+     */
+    public decodeRootField(name: string): unknown {
+        const field = this.schema.rootType?.fields.find(f => f.name === name);
+        if (!field || (field.type.kind !== 'scalar' && field.type.kind !== 'string')) {
+            return undefined;
+        }
+        this.checkRange(0, 4);
+        const tablePos = this.bb.readUint32(0);
+        this.checkRange(tablePos, 4);
+        const pos = this.fieldPosition(tablePos, field.slot);
+        return pos ? this.readValue(field.type, pos, 0) : undefined;
+    }
+
+    private checkRange(offset: number, size: number): void {
+        if (offset < 0 || size < 0 || offset + size > this.bytes.length) {
+            throw new Error(`Offset ${offset} (+${size} bytes) is out of bounds of the ${this.bytes.length} byte buffer.`);
+        }
+    }
+
+    private object(name: string): CompiledObject {
+        return this.schema.objects.get(name)!;
+    }
+
+    private enumOf(name: string): CompiledEnum {
+        return this.schema.enums.get(name)!;
+    }
+
+    /**
+     * Position of a field inside a table, or 0 when the field is absent
+     */
+    private fieldPosition(tablePos: number, slot: number): number {
+        const vtable = tablePos - this.bb.readInt32(tablePos);
+        this.checkRange(vtable, 4);
+        const vtableSize = this.bb.readUint16(vtable);
+        const entry = 4 + 2 * slot;
+        if (entry + 2 > vtableSize) {
+            return 0;
+        }
+        this.checkRange(vtable, vtableSize);
+        const fieldOffset = this.bb.readUint16(vtable + entry);
+        return fieldOffset ? tablePos + fieldOffset : 0;
+    }
+
+    private readTable(obj: CompiledObject, tablePos: number, depth: number): Record<string, unknown> {
+        if (depth > MAX_DEPTH) {
+            throw new Error(`Buffer nesting exceeds ${MAX_DEPTH} levels at offset ${tablePos}.`);
+        }
+        this.checkRange(tablePos, 4);
+
+        const result: Record<string, unknown> = {};
+        for (const field of obj.fields) {
+            if (field.deprecated) {
+                continue;
+            }
+            const pos = this.fieldPosition(tablePos, field.slot);
+            if (!pos) {
+                // flatc always prints scalar key fields
+                if (field.key && field.type.kind === 'scalar') {
+                    result[field.name] = this.formatScalar(field.type, field.defaultValue ?? 0);
+                }
+                continue;
+            }
+
+            if (field.type.kind === 'union' || (field.type.kind === 'vector' && field.type.element.kind === 'union')) {
+                const typePos = this.fieldPosition(tablePos, field.slot - 1);
+                if (!typePos) {
+                    continue;
+                }
+                const value = this.readUnionField(field.type, pos, typePos, depth);
+                if (value !== undefined) {
+                    result[field.name] = value;
+                }
+                continue;
+            }
+
+            result[field.name] = this.readValue(field.type, pos, depth);
+        }
+        return result;
+    }
+
+    private readUnionField(type: CompiledType, pos: number, typePos: number, depth: number): unknown {
+        if (type.kind === 'union') {
+            this.checkRange(typePos, 1);
+            return this.readUnionValue(type.name, this.bb.readUint8(typePos), pos, depth);
+        }
+
+        if (type.kind !== 'vector' || type.element.kind !== 'union') {
+            throw new Error('Expected a union or a vector of unions.');
+        }
+        const unionName = type.element.name;
+        const values = this.vectorBounds(pos, 4);
+        const types = this.vectorBounds(typePos, 1);
+        const result: unknown[] = [];
+        for (let i = 0; i < values.length; i++) {
+            const memberType = i < types.length ? this.bb.readUint8(types.start + i) : 0;
+            result.push(this.readUnionValue(unionName, memberType, values.start + i * 4, depth + 1) ?? null);
+        }
+        return result;
+    }
+
+    private readUnionValue(unionName: string, memberType: number, pos: number, depth: number): unknown {
+        const member = this.enumOf(unionName).values.find(v => v.value === memberType);
+        if (!member || !member.unionType) {
+            return undefined;
+        }
+        return this.readValue(member.unionType, pos, depth);
+    }
+
+    private readValue(type: CompiledType, pos: number, depth: number): unknown {
+        switch (type.kind) {
+            case 'scalar':
+                return this.formatScalar(type, this.readScalar(type.scalar, pos));
+            case 'string':
+                return this.readString(this.indirect(pos));
+            case 'table':
+                return this.readTable(this.object(type.name), this.indirect(pos), depth + 1);
+            case 'struct':
+                return this.readStruct(this.object(type.name), pos);
+            case 'vector':
+                return this.readVector(type.element, pos, depth + 1);
+            case 'array':
+                return this.readArray(type.element, type.length, pos);
+            case 'union':
+                throw new Error('Union values must be read through their type field.');
+        }
+    }
+
+    private indirect(pos: number): number {
+        this.checkRange(pos, 4);
+        return pos + this.bb.readUint32(pos);
+    }
+
+    private readScalar(scalar: ScalarTypeName, pos: number): number | boolean | string {
+        this.checkRange(pos, scalarSize(scalar));
+        switch (scalar) {
+            case 'bool': return this.bb.readUint8(pos) !== 0;
+            case 'byte': return this.bb.readInt8(pos);
+            case 'ubyte': return this.bb.readUint8(pos);
+            case 'short': return this.bb.readInt16(pos);
+            case 'ushort': return this.bb.readUint16(pos);
+            case 'int': return this.bb.readInt32(pos);
+            case 'uint': return this.bb.readUint32(pos);
+            case 'long': return exactInteger(this.bb.readInt64(pos));
+            case 'ulong': return exactInteger(this.bb.readUint64(pos));
+            case 'float': return shortestFloat32(this.bb.readFloat32(pos));
+            case 'double': return this.bb.readFloat64(pos);
+        }
+    }
+
+    /**
+     * Print enum values by name like flatc, falling back to the number
+     */
+    private formatScalar(type: CompiledType & { kind: 'scalar' }, value: number | boolean | string): unknown {
+        if (!type.enumName || typeof value !== 'number') {
+            return value;
+        }
+        const en = this.enumOf(type.enumName);
+        const exact = en.values.find(v => v.value === value);
+        if (exact) {
+            return exact.name;
+        }
+        if (en.bitFlags && value > 0) {
+            const flags = en.values.filter(v => v.value !== 0 && (value & v.value) === v.value);
+            const covered = flags.reduce((acc, v) => acc | v.value, 0);
+            if (covered === value) {
+                return flags.map(v => v.name).join(' ');
+            }
+        }
+        return value;
+    }
+
+    private readString(pos: number): string {
+        this.checkRange(pos, 4);
+        const length = this.bb.readUint32(pos);
+        this.checkRange(pos + 4, length);
+        return Buffer.from(this.bytes.buffer, this.bytes.byteOffset + pos + 4, length).toString('utf8');
+    }
+
+    private readStruct(obj: CompiledObject, pos: number): Record<string, unknown> {
+        this.checkRange(pos, obj.byteSize);
+        const result: Record<string, unknown> = {};
+        for (const field of obj.fields) {
+            result[field.name] = this.readValue(field.type, pos + field.offset, 0);
+        }
+        return result;
+    }
+
+    /**
+     * Start and length of the vector referenced at `pos`
+     */
+    private vectorBounds(pos: number, elementSize: number): { start: number; length: number } {
+        const vectorPos = this.indirect(pos);
+        this.checkRange(vectorPos, 4);
+        const length = this.bb.readUint32(vectorPos);
+        this.checkRange(vectorPos + 4, length * elementSize);
+        return { start: vectorPos + 4, length };
+    }
+
+    private inlineSize(type: CompiledType): number {
+        switch (type.kind) {
+            case 'scalar':
+                return scalarSize(type.scalar);
+            case 'struct':
+                return this.object(type.name).byteSize;
+            default:
+                // Strings, tables and nested vectors are stored as offsets
+                return 4;
+        }
+    }
+
+    private readVector(element: CompiledType, pos: number, depth: number): unknown[] {
+        if (depth > MAX_DEPTH) {
+            throw new Error(`Buffer nesting exceeds ${MAX_DEPTH} levels at offset ${pos}.`);
+        }
+        const stride = this.inlineSize(element);
+        const { start, length } = this.vectorBounds(pos, stride);
+        const result: unknown[] = new Array(length);
+        for (let i = 0; i < length; i++) {
+            result[i] = this.readValue(element, start + i * stride, depth);
+        }
+        return result;
+    }
+
+    private readArray(element: CompiledType, length: number, pos: number): unknown[] {
+        const stride = this.inlineSize(element);
+        const result: unknown[] = new Array(length);
+        for (let i = 0; i < length; i++) {
+            result[i] = this.readValue(element, pos + i * stride, 0);
+        }
+        return result;
+    }
+}
+
+/**
+ * A 64-bit integer as a number while it is exact, as a decimal string beyond
+ */
+function exactInteger(value: bigint): number | string {
+    return value >= MIN_EXACT_INTEGER && value <= MAX_EXACT_INTEGER ? Number(value) : value.toString();
+}
+
+/**
+ * Shortest decimal that round-trips a float32, as flatc prints floats
+ */
+function shortestFloat32(value: number): number {
+    if (!Number.isFinite(value)) {
+        return value;
+    }
+    for (let precision = 1; precision < 9; precision++) {
+        const candidate = Number(value.toPrecision(precision));
+        if (Math.fround(candidate) === value) {
+            return candidate;
+        }
+    }
+    return value;
+}
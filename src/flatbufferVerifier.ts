@@ -0,0 +1,375 @@
+import { ByteBuffer } from 'flatbuffers';
+import { CompiledObject, CompiledSchema, CompiledType, ScalarTypeName, scalarSize } from './schemaCompiler';
+import { JsonPath } from './jsonPath';
+
+/**
+ * Maximum nesting of tables and vectors, matching flatc's verifier default
+ */
+const MAX_DEPTH = 64;
+
+/**
+ * Verification stops after this many problems
+ */
+const MAX_ISSUES = 1000;
+
+export type VerificationSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a buffer
+ */
+export interface VerificationIssue {
+    severity: VerificationSeverity;
+    message: string;
+    /** Byte offset in the buffer the problem was found at */
+    offset: number;
+    /** Path of the affected value in the decoded JSON */
+    path: JsonPath;
+}
+
+/**
+ * Thrown to stop verifying a value once it is known to be unreadable. Its
+ * siblings are still verified.
+ */
+class InvalidValueError extends Error {}
+
+/**
+ * Thrown to stop verifying once `MAX_ISSUES` problems have been found
+ */
+class TooManyIssuesError extends Error {}
+
+/**
+ * Checks that a FlatBuffers binary is well formed for a compiled schema, like
+ * the verifier generated by flatc: offsets and lengths stay inside the buffer,
+ * vtables are sane, required fields are present, and enum and union type
+ * values are declared.
+ *
+ * Unlike the generated verifier it doesn't stop at the first problem, so every
+ * broken value of a file is reported with its offset and JSON path.
+ */
+export class FlatBufferVerifier {
+    private readonly bb: ByteBuffer;
+    private readonly issues: VerificationIssue[] = [];
+    private readonly utf8 = new TextDecoder('utf-8', { fatal: true });
+
+    constructor(private readonly bytes: Uint8Array, private readonly schema: CompiledSchema) {
+        this.bb = new ByteBuffer(bytes);
+    }
+
+    public verify(): VerificationIssue[] {
+        try {
+            this.verifyRoot();
+        } catch (error) {
+            if (error instanceof TooManyIssuesError) {
+                this.issues.push({
+                    severity: 'warning',
+                    message: `Verification stopped after ${MAX_ISSUES} problems.`,
+                    offset: 0,
+                    path: []
+                });
+            } else if (!(error instanceof InvalidValueError)) {
+                throw error;
+            }
+        }
+        return this.issues;
+    }
+
+    private verifyRoot(): void {
+        const root = this.schema.rootType;
+        if (!root) {
+            throw new Error('Schema has no root_type, cannot verify buffer.');
+        }
+        if (this.bytes.length < 8) {
+            this.fail(0, [], `The buffer is ${this.bytes.length} bytes long, too short for a FlatBuffer.`);
+        }
+
+        const expected = this.schema.fileIdentifier;
+        if (expected) {
+            const identifier = Buffer.from(this.bytes.buffer, this.bytes.byteOffset + 4, 4).toString('latin1');
+            if (identifier !== expected) {
+                this.report('warning', 4, [], `File identifier is ${JSON.stringify(identifier)}, the schema expects "${expected}".`);
+            }
+        }
+
+        this.verifyTable(root, this.bb.readUint32(0), [], 0);
+    }
+
+    private report(severity: VerificationSeverity, offset: number, path: JsonPath, message: string): void {
+        if (this.issues.length >= MAX_ISSUES) {
+            throw new TooManyIssuesError();
+        }
+        this.issues.push({ severity, message, offset, path });
+    }
+
+    private fail(offset: number, path: JsonPath, message: string): never {
+        this.report('error', offset, path, message);
+        throw new InvalidValueError(message);
+    }
+
+    private checkRange(offset: number, size: number, path: JsonPath, what: string): void {
+        if (offset < 0 || size < 0 || offset + size > this.bytes.length) {
+            this.fail(offset, path, `${what} at offset ${offset} (+${size} bytes) is out of bounds of the ${this.bytes.length} byte buffer.`);
+        }
+    }
+
+    private checkAlignment(offset: number, align: number, path: JsonPath, what: string): void {
+        if (offset % align !== 0) {
+            this.report('warning', offset, path, `${what} at offset ${offset} is not aligned to ${align} bytes.`);
+        }
+    }
+
+    /**
+     * Follow the offset stored at `pos`
+     */
+    private indirect(pos: number, path: JsonPath, what: string): number {
+        this.checkRange(pos, 4, path, `Offset to ${what}`);
+        return pos + this.bb.readUint32(pos);
+    }
+
+    private verifyTable(obj: CompiledObject, tablePos: number, path: JsonPath, depth: number): void {
+        const what = `Table ${obj.name}`;
+        if (depth > MAX_DEPTH) {
+            this.fail(tablePos, path, `Buffer nesting exceeds ${MAX_DEPTH} levels.`);
+        }
+        this.checkRange(tablePos, 4, path, what);
+        this.checkAlignment(tablePos, 4, path, what);
+
+        const vtable = tablePos - this.bb.readInt32(tablePos);
+        this.checkRange(vtable, 4, path, `vtable of ${obj.name}`);
+        this.checkAlignment(vtable, 2, path, `vtable of ${obj.name}`);
+        const vtableSize = this.bb.readUint16(vtable);
+        const objectSize = this.bb.readUint16(vtable + 2);
+        if (vtableSize < 4 || vtableSize % 2 !== 0) {
+            this.fail(vtable, path, `vtable of ${obj.name} has an invalid size of ${vtableSize} bytes.`);
+        }
+        if (objectSize < 4) {
+            this.fail(vtable, path, `vtable of ${obj.name} gives an invalid table size of ${objectSize} bytes.`);
+        }
+        this.checkRange(vtable, vtableSize, path, `vtable of ${obj.name}`);
+        this.checkRange(tablePos, objectSize, path, what);
+
+        const fieldPosition = (slot: number): number => {
+            const entry = 4 + 2 * slot;
+            return entry + 2 <= vtableSize ? this.bb.readUint16(vtable + entry) : 0;
+        };
+
+        for (const field of obj.fields) {
+            const fieldPath = [...path, field.name];
+            const fieldOffset = fieldPosition(field.slot);
+            if (!fieldOffset) {
+                if (field.required) {
+                    this.report('error', tablePos, fieldPath, `Required field '${field.name}' of ${obj.name} is missing.`);
+                }
+                continue;
+            }
+            const inlineSize = this.inlineSize(field.type);
+            if (fieldOffset < 4 || fieldOffset + inlineSize > objectSize) {
+                this.report('error', vtable, fieldPath,
+                    `Field '${field.name}' of ${obj.name} at table offset ${fieldOffset} (+${inlineSize} bytes) lies outside the ${objectSize} byte table.`);
+                continue;
+            }
+
+            const pos = tablePos + fieldOffset;
+            try {
+                if (field.type.kind === 'union' || (field.type.kind === 'vector' && field.type.element.kind === 'union')) {
+                    const typeOffset = fieldPosition(field.slot - 1);
+                    this.verifyUnionField(field.type, field.name, pos, typeOffset ? tablePos + typeOffset : 0, fieldPath, depth);
+                } else {
+                    this.verifyValue(field.type, pos, fieldPath, depth);
+                }
+            } catch (error) {
+                if (!(error instanceof InvalidValueError)) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Verify a union value or a vector of them against their type field, whose
+     * own value is checked as an enum with the other fields
+     */
+    private verifyUnionField(type: CompiledType, name: string, pos: number, typePos: number, path: JsonPath, depth: number): void {
+        if (type.kind === 'union') {
+            const memberType = typePos ? this.bb.readUint8(typePos) : 0;
+            if (memberType === 0) {
+                this.report('warning', pos, path, `Union '${name}' has a value but its type is NONE.`);
+                return;
+            }
+            this.verifyUnionValue(type.name, memberType, pos, path, depth);
+            return;
+        }
+
+        if (type.kind !== 'vector' || type.element.kind !== 'union') {
+            throw new Error('Expected a union or a vector of unions.');
+        }
+        const values = this.verifyVectorBounds(pos, 4, path, depth);
+        if (!typePos) {
+            this.fail(pos, path, `Vector of unions '${name}' has no types vector.`);
+        }
+        const types = this.verifyVectorBounds(typePos, 1, path, depth);
+        if (types.length !== values.length) {
+            this.report('error', values.start - 4, path,
+                `Vector of unions '${name}' has ${values.length} values but ${types.length} types.`);
+        }
+        for (let i = 0; i < Math.min(values.length, types.length); i++) {
+            const memberType = this.bb.readUint8(types.start + i);
+            if (memberType === 0) {
+                continue;
+            }
+            try {
+                this.verifyUnionValue(type.element.name, memberType, values.start + i * 4, [...path, i], depth + 1);
+            } catch (error) {
+                if (!(error instanceof InvalidValueError)) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private verifyUnionValue(unionName: string, memberType: number, pos: number, path: JsonPath, depth: number): void {
+        const member = this.schema.enums.get(unionName)!.values.find(v => v.value === memberType);
+        // Undeclared types are reported on the type field
+        if (member?.unionType) {
+            this.verifyValue(member.unionType, pos, path, depth);
+        }
+    }
+
+    private verifyValue(type: CompiledType, pos: number, path: JsonPath, depth: number): void {
+        switch (type.kind) {
+            case 'scalar': {
+                const size = scalarSize(type.scalar);
+                this.checkRange(pos, size, path, 'Value');
+                if (type.enumName) {
+                    this.verifyEnumValue(type.enumName, this.readInteger(type.scalar, pos), pos, path);
+                }
+                return;
+            }
+            case 'string':
+                this.verifyString(this.indirect(pos, path, 'string'), path);
+                return;
+            case 'table':
+                this.verifyTable(this.object(type.name), this.indirect(pos, path, `table ${type.name}`), path, depth + 1);
+                return;
+            case 'struct':
+                this.verifyStruct(this.object(type.name), pos, path);
+                return;
+            case 'vector':
+                this.verifyVector(type.element, pos, path, depth + 1);
+                return;
+            case 'array': {
+                const stride = this.inlineSize(type.element);
+                this.checkRange(pos, stride * type.length, path, 'Array');
+                for (let i = 0; i < type.length; i++) {
+                    this.verifyValue(type.element, pos + i * stride, [...path, i], depth);
+                }
+                return;
+            }
+            case 'union':
+                throw new Error('Union values must be verified through their type field.');
+        }
+    }
+
+    private verifyEnumValue(enumName: string, value: number, pos: number, path: JsonPath): void {
+        const en = this.schema.enums.get(enumName)!;
+        if (en.values.some(v => v.value === value)) {
+            return;
+        }
+        if (en.isUnion) {
+            this.report('error', pos, path, `Union type ${value} is not a member of ${en.name}.`);
+        } else if (en.bitFlags) {
+            const declared = en.values.reduce((acc, v) => acc | v.value, 0);
+            if ((value & ~declared) !== 0) {
+                this.report('error', pos, path, `Value ${value} sets bits not declared in bit flags enum ${en.name}.`);
+            }
+        } else {
+            this.report('error', pos, path, `Value ${value} is not declared in enum ${en.name}.`);
+        }
+    }
+
+    private verifyString(pos: number, path: JsonPath): void {
+        this.checkRange(pos, 4, path, 'String');
+        this.checkAlignment(pos, 4, path, 'String');
+        const length = this.bb.readUint32(pos);
+        // The terminating zero byte is part of the string
+        this.checkRange(pos + 4, length + 1, path, 'String');
+        if (this.bytes[pos + 4 + length] !== 0) {
+            this.report('error', pos + 4 + length, path, `String at offset ${pos} is not null-terminated.`);
+        }
+        try {
+            this.utf8.decode(this.bytes.subarray(pos + 4, pos + 4 + length));
+        } catch {
+            this.report('warning', pos, path, `String at offset ${pos} is not valid UTF-8.`);
+        }
+    }
+
+    private verifyStruct(obj: CompiledObject, pos: number, path: JsonPath): void {
+        this.checkRange(pos, obj.byteSize, path, `Struct ${obj.name}`);
+        for (const field of obj.fields) {
+            this.verifyValue(field.type, pos + field.offset, [...path, field.name], 0);
+        }
+    }
+
+    /**
+     * Verify the length of the vector referenced at `pos`, returning where its elements start
+     */
+    private verifyVectorBounds(pos: number, elementSize: number, path: JsonPath, depth: number): { start: number; length: number } {
+        if (depth > MAX_DEPTH) {
+            this.fail(pos, path, `Buffer nesting exceeds ${MAX_DEPTH} levels.`);
+        }
+        const vectorPos = this.indirect(pos, path, 'vector');
+        this.checkRange(vectorPos, 4, path, 'Vector');
+        this.checkAlignment(vectorPos, 4, path, 'Vector');
+        const length = this.bb.readUint32(vectorPos);
+        this.checkRange(vectorPos + 4, length * elementSize, path, `Vector of ${length} elements`);
+        return { start: vectorPos + 4, length };
+    }
+
+    private verifyVector(element: CompiledType, pos: number, path: JsonPath, depth: number): void {
+        const stride = this.inlineSize(element);
+        const { start, length } = this.verifyVectorBounds(pos, stride, path, depth);
+        // Plain scalars, such as the bytes of binary fields, are valid once in bounds
+        if (element.kind === 'scalar' && !element.enumName) {
+            return;
+        }
+        for (let i = 0; i < length; i++) {
+            try {
+                this.verifyValue(element, start + i * stride, [...path, i], depth);
+            } catch (error) {
+                if (!(error instanceof InvalidValueError)) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private readInteger(scalar: ScalarTypeName, pos: number): number {
+        switch (scalar) {
+            case 'byte': return this.bb.readInt8(pos);
+            case 'short': return this.bb.readInt16(pos);
+            case 'ushort': return this.bb.readUint16(pos);
+            case 'int': return this.bb.readInt32(pos);
+            case 'uint': return this.bb.readUint32(pos);
+            case 'long': return Number(this.bb.readInt64(pos));
+            case 'ulong': return Number(this.bb.readUint64(pos));
+            default: return this.bb.readUint8(pos);
+        }
+    }
+
+    private object(name: string): CompiledObject {
+        return this.schema.objects.get(name)!;
+    }
+
+    private inlineSize(type: CompiledType): number {
+        switch (type.kind) {
+            case 'scalar':
+                return scalarSize(type.scalar);
+            case 'struct':
+                return this.object(type.name).byteSize;
+            case 'array':
+                return this.inlineSize(type.element) * type.length;
+            default:
+                // Strings, tables, unions and vectors are stored as offsets
+                return 4;
+        }
+    }
+}
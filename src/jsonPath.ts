@@ -0,0 +1,167 @@
+/**
+ * Location of a node inside a decoded JSON document, as a list of object keys
+ * and array indices from the root
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * Format a path the way it is shown to users, e.g. `elements[3].element.base`
+ */
+export function formatJsonPath(path: JsonPath): string {
+    let result = '';
+    for (const segment of path) {
+        if (typeof segment === 'number') {
+            result += `[${segment}]`;
+        } else if (/^[A-Za-z_$][\w$]*$/.test(segment)) {
+            result += result ? `.${segment}` : segment;
+        } else {
+            result += `[${JSON.stringify(segment)}]`;
+        }
+    }
+    return result || '$';
+}
+
+/**
+ * Get the value at a path, or undefined when the path does not exist
+ */
+export function getValueAtPath(root: unknown, path: JsonPath): unknown {
+    let current = root;
+    for (const segment of path) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        current = (current as Record<string | number, unknown>)[segment];
+    }
+    return current;
+}
+
+const LITERAL_PATTERN = /true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * A value in JSON text with its position, used to map paths to text ranges
+ */
+export interface JsonNode {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+    /** Offset of the first character of the value */
+    offset: number;
+    length: number;
+    /** Children of objects and arrays, keyed by property name or index */
+    children?: { key: string | number; keyOffset: number; node: JsonNode }[];
+}
+
+/**
+ * Parse JSON text into a tree of nodes with offsets.
+ *
+ * Returns undefined when the text is not valid JSON.
+ */
+export function parseJsonTree(text: string): JsonNode | undefined {
+    let i = 0;
+
+    const skipWhitespace = () => {
+        while (i < text.length && (text[i] === ' ' || text[i] === '\n' || text[i] === '\r' || text[i] === '\t')) {
+            i++;
+        }
+    };
+
+    const parseString = (): string => {
+        const start = i;
+        i++;
+        while (i < text.length && text[i] !== '"') {
+            i += text[i] === '\\' ? 2 : 1;
+        }
+        if (i >= text.length) {
+            throw new SyntaxError('Unterminated string');
+        }
+        i++;
+        return JSON.parse(text.slice(start, i)) as string;
+    };
+
+    const parseValue = (): JsonNode => {
+        skipWhitespace();
+        const offset = i;
+        const ch = text[i];
+        if (ch === '{' || ch === '[') {
+            const isObject = ch === '{';
+            const close = isObject ? '}' : ']';
+            const children: NonNullable<JsonNode['children']> = [];
+            i++;
+            skipWhitespace();
+            while (text[i] !== close) {
+                if (children.length > 0) {
+                    if (text[i] !== ',') {
+                        throw new SyntaxError(`Expected ',' at offset ${i}`);
+                    }
+                    i++;
+                    skipWhitespace();
+                }
+                const keyOffset = i;
+                let key: string | number = children.length;
+                if (isObject) {
+                    if (text[i] !== '"') {
+                        throw new SyntaxError(`Expected property name at offset ${i}`);
+                    }
+                    key = parseString();
+                    skipWhitespace();
+                    if (text[i] !== ':') {
+                        throw new SyntaxError(`Expected ':' at offset ${i}`);
+                    }
+                    i++;
+                }
+                children.push({ key, keyOffset, node: parseValue() });
+                skipWhitespace();
+                if (i >= text.length) {
+                    throw new SyntaxError(`Expected '${close}'`);
+                }
+            }
+            i++;
+            return { type: isObject ? 'object' : 'array', offset, length: i - offset, children };
+        }
+        if (ch === '"') {
+            parseString();
+            return { type: 'string', offset, length: i - offset };
+        }
+        LITERAL_PATTERN.lastIndex = i;
+        const literal = LITERAL_PATTERN.exec(text);
+        if (!literal) {
+            throw new SyntaxError(`Unexpected character at offset ${i}`);
+        }
+        i += literal[0].length;
+        const type = literal[0] === 'null' ? 'null' : literal[0] === 'true' || literal[0] === 'false' ? 'boolean' : 'number';
+        return { type, offset, length: i - offset };
+    };
+
+    try {
+        const root = parseValue();
+        skipWhitespace();
+        return i === text.length ? root : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Find the node at a path, or undefined when the path does not exist
+ */
+export function findNodeAtPath(root: JsonNode, path: JsonPath): JsonNode | undefined {
+    let current: JsonNode | undefined = root;
+    for (const segment of path) {
+        current = current?.children?.find(child => child.key === segment)?.node;
+    }
+    return current;
+}
+
+/**
+ * Path of the innermost node containing an offset
+ */
+export function getPathAtOffset(root: JsonNode, offset: number): JsonPath {
+    const path: JsonPath = [];
+    let current = root;
+    for (;;) {
+        const child = current.children?.find(c => offset >= c.keyOffset && offset <= c.node.offset + c.node.length);
+        if (!child) {
+            return path;
+        }
+        path.push(child.key);
+        current = child.node;
+    }
+}
@@ -0,0 +1,707 @@
+import { JsonPath } from './jsonPath';
+
+/**
+ * A node selected by a query
+ */
+export interface QueryMatch {
+    path: JsonPath;
+    value: unknown;
+}
+
+/**
+ * Query syntax, detected from the first character: `$` starts JSONPath, anything else is jq-like
+ */
+export type QueryLanguage = 'jsonpath' | 'jq';
+
+/**
+ * A query that could not be parsed
+ */
+export class JsonQueryError extends Error {
+    constructor(message: string, public readonly offset: number) {
+        super(message);
+        this.name = 'JsonQueryError';
+    }
+}
+
+type Selector =
+    | { kind: 'name'; name: string }
+    | { kind: 'index'; index: number }
+    | { kind: 'wildcard' }
+    | { kind: 'slice'; start?: number; end?: number; step?: number }
+    | { kind: 'filter'; expr: Expr };
+
+type Step =
+    /** Children of each node matching any selector */
+    | { kind: 'children'; selectors: Selector[] }
+    /** Each node followed by all its descendants */
+    | { kind: 'descendants' }
+    /** Nodes for which an expression is truthy, jq's `select` */
+    | { kind: 'where'; expr: Expr };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~';
+
+type Expr =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; absolute: boolean; steps: Step[] }
+    | { kind: 'not'; operand: Expr }
+    | { kind: 'and' | 'or'; left: Expr; right: Expr }
+    | { kind: 'compare'; operator: ComparisonOperator; left: Expr; right: Expr }
+    | { kind: 'call'; name: string; args: Expr[] }
+    /** Evaluate `right` with the value of `left` as the current node */
+    | { kind: 'pipe'; left: Expr; right: Expr };
+
+interface Token {
+    type: 'punct' | 'string' | 'number' | 'identifier' | 'end';
+    text: string;
+    value?: string | number;
+    offset: number;
+}
+
+const PUNCTUATION = ['..', '==', '!=', '<=', '>=', '=~', '&&', '||', '$', '@', '.', '[', ']', '(', ')', ',', ':', ';', '*', '?', '|', '!', '<', '>'];
+
+/**
+ * Functions available in filters, taking the current value as first argument in jq
+ */
+const FUNCTIONS: Record<string, { arity: number; apply: (...args: unknown[]) => unknown }> = {
+    length: {
+        arity: 1,
+        apply: value => {
+            if (typeof value === 'string' || Array.isArray(value)) {
+                return value.length;
+            }
+            return isObject(value) ? Object.keys(value).length : undefined;
+        }
+    },
+    match: { arity: 2, apply: (value, pattern) => testPattern(value, pattern, true) },
+    search: { arity: 2, apply: (value, pattern) => testPattern(value, pattern, false) },
+    test: { arity: 2, apply: (value, pattern) => testPattern(value, pattern, false) },
+    contains: {
+        arity: 2,
+        apply: (value, part) => {
+            if (typeof value === 'string') {
+                return typeof part === 'string' && value.includes(part);
+            }
+            return Array.isArray(value) && value.some(item => deepEqual(item, part));
+        }
+    },
+    startswith: { arity: 2, apply: (value, prefix) => typeof value === 'string' && typeof prefix === 'string' && value.startsWith(prefix) },
+    endswith: { arity: 2, apply: (value, suffix) => typeof value === 'string' && typeof suffix === 'string' && value.endsWith(suffix) },
+    has: {
+        arity: 2,
+        apply: (value, key) => (Array.isArray(value) ? typeof key === 'number' && key >= 0 && key < value.length
+            : isObject(value) && typeof key === 'string' && Object.prototype.hasOwnProperty.call(value, key))
+    },
+    not: { arity: 1, apply: value => !isTruthy(value) }
+};
+
+/**
+ * Query syntax of an expression
+ */
+export function detectQueryLanguage(query: string): QueryLanguage {
+    return query.trimStart().startsWith('$') ? 'jsonpath' : 'jq';
+}
+
+/**
+ * Run a JSONPath (`$.elements[?(@.type == 'text')]`) or jq-like
+ * (`.elements[] | select(.type == "text")`) query over a decoded document.
+ *
+ * Both languages support child and recursive descent, wildcards, indices,
+ * slices and filters with comparisons, `=~` regular expressions and the
+ * functions `length`, `match`, `search`/`test`, `contains`, `startswith`,
+ * `endswith`, `has` and `not`. Only nodes of the document can be selected, so
+ * jq constructs building new values are not supported.
+ */
+export function evaluateQuery(root: unknown, query: string): QueryMatch[] {
+    const language = detectQueryLanguage(query);
+    const parser = new QueryParser(tokenize(query));
+    const steps = language === 'jsonpath' ? parser.parseJsonPath() : parser.parseJq();
+    return applySteps([{ path: [], value: root }], steps, root);
+}
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < query.length) {
+        const ch = query[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        const offset = i;
+        if (ch === '"' || ch === '\'') {
+            let value = '';
+            i++;
+            while (i < query.length && query[i] !== ch) {
+                if (query[i] === '\\' && i + 1 < query.length) {
+                    const escaped = query[i + 1];
+                    if (escaped === 'u') {
+                        value += String.fromCharCode(parseInt(query.slice(i + 2, i + 6), 16));
+                        i += 6;
+                        continue;
+                    }
+                    value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+                    i += 2;
+                } else {
+                    value += query[i++];
+                }
+            }
+            if (i >= query.length) {
+                throw new JsonQueryError('Unterminated string', offset);
+            }
+            i++;
+            tokens.push({ type: 'string', text: query.slice(offset, i), value, offset });
+            continue;
+        }
+        const number = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(query.slice(i));
+        if (number && (ch !== '-' || !isValueToken(tokens[tokens.length - 1]))) {
+            i += number[0].length;
+            tokens.push({ type: 'number', text: number[0], value: Number(number[0]), offset });
+            continue;
+        }
+        const identifier = /^[A-Za-z_]\w*/.exec(query.slice(i));
+        if (identifier) {
+            i += identifier[0].length;
+            tokens.push({ type: 'identifier', text: identifier[0], value: identifier[0], offset });
+            continue;
+        }
+        const punct = PUNCTUATION.find(p => query.startsWith(p, i));
+        if (!punct) {
+            throw new JsonQueryError(`Unexpected character '${ch}'`, offset);
+        }
+        i += punct.length;
+        tokens.push({ type: 'punct', text: punct, offset });
+    }
+    tokens.push({ type: 'end', text: '', offset: query.length });
+    return tokens;
+}
+
+/**
+ * Whether a token ends an operand, so a following `-` can't start a number
+ */
+function isValueToken(token: Token | undefined): boolean {
+    return !!token && (token.type !== 'punct' || token.text === ']' || token.text === ')');
+}
+
+class QueryParser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    private get current(): Token {
+        return this.tokens[this.index];
+    }
+
+    private peek(text: string): boolean {
+        return this.current.type === 'punct' && this.current.text === text;
+    }
+
+    private accept(text: string): boolean {
+        if (this.peek(text)) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        if (this.current.type === 'identifier' && this.current.text === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) {
+            this.fail(`Expected '${text}'`);
+        }
+    }
+
+    private fail(message: string): never {
+        const token = this.current;
+        throw new JsonQueryError(token.type === 'end' ? `${message} at end of query` : `${message}, found '${token.text}'`, token.offset);
+    }
+
+    private expectEnd(): void {
+        if (this.current.type !== 'end') {
+            this.fail('Unexpected token');
+        }
+    }
+
+    private takeNumber(): number | undefined {
+        if (this.current.type === 'number') {
+            return this.tokens[this.index++].value as number;
+        }
+        return undefined;
+    }
+
+    // JSONPath
+
+    public parseJsonPath(): Step[] {
+        this.expect('$');
+        const steps = this.parseJsonPathSegments();
+        this.expectEnd();
+        return steps;
+    }
+
+    private parseJsonPathSegments(): Step[] {
+        const steps: Step[] = [];
+        for (;;) {
+            if (this.accept('..')) {
+                steps.push({ kind: 'descendants' });
+                steps.push(this.peek('[') ? this.parseBracket() : this.parseDotSelector());
+            } else if (this.accept('.')) {
+                steps.push(this.parseDotSelector());
+            } else if (this.peek('[')) {
+                steps.push(this.parseBracket());
+            } else {
+                return steps;
+            }
+        }
+    }
+
+    private parseDotSelector(): Step {
+        if (this.accept('*')) {
+            return { kind: 'children', selectors: [{ kind: 'wildcard' }] };
+        }
+        if (this.current.type !== 'identifier') {
+            this.fail('Expected a property name');
+        }
+        return { kind: 'children', selectors: [{ kind: 'name', name: this.tokens[this.index++].text }] };
+    }
+
+    private parseBracket(): Step {
+        this.expect('[');
+        const selectors: Selector[] = [];
+        do {
+            selectors.push(this.parseBracketSelector());
+        } while (this.accept(','));
+        this.expect(']');
+        return { kind: 'children', selectors };
+    }
+
+    private parseBracketSelector(): Selector {
+        if (this.accept('*')) {
+            return { kind: 'wildcard' };
+        }
+        if (this.accept('?')) {
+            return { kind: 'filter', expr: this.parseJsonPathOr() };
+        }
+        if (this.current.type === 'string') {
+            return { kind: 'name', name: this.tokens[this.index++].value as string };
+        }
+        return this.parseIndexOrSlice();
+    }
+
+    private parseIndexOrSlice(): Selector {
+        const start = this.takeNumber();
+        if (!this.peek(':')) {
+            if (start === undefined || !Number.isInteger(start)) {
+                this.fail('Expected an index');
+            }
+            return { kind: 'index', index: start };
+        }
+        this.expect(':');
+        const end = this.takeNumber();
+        const step = this.accept(':') ? this.takeNumber() : undefined;
+        return { kind: 'slice', start, end, step };
+    }
+
+    private parseJsonPathOr(): Expr {
+        let left = this.parseJsonPathAnd();
+        while (this.accept('||')) {
+            left = { kind: 'or', left, right: this.parseJsonPathAnd() };
+        }
+        return left;
+    }
+
+    private parseJsonPathAnd(): Expr {
+        let left = this.parseJsonPathUnary();
+        while (this.accept('&&')) {
+            left = { kind: 'and', left, right: this.parseJsonPathUnary() };
+        }
+        return left;
+    }
+
+    private parseJsonPathUnary(): Expr {
+        if (this.accept('!')) {
+            return { kind: 'not', operand: this.parseJsonPathUnary() };
+        }
+        return this.parseComparison(() => this.parseJsonPathOperand());
+    }
+
+    private parseJsonPathOperand(): Expr {
+        if (this.accept('(')) {
+            const expr = this.parseJsonPathOr();
+            this.expect(')');
+            return expr;
+        }
+        if (this.peek('@') || this.peek('$')) {
+            const absolute = this.current.text === '$';
+            this.index++;
+            return { kind: 'path', absolute, steps: this.parseJsonPathSegments() };
+        }
+        const literal = this.parseLiteral();
+        if (literal) {
+            return literal;
+        }
+        if (this.current.type === 'identifier') {
+            const { text: name, offset } = this.tokens[this.index++];
+            this.expect('(');
+            const args: Expr[] = [];
+            if (!this.peek(')')) {
+                do {
+                    args.push(this.parseJsonPathOr());
+                } while (this.accept(','));
+            }
+            this.expect(')');
+            return this.createCall(name, args, offset);
+        }
+        return this.fail('Expected a value');
+    }
+
+    // jq
+
+    public parseJq(): Step[] {
+        const steps = this.parseJqPipeline();
+        this.expectEnd();
+        return steps;
+    }
+
+    private parseJqPipeline(): Step[] {
+        const steps: Step[] = [];
+        do {
+            steps.push(...this.parseJqTerm());
+        } while (this.accept('|'));
+        return steps;
+    }
+
+    private parseJqTerm(): Step[] {
+        if (this.acceptKeyword('select')) {
+            this.expect('(');
+            const expr = this.parseJqExpression();
+            this.expect(')');
+            return [{ kind: 'where', expr }];
+        }
+        if (this.accept('..')) {
+            return [{ kind: 'descendants' }, ...this.parseJqSuffixes()];
+        }
+        if (this.peek('.')) {
+            return this.parseJqPath();
+        }
+        return this.fail('Expected a path or select()');
+    }
+
+    /**
+     * `.`, `.name`, `.["name"]`, `.[]`, `.[0]`, `.[1:3]` and chains of them
+     */
+    private parseJqPath(): Step[] {
+        this.expect('.');
+        const steps: Step[] = [];
+        if (this.current.type === 'identifier') {
+            steps.push({ kind: 'children', selectors: [{ kind: 'name', name: this.tokens[this.index++].text }] });
+        } else if (this.current.type === 'string') {
+            steps.push({ kind: 'children', selectors: [{ kind: 'name', name: this.tokens[this.index++].value as string }] });
+        }
+        steps.push(...this.parseJqSuffixes());
+        return steps;
+    }
+
+    private parseJqSuffixes(): Step[] {
+        const steps: Step[] = [];
+        for (;;) {
+            if (this.accept('?')) {
+                // Missing values never fail, so errors need no suppressing
+                continue;
+            }
+            if (this.accept('[')) {
+                if (this.accept(']')) {
+                    steps.push({ kind: 'children', selectors: [{ kind: 'wildcard' }] });
+                    continue;
+                }
+                const selector: Selector = this.current.type === 'string'
+                    ? { kind: 'name', name: this.tokens[this.index++].value as string }
+                    : this.parseIndexOrSlice();
+                this.expect(']');
+                steps.push({ kind: 'children', selectors: [selector] });
+                continue;
+            }
+            if (this.peek('.') && (this.tokens[this.index + 1].type === 'identifier' || this.tokens[this.index + 1].type === 'string'
+                || (this.tokens[this.index + 1].type === 'punct' && this.tokens[this.index + 1].text === '['))) {
+                this.index++;
+                if (this.current.type !== 'punct') {
+                    steps.push({ kind: 'children', selectors: [{ kind: 'name', name: String(this.tokens[this.index++].value) }] });
+                }
+                continue;
+            }
+            return steps;
+        }
+    }
+
+    private parseJqExpression(): Expr {
+        let left = this.parseJqOr();
+        while (this.accept('|')) {
+            left = { kind: 'pipe', left, right: this.parseJqOr() };
+        }
+        return left;
+    }
+
+    private parseJqOr(): Expr {
+        let left = this.parseJqAnd();
+        while (this.acceptKeyword('or')) {
+            left = { kind: 'or', left, right: this.parseJqAnd() };
+        }
+        return left;
+    }
+
+    private parseJqAnd(): Expr {
+        let left = this.parseComparison(() => this.parseJqOperand());
+        while (this.acceptKeyword('and')) {
+            left = { kind: 'and', left, right: this.parseComparison(() => this.parseJqOperand()) };
+        }
+        return left;
+    }
+
+    private parseJqOperand(): Expr {
+        if (this.accept('(')) {
+            const expr = this.parseJqExpression();
+            this.expect(')');
+            return expr;
+        }
+        if (this.accept('..')) {
+            return { kind: 'path', absolute: false, steps: [{ kind: 'descendants' }, ...this.parseJqSuffixes()] };
+        }
+        if (this.peek('.')) {
+            return { kind: 'path', absolute: false, steps: this.parseJqPath() };
+        }
+        const literal = this.parseLiteral();
+        if (literal) {
+            return literal;
+        }
+        if (this.current.type === 'identifier') {
+            // jq functions take the current value as their input
+            const { text: name, offset } = this.tokens[this.index++];
+            const args: Expr[] = [{ kind: 'path', absolute: false, steps: [] }];
+            if (this.accept('(')) {
+                do {
+                    args.push(this.parseJqExpression());
+                } while (this.accept(';'));
+                this.expect(')');
+            }
+            return this.createCall(name, args, offset);
+        }
+        return this.fail('Expected a value');
+    }
+
+    // Shared
+
+    private parseComparison(parseOperand: () => Expr): Expr {
+        const left = parseOperand();
+        const operator = (['==', '!=', '<=', '>=', '<', '>', '=~'] as ComparisonOperator[]).find(op => this.peek(op));
+        if (!operator) {
+            return left;
+        }
+        this.index++;
+        return { kind: 'compare', operator, left, right: parseOperand() };
+    }
+
+    private parseLiteral(): Expr | undefined {
+        const token = this.current;
+        if (token.type === 'string' || token.type === 'number') {
+            this.index++;
+            return { kind: 'literal', value: token.value };
+        }
+        if (token.type === 'identifier' && (token.text === 'true' || token.text === 'false' || token.text === 'null')) {
+            this.index++;
+            return { kind: 'literal', value: token.text === 'null' ? null : token.text === 'true' };
+        }
+        return undefined;
+    }
+
+    private createCall(name: string, args: Expr[], offset: number): Expr {
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (!fn) {
+            throw new JsonQueryError(`Unknown function '${name}'`, offset);
+        }
+        if (args.length !== fn.arity) {
+            throw new JsonQueryError(`${name} expects ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`, offset);
+        }
+        return { kind: 'call', name, args };
+    }
+}
+
+function applySteps(matches: QueryMatch[], steps: Step[], root: unknown): QueryMatch[] {
+    for (const step of steps) {
+        const next: QueryMatch[] = [];
+        for (const match of matches) {
+            switch (step.kind) {
+                case 'children':
+                    for (const selector of step.selectors) {
+                        selectChildren(match, selector, root, next);
+                    }
+                    break;
+                case 'descendants':
+                    collectDescendants(match, next);
+                    break;
+                case 'where':
+                    if (isTruthy(evaluate(step.expr, match.value, root))) {
+                        next.push(match);
+                    }
+                    break;
+            }
+        }
+        matches = next;
+    }
+    return matches;
+}
+
+function selectChildren(match: QueryMatch, selector: Selector, root: unknown, result: QueryMatch[]): void {
+    const { path, value } = match;
+    const pushChild = (key: string | number) => {
+        result.push({ path: [...path, key], value: (value as Record<string | number, unknown>)[key] });
+    };
+
+    switch (selector.kind) {
+        case 'name':
+            if (isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)) {
+                pushChild(selector.name);
+            }
+            break;
+        case 'index':
+            if (Array.isArray(value)) {
+                const index = selector.index < 0 ? value.length + selector.index : selector.index;
+                if (index >= 0 && index < value.length) {
+                    pushChild(index);
+                }
+            }
+            break;
+        case 'wildcard':
+            childKeys(value).forEach(pushChild);
+            break;
+        case 'slice':
+            if (Array.isArray(value)) {
+                sliceIndices(value.length, selector).forEach(pushChild);
+            }
+            break;
+        case 'filter':
+            for (const key of childKeys(value)) {
+                const child = (value as Record<string | number, unknown>)[key];
+                if (isTruthy(evaluate(selector.expr, child, root))) {
+                    pushChild(key);
+                }
+            }
+            break;
+    }
+}
+
+function collectDescendants(match: QueryMatch, result: QueryMatch[]): void {
+    result.push(match);
+    for (const key of childKeys(match.value)) {
+        collectDescendants({ path: [...match.path, key], value: (match.value as Record<string | number, unknown>)[key] }, result);
+    }
+}
+
+function childKeys(value: unknown): (string | number)[] {
+    if (Array.isArray(value)) {
+        return value.map((_, i) => i);
+    }
+    return isObject(value) ? Object.keys(value) : [];
+}
+
+function sliceIndices(length: number, slice: { start?: number; end?: number; step?: number }): number[] {
+    const step = slice.step ?? 1;
+    if (step === 0) {
+        return [];
+    }
+    const normalize = (index: number) => (index < 0 ? Math.max(length + index, step > 0 ? 0 : -1) : Math.min(index, step > 0 ? length : length - 1));
+    const start = slice.start !== undefined ? normalize(slice.start) : step > 0 ? 0 : length - 1;
+    const end = slice.end !== undefined ? normalize(slice.end) : step > 0 ? length : -1;
+    const indices: number[] = [];
+    for (let i = start; step > 0 ? i < end : i > end; i += step) {
+        indices.push(i);
+    }
+    return indices;
+}
+
+function evaluate(expr: Expr, current: unknown, root: unknown): unknown {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'path': {
+            const [first] = applySteps([{ path: [], value: expr.absolute ? root : current }], expr.steps, root);
+            return first?.value;
+        }
+        case 'not':
+            return !isTruthy(evaluate(expr.operand, current, root));
+        case 'and':
+            return isTruthy(evaluate(expr.left, current, root)) && isTruthy(evaluate(expr.right, current, root));
+        case 'or':
+            return isTruthy(evaluate(expr.left, current, root)) || isTruthy(evaluate(expr.right, current, root));
+        case 'compare':
+            return compare(expr.operator, evaluate(expr.left, current, root), evaluate(expr.right, current, root));
+        case 'call':
+            return FUNCTIONS[expr.name].apply(...expr.args.map(arg => evaluate(arg, current, root)));
+        case 'pipe':
+            return evaluate(expr.right, evaluate(expr.left, current, root), root);
+    }
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+    switch (operator) {
+        case '==':
+            return deepEqual(left, right);
+        case '!=':
+            return !deepEqual(left, right);
+        case '=~':
+            return testPattern(left, right, false);
+    }
+    if (!((typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string'))) {
+        return false;
+    }
+    switch (operator) {
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        case '>':
+            return left > right;
+        case '>=':
+            return left >= right;
+    }
+}
+
+function testPattern(value: unknown, pattern: unknown, whole: boolean): boolean {
+    if (typeof value !== 'string' || typeof pattern !== 'string') {
+        return false;
+    }
+    try {
+        return new RegExp(whole ? `^(?:${pattern})$` : pattern, 'u').test(value);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * jq truthiness: everything but `false`, `null` and missing values
+ */
+function isTruthy(value: unknown): boolean {
+    return value !== undefined && value !== null && value !== false;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+    }
+    return false;
+}
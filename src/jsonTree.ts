@@ -0,0 +1,72 @@
+import { JsonPath, getValueAtPath } from './jsonPath';
+import { describeItem } from './ducItems';
+
+/**
+ * Length after which the values of strings are cut in tree nodes
+ */
+const MAX_PREVIEW_LENGTH = 200;
+
+export type JsonTreeNodeType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * A node of a decoded document as shown by the tree mode of the Duc Viewer
+ */
+export interface JsonTreeNode {
+    key: string | number;
+    type: JsonTreeNodeType;
+    /** Value of primitives, or the type and id of items such as elements */
+    preview: string;
+    /** Number of properties or items, 0 for primitives */
+    childCount: number;
+}
+
+export interface JsonTreeChildren {
+    /** Number of children of the node, of which `children` is a page */
+    total: number;
+    children: JsonTreeNode[];
+}
+
+/**
+ * Describe a page of the children of the node at `path`, or return undefined
+ * when there is no object or array at that path
+ */
+export function getJsonTreeChildren(root: unknown, path: JsonPath, offset: number, limit: number): JsonTreeChildren | undefined {
+    const value = getValueAtPath(root, path);
+    if (value === null || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const end = offset + Math.max(0, limit);
+    if (Array.isArray(value)) {
+        return {
+            total: value.length,
+            children: value.slice(offset, end).map((item, i) => describeNode(offset + i, item))
+        };
+    }
+    const keys = Object.keys(value);
+    return {
+        total: keys.length,
+        children: keys.slice(offset, end).map(key => describeNode(key, (value as Record<string, unknown>)[key]))
+    };
+}
+
+function describeNode(key: string | number, value: unknown): JsonTreeNode {
+    if (Array.isArray(value)) {
+        return { key, type: 'array', preview: '', childCount: value.length };
+    }
+    if (value !== null && typeof value === 'object') {
+        const { type, id } = describeItem(value as Record<string, unknown>);
+        const preview = [type, id].filter(Boolean).join(' · ');
+        return { key, type: 'object', preview, childCount: Object.keys(value).length };
+    }
+    if (typeof value === 'string') {
+        const preview = value.length > MAX_PREVIEW_LENGTH
+            ? `${JSON.stringify(value.slice(0, MAX_PREVIEW_LENGTH))}… (${value.length} characters)`
+            : JSON.stringify(value);
+        return { key, type: 'string', preview, childCount: 0 };
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return { key, type: typeof value as 'number' | 'boolean', preview: String(value), childCount: 0 };
+    }
+    return { key, type: 'null', preview: 'null', childCount: 0 };
+}
@@ -0,0 +1,145 @@
+/**
+ * Messages exchanged between `DucPreviewManager` and the remote preview app,
+ * relayed by the webview hosting the app in an iframe. The protocol is
+ * described for app authors in documentation/preview-protocol.md.
+ */
+
+/**
+ * Version spoken by the extension. Raise it for changes that apps written for
+ * an older version can't ignore, and describe them in the documentation.
+ */
+export const PREVIEW_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional features of the protocol, used once both sides announce them
+ */
+export type PreviewCapability = 'fileUpdates' | 'selection' | 'save';
+
+export const PREVIEW_CAPABILITIES: readonly PreviewCapability[] = ['fileUpdates', 'selection', 'save'];
+
+/**
+ * Sent by apps written before the protocol was versioned, answered with a
+ * single `FILE_DATA`
+ */
+export interface AppReadyMessage {
+    type: 'APP_READY';
+}
+
+export interface HelloMessage {
+    type: 'HELLO';
+    /** Highest version the app speaks */
+    protocolVersion: number;
+    capabilities: string[];
+}
+
+export interface SelectMessage {
+    type: 'SELECT';
+    /** Ids of the elements selected in the app, the first one is revealed in the Duc Viewer */
+    elementIds: string[];
+}
+
+export interface SaveRequestMessage {
+    type: 'SAVE_REQUEST';
+    /** Echoed in the `SAVE_RESULT` answering the request */
+    requestId: string | number;
+    /** Base64 encoded bytes of the .duc file */
+    data: string;
+}
+
+export interface AppErrorMessage {
+    type: 'ERROR';
+    message: string;
+    /** Whether the app can't show the file at all */
+    fatal?: boolean;
+}
+
+export type PreviewAppMessage = AppReadyMessage | HelloMessage | SelectMessage | SaveRequestMessage | AppErrorMessage;
+
+export interface WelcomeMessage {
+    type: 'WELCOME';
+    /** Version both sides speak, the lower of theirs */
+    protocolVersion: number;
+    /** Capabilities announced by both sides */
+    capabilities: PreviewCapability[];
+}
+
+export interface FileDataMessage {
+    type: 'FILE_DATA';
+    name: string;
+    /** Base64 encoded bytes of the .duc file */
+    data: string;
+    /** Increases with every version of the file sent, from 1; absent for `APP_READY` apps */
+    revision?: number;
+}
+
+export interface SelectionMessage {
+    type: 'SELECTION';
+    /** Ids of the elements selected in the Duc Viewer, empty when none is */
+    elementIds: string[];
+}
+
+export interface SaveResultMessage {
+    type: 'SAVE_RESULT';
+    requestId: string | number;
+    ok: boolean;
+    /** Why the file wasn't written */
+    error?: string;
+}
+
+export interface HostErrorMessage {
+    type: 'ERROR';
+    message: string;
+}
+
+export type PreviewHostMessage = WelcomeMessage | FileDataMessage | SelectionMessage | SaveResultMessage | HostErrorMessage;
+
+/**
+ * Check the shape of a message posted by the app, returning undefined for
+ * anything that isn't a well-formed message of the protocol
+ */
+export function parsePreviewAppMessage(data: unknown): PreviewAppMessage | undefined {
+    if (data === null || typeof data !== 'object') {
+        return undefined;
+    }
+    const message = data as Record<string, unknown>;
+    const isStringArray = (value: unknown): value is string[] =>
+        Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    switch (message.type) {
+        case 'APP_READY':
+            return { type: 'APP_READY' };
+        case 'HELLO':
+            return typeof message.protocolVersion === 'number' && isStringArray(message.capabilities)
+                ? { type: 'HELLO', protocolVersion: message.protocolVersion, capabilities: message.capabilities }
+                : undefined;
+        case 'SELECT':
+            return isStringArray(message.elementIds)
+                ? { type: 'SELECT', elementIds: message.elementIds }
+                : undefined;
+        case 'SAVE_REQUEST':
+            return (typeof message.requestId === 'string' || typeof message.requestId === 'number') && typeof message.data === 'string'
+                ? { type: 'SAVE_REQUEST', requestId: message.requestId, data: message.data }
+                : undefined;
+        case 'ERROR':
+            return typeof message.message === 'string'
+                ? { type: 'ERROR', message: message.message, fatal: message.fatal === true }
+                : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Agree on the version and capabilities announced by an app, or return
+ * undefined when it only speaks versions the extension doesn't
+ */
+export function negotiatePreviewProtocol(hello: HelloMessage): WelcomeMessage | undefined {
+    if (!Number.isInteger(hello.protocolVersion) || hello.protocolVersion < 1) {
+        return undefined;
+    }
+    return {
+        type: 'WELCOME',
+        protocolVersion: Math.min(hello.protocolVersion, PREVIEW_PROTOCOL_VERSION),
+        capabilities: PREVIEW_CAPABILITIES.filter(capability => hello.capabilities.includes(capability))
+    };
+}
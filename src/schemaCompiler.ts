@@ -0,0 +1,422 @@
+/**
+ * Compiles FlatBuffers schema (.fbs) text into a resolved form that can be
+ * used to walk binary buffers without running flatc
+ */
+
+import { FbsEnum, FbsField, FbsObject, FbsSchema, parseFbs, qualifiedName } from './fbsParser';
+
+export type ScalarTypeName =
+    | 'bool' | 'byte' | 'ubyte' | 'short' | 'ushort' | 'int' | 'uint'
+    | 'long' | 'ulong' | 'float' | 'double';
+
+export type CompiledType =
+    | { kind: 'scalar'; scalar: ScalarTypeName; enumName?: string }
+    | { kind: 'string' }
+    | { kind: 'table'; name: string }
+    | { kind: 'struct'; name: string }
+    | { kind: 'union'; name: string }
+    | { kind: 'vector'; element: CompiledType }
+    | { kind: 'array'; element: CompiledType; length: number };
+
+export interface CompiledField {
+    name: string;
+    type: CompiledType;
+    /** vtable slot of the field (tables only) */
+    slot: number;
+    /** Byte offset of the field inside its struct (structs only) */
+    offset: number;
+    defaultValue: number | boolean | null;
+    deprecated: boolean;
+    required: boolean;
+    key: boolean;
+}
+
+export interface CompiledObject {
+    name: string;
+    isStruct: boolean;
+    fields: CompiledField[];
+    /** Inline size of a struct, 0 for tables */
+    byteSize: number;
+    minAlign: number;
+}
+
+export interface CompiledEnumValue {
+    name: string;
+    value: number;
+    /** Member type of a union value, undefined for NONE and plain enums */
+    unionType?: CompiledType;
+}
+
+export interface CompiledEnum {
+    name: string;
+    underlying: ScalarTypeName;
+    isUnion: boolean;
+    bitFlags: boolean;
+    values: CompiledEnumValue[];
+}
+
+export interface CompiledSchema {
+    objects: Map<string, CompiledObject>;
+    enums: Map<string, CompiledEnum>;
+    rootType?: CompiledObject;
+    fileIdentifier?: string;
+    fileExtension?: string;
+}
+
+const SCALAR_ALIASES: Record<string, ScalarTypeName> = {
+    bool: 'bool',
+    byte: 'byte', int8: 'byte',
+    ubyte: 'ubyte', uint8: 'ubyte',
+    short: 'short', int16: 'short',
+    ushort: 'ushort', uint16: 'ushort',
+    int: 'int', int32: 'int',
+    uint: 'uint', uint32: 'uint',
+    long: 'long', int64: 'long',
+    ulong: 'ulong', uint64: 'ulong',
+    float: 'float', float32: 'float',
+    double: 'double', float64: 'double',
+};
+
+const SCALAR_SIZES: Record<ScalarTypeName, number> = {
+    bool: 1, byte: 1, ubyte: 1, short: 2, ushort: 2, int: 4, uint: 4,
+    long: 8, ulong: 8, float: 4, double: 8,
+};
+
+/**
+ * Size in bytes of a scalar type
+ */
+export function scalarSize(scalar: ScalarTypeName): number {
+    return SCALAR_SIZES[scalar];
+}
+
+function parseNumber(text: string): number {
+    const lower = text.toLowerCase();
+    if (lower.endsWith('nan')) {
+        return NaN;
+    }
+    if (lower.endsWith('inf') || lower.endsWith('infinity')) {
+        return lower.startsWith('-') ? -Infinity : Infinity;
+    }
+    if (/^[+-]?0x/.test(lower)) {
+        const negative = lower.startsWith('-');
+        const value = parseInt(lower.replace(/^[+-]/, ''), 16);
+        return negative ? -value : value;
+    }
+    return Number(text);
+}
+
+/**
+ * Resolves the declarations of one parsed schema into a `CompiledSchema`
+ */
+class SchemaResolver {
+    private readonly rawObjects = new Map<string, FbsObject>();
+    private readonly rawEnums = new Map<string, FbsEnum>();
+    private readonly resolving = new Set<string>();
+    private readonly schema: CompiledSchema = { objects: new Map(), enums: new Map() };
+
+    constructor(private readonly parsed: FbsSchema) {
+        for (const declaration of parsed.declarations) {
+            if ('fields' in declaration) {
+                this.rawObjects.set(qualifiedName(declaration), declaration);
+            } else {
+                this.rawEnums.set(qualifiedName(declaration), declaration);
+            }
+        }
+    }
+
+    public resolve(): CompiledSchema {
+        for (const qualifiedName of this.rawEnums.keys()) {
+            this.resolveEnum(qualifiedName);
+        }
+        for (const qualifiedName of this.rawObjects.keys()) {
+            this.resolveObject(qualifiedName);
+        }
+
+        const root = this.parsed.rootType;
+        if (root) {
+            const rootName = this.lookup(root.name, root.namespace);
+            this.schema.rootType = rootName ? this.schema.objects.get(rootName) : undefined;
+            if (!this.schema.rootType) {
+                throw new Error(`Unknown root_type '${root.name}'`);
+            }
+        }
+        this.schema.fileIdentifier = this.parsed.fileIdentifier;
+        this.schema.fileExtension = this.parsed.fileExtension;
+        return this.schema;
+    }
+
+    /**
+     * Find the fully qualified name of a type referenced from a namespace,
+     * searching from the innermost namespace outwards like flatc does
+     */
+    private lookup(name: string, namespace: string): string | undefined {
+        const parts = namespace ? namespace.split('.') : [];
+        for (let i = parts.length; i >= 0; i--) {
+            const candidate = qualifiedName({ namespace: parts.slice(0, i).join('.'), name });
+            if (this.rawObjects.has(candidate) || this.rawEnums.has(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private resolveEnum(qualifiedName: string): CompiledEnum {
+        const existing = this.schema.enums.get(qualifiedName);
+        if (existing) {
+            return existing;
+        }
+
+        const raw = this.rawEnums.get(qualifiedName)!;
+        const isUnion = raw.kind === 'union';
+        let underlying: ScalarTypeName = 'ubyte';
+        if (!isUnion) {
+            const scalar = raw.underlyingType ? SCALAR_ALIASES[raw.underlyingType] : undefined;
+            if (!scalar || scalar === 'float' || scalar === 'double' || scalar === 'bool') {
+                throw new Error(`Enum '${raw.name}' must have an integral underlying type`);
+            }
+            underlying = scalar;
+        }
+
+        const compiled: CompiledEnum = {
+            name: qualifiedName,
+            underlying,
+            isUnion,
+            bitFlags: raw.attributes.has('bit_flags'),
+            values: [],
+        };
+        this.schema.enums.set(qualifiedName, compiled);
+
+        if (isUnion) {
+            compiled.values.push({ name: 'NONE', value: 0 });
+        }
+        let nextValue = isUnion ? 1 : 0;
+        for (const value of raw.values) {
+            let numeric = value.value !== undefined ? parseNumber(value.value) : nextValue;
+            if (compiled.bitFlags) {
+                numeric = 2 ** numeric;
+            }
+            let unionType: CompiledType | undefined;
+            if (isUnion && value.typeName) {
+                unionType = this.resolveTypeName(value.typeName, raw.namespace);
+            }
+            compiled.values.push({ name: value.name, value: numeric, unionType });
+            nextValue = (value.value !== undefined ? parseNumber(value.value) : nextValue) + 1;
+        }
+        return compiled;
+    }
+
+    private resolveTypeName(name: string, namespace: string): CompiledType {
+        const scalar = SCALAR_ALIASES[name];
+        if (scalar) {
+            return { kind: 'scalar', scalar };
+        }
+        if (name === 'string') {
+            return { kind: 'string' };
+        }
+
+        const qualifiedName = this.lookup(name, namespace);
+        if (!qualifiedName) {
+            throw new Error(`Unknown type '${name}'`);
+        }
+        const obj = this.rawObjects.get(qualifiedName);
+        if (obj) {
+            return obj.kind === 'struct' ? { kind: 'struct', name: qualifiedName } : { kind: 'table', name: qualifiedName };
+        }
+        const en = this.resolveEnum(qualifiedName);
+        if (en.isUnion) {
+            return { kind: 'union', name: qualifiedName };
+        }
+        return { kind: 'scalar', scalar: en.underlying, enumName: qualifiedName };
+    }
+
+    private resolveDefault(field: FbsField, type: CompiledType): number | boolean | null {
+        if (type.kind !== 'scalar') {
+            return null;
+        }
+        const text = field.defaultValue;
+        if (text === undefined) {
+            return type.scalar === 'bool' ? false : 0;
+        }
+        if (text === 'null') {
+            return null;
+        }
+        if (type.scalar === 'bool') {
+            return text === 'true' || (text !== 'false' && parseNumber(text) !== 0);
+        }
+        if (type.enumName && /^[A-Za-z_]/.test(text) && !/^(inf|nan)/i.test(text)) {
+            const en = this.schema.enums.get(type.enumName)!;
+            const value = en.values.find(v => v.name === text);
+            if (!value) {
+                throw new Error(`Unknown enum value '${text}' for field '${field.name}'`);
+            }
+            return value.value;
+        }
+        return parseNumber(text);
+    }
+
+    private resolveObject(qualifiedName: string): CompiledObject {
+        if (this.resolving.has(qualifiedName)) {
+            throw new Error(`Struct '${qualifiedName}' contains itself`);
+        }
+        const existing = this.schema.objects.get(qualifiedName);
+        if (existing) {
+            return existing;
+        }
+
+        const raw = this.rawObjects.get(qualifiedName)!;
+        const isStruct = raw.kind === 'struct';
+        const compiled: CompiledObject = {
+            name: qualifiedName,
+            isStruct,
+            fields: [],
+            byteSize: 0,
+            minAlign: 1,
+        };
+        this.schema.objects.set(qualifiedName, compiled);
+        if (isStruct) {
+            this.resolving.add(qualifiedName);
+        }
+
+        const useIds = raw.fields.some(f => f.attributes.has('id'));
+        let nextSlot = 0;
+        let offset = 0;
+
+        for (const field of raw.fields) {
+            let type = this.resolveTypeName(field.type.name, raw.namespace);
+            if (field.type.vector) {
+                type = { kind: 'vector', element: type };
+            } else if (field.type.arrayLength !== undefined) {
+                type = { kind: 'array', element: type, length: field.type.arrayLength };
+            }
+
+            const deprecated = field.attributes.has('deprecated');
+            const required = field.attributes.has('required');
+            const key = field.attributes.has('key');
+            const unionType = type.kind === 'vector' ? type.element : type;
+            const isUnion = unionType.kind === 'union';
+
+            if (isStruct) {
+                const { size, align } = this.inlineLayout(type, field.name);
+                offset = Math.ceil(offset / align) * align;
+                compiled.minAlign = Math.max(compiled.minAlign, align);
+                compiled.fields.push({
+                    name: field.name, type, slot: 0, offset,
+                    defaultValue: this.resolveDefault(field, type), deprecated, required, key,
+                });
+                offset += size;
+                continue;
+            }
+
+            let slot = nextSlot;
+            if (useIds) {
+                const id = field.attributes.get('id');
+                if (typeof id !== 'number') {
+                    throw new Error(`Field '${field.name}' of '${raw.name}' is missing an id attribute`);
+                }
+                slot = id;
+            } else {
+                // Unions occupy two slots, the hidden type field comes first
+                slot = isUnion ? nextSlot + 1 : nextSlot;
+                nextSlot = slot + 1;
+            }
+
+            if (unionType.kind === 'union') {
+                const typeField: CompiledType = { kind: 'scalar', scalar: 'ubyte', enumName: unionType.name };
+                compiled.fields.push({
+                    name: `${field.name}_type`,
+                    type: type.kind === 'vector' ? { kind: 'vector', element: typeField } : typeField,
+                    slot: slot - 1, offset: 0, defaultValue: 0, deprecated, required: false, key: false,
+                });
+            }
+
+            compiled.fields.push({
+                name: field.name, type, slot, offset: 0,
+                defaultValue: this.resolveDefault(field, type), deprecated, required, key,
+            });
+        }
+
+        if (isStruct) {
+            const forceAlign = raw.attributes.get('force_align');
+            if (typeof forceAlign === 'number') {
+                compiled.minAlign = Math.max(compiled.minAlign, forceAlign);
+            }
+            compiled.byteSize = Math.ceil(offset / compiled.minAlign) * compiled.minAlign;
+            this.resolving.delete(qualifiedName);
+        }
+        return compiled;
+    }
+
+    private inlineLayout(type: CompiledType, fieldName: string): { size: number; align: number } {
+        switch (type.kind) {
+            case 'scalar':
+                return { size: SCALAR_SIZES[type.scalar], align: SCALAR_SIZES[type.scalar] };
+            case 'struct': {
+                const nested = this.resolveObject(type.name);
+                return { size: nested.byteSize, align: nested.minAlign };
+            }
+            case 'array': {
+                const element = this.inlineLayout(type.element, fieldName);
+                return { size: element.size * type.length, align: element.align };
+            }
+            default:
+                throw new Error(`Struct field '${fieldName}' must be a scalar, struct or fixed array`);
+        }
+    }
+}
+
+/**
+ * Resolve a parsed schema into a `CompiledSchema`
+ */
+export function resolveSchema(parsed: FbsSchema): CompiledSchema {
+    return new SchemaResolver(parsed).resolve();
+}
+
+/**
+ * A schema file pulled in by an `include` statement, directly or through
+ * another included file
+ */
+export interface IncludedSchema {
+    /** Absolute path the include was resolved to */
+    path: string;
+    content: string;
+}
+
+/**
+ * Compile schema text into a `CompiledSchema`.
+ *
+ * The declarations of `includes` are added to those of the schema, so types may
+ * be declared in any of the files. The root type and file identifier come from
+ * the schema itself, as they do for flatc.
+ */
+export function compileSchema(schemaContent: string, includes: IncludedSchema[] = []): CompiledSchema {
+    const parsed = parseFbs(schemaContent);
+    const includedDeclarations: FbsSchema['declarations'] = [];
+    for (const include of includes) {
+        let included: FbsSchema;
+        try {
+            included = parseFbs(include.content);
+        } catch (error) {
+            throw new Error(`${include.path}: ${(error as Error).message}`);
+        }
+        parsed.attributes.push(...included.attributes);
+        includedDeclarations.push(...included.declarations);
+    }
+    parsed.declarations.unshift(...includedDeclarations);
+    return resolveSchema(parsed);
+}
+
+let lastCompiled: { content: string; includes: IncludedSchema[]; schema: CompiledSchema } | undefined;
+
+/**
+ * Compile schema text, reusing the previous result when the text and its includes are unchanged
+ */
+export function getCompiledSchema(schemaContent: string, includes: IncludedSchema[] = []): CompiledSchema {
+    if (lastCompiled?.content !== schemaContent || !sameIncludes(lastCompiled.includes, includes)) {
+        lastCompiled = { content: schemaContent, includes, schema: compileSchema(schemaContent, includes) };
+    }
+    return lastCompiled.schema;
+}
+
+function sameIncludes(a: IncludedSchema[], b: IncludedSchema[]): boolean {
+    return a.length === b.length && a.every((include, i) => include.path === b[i].path && include.content === b[i].content);
+}
@@ -0,0 +1,364 @@
+import * as vscode from 'vscode';
+import { DUC_SCHEMA } from './assets/schema';
+import { FbsDeclaration, FbsEnum, FbsEnumValue, FbsField, FbsLocation, FbsObject, FbsSchema, parseFbs, qualifiedName } from './fbsParser';
+import { CompiledEnum, CompiledField, CompiledObject, CompiledSchema, CompiledType, IncludedSchema, getCompiledSchema } from './schemaCompiler';
+import { JsonPath } from './jsonPath';
+import { DucConverter, SchemaSource } from './ducConverter';
+
+/**
+ * The schema field a JSON path leads to
+ */
+interface ResolvedField {
+    owner: CompiledObject;
+    field: CompiledField;
+    /** Type of the value at the path, the element type for items of vectors */
+    type: CompiledType;
+    /** Value at the path */
+    value: unknown;
+}
+
+interface SchemaIndex {
+    content: string;
+    includes: IncludedSchema[];
+    compiled: CompiledSchema;
+    parsed: FbsSchema;
+    declarations: Map<string, FbsDeclaration>;
+    /** File of each declaration made in an included file */
+    declarationFiles: Map<FbsDeclaration, string>;
+}
+
+/**
+ * Describes decoded JSON using the schema it was decoded with, for hovers in
+ * the viewer and navigation to the schema definition of a field.
+ *
+ * The embedded schema is shown read-only under the `duc-schema` scheme.
+ */
+export class SchemaInfoProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'duc-schema';
+    private static instance: SchemaInfoProvider;
+    private readonly _registration: vscode.Disposable;
+    private _index: SchemaIndex | undefined;
+
+    private constructor(private readonly _context: vscode.ExtensionContext) {
+        this._registration = vscode.workspace.registerTextDocumentContentProvider(SchemaInfoProvider.scheme, this);
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): SchemaInfoProvider {
+        if (!SchemaInfoProvider.instance) {
+            SchemaInfoProvider.instance = new SchemaInfoProvider(context);
+            context.subscriptions.push(SchemaInfoProvider.instance);
+        }
+        return SchemaInfoProvider.instance;
+    }
+
+    public provideTextDocumentContent(): string {
+        return DUC_SCHEMA;
+    }
+
+    private getIndex(schemaContent: string, includes: IncludedSchema[]): SchemaIndex {
+        if (this._index?.content !== schemaContent || this._index.includes !== includes) {
+            const parsed = parseFbs(schemaContent);
+            const declarations = new Map<string, FbsDeclaration>();
+            const declarationFiles = new Map<FbsDeclaration, string>();
+            for (const include of includes) {
+                for (const declaration of parseFbs(include.content).declarations) {
+                    declarations.set(qualifiedName(declaration), declaration);
+                    declarationFiles.set(declaration, include.path);
+                }
+            }
+            for (const declaration of parsed.declarations) {
+                declarations.set(qualifiedName(declaration), declaration);
+            }
+            this._index = {
+                content: schemaContent,
+                includes,
+                compiled: getCompiledSchema(schemaContent, includes),
+                parsed,
+                declarations,
+                declarationFiles
+            };
+        }
+        return this._index;
+    }
+
+    /**
+     * Markdown describing the field at a path, or undefined when the path doesn't map to the schema
+     */
+    public describe(root: unknown, path: JsonPath, schemaContent: string, includes: IncludedSchema[] = []): string | undefined {
+        let index: SchemaIndex;
+        try {
+            index = this.getIndex(schemaContent, includes);
+        } catch (error) {
+            console.warn(`SchemaInfoProvider: Failed to parse schema: ${(error as Error).message}`);
+            return undefined;
+        }
+        const resolved = resolveField(index.compiled, root, path);
+        if (!resolved) {
+            return undefined;
+        }
+
+        const { owner, field, type, value } = resolved;
+        const source = this.findSourceField(index, owner, field);
+        const lines: string[] = [];
+
+        const typeText = source ? formatTypeRef(source.field) : formatType(field.type);
+        lines.push(`**${field.name}**: \`${typeText}\``, '');
+
+        const details = [`${owner.isStruct ? 'Struct' : 'Table'} \`${owner.name}\``];
+        if (field.type.kind === 'scalar' && field.defaultValue !== null && !field.key && !source?.isUnionType) {
+            details.push(`default \`${source?.field.defaultValue ?? formatScalarDefault(index.compiled, field)}\``);
+        }
+        for (const flag of ['required', 'deprecated', 'key'] as const) {
+            if (field[flag]) {
+                details.push(flag);
+            }
+        }
+        if (source?.isUnionType) {
+            details.push(`type of union field \`${source.field.name}\``);
+        }
+        lines.push(details.join(' · '));
+
+        const doc = source?.field.doc ?? [];
+        if (doc.length > 0) {
+            lines.push('', doc.join('\n'));
+        }
+
+        const enumInfo = this.describeEnumValue(index, type, value);
+        if (enumInfo) {
+            lines.push('', '---', '', enumInfo);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Open the schema at the definition of the field at a path, or at the root
+     * type. Fields declared in an included file open that file.
+     */
+    public async goToDefinition(
+        root: unknown,
+        path: JsonPath,
+        schemaContent: string,
+        schemaPath: string | undefined,
+        includes: IncludedSchema[] = []
+    ): Promise<void> {
+        let index: SchemaIndex;
+        try {
+            index = this.getIndex(schemaContent, includes);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to parse the schema: ${(error as Error).message}`);
+            return;
+        }
+
+        let location: FbsLocation | undefined;
+        let name: string | undefined;
+        let file = schemaPath;
+        const resolved = resolveField(index.compiled, root, path);
+        if (resolved) {
+            const source = this.findSourceField(index, resolved.owner, resolved.field);
+            location = source?.field.location;
+            name = source?.field.name;
+            const declaration = index.declarations.get(resolved.owner.name);
+            file = (declaration && index.declarationFiles.get(declaration)) ?? schemaPath;
+        } else if (index.parsed.rootType) {
+            location = index.parsed.rootType.location;
+        }
+
+        const start = location ? new vscode.Position(location.line - 1, location.column - 1) : new vscode.Position(0, 0);
+        const end = name ? start.translate(0, name.length) : start;
+        await this.openSchema(file, new vscode.Range(start, end));
+    }
+
+    /**
+     * Tell which schema a .duc file is decoded with and which setting chose it
+     */
+    public async showSchemaForFile(uri: vscode.Uri): Promise<void> {
+        const converter = DucConverter.getInstance(this._context);
+        let schema: SchemaSource;
+        try {
+            const fileData = await vscode.workspace.fs.readFile(uri);
+            schema = await converter.selectSchema(fileData, uri);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to select a schema for ${vscode.workspace.asRelativePath(uri)}: ${(error as Error).message}`);
+            return;
+        }
+
+        const openSchema = 'Open Schema';
+        const choice = await vscode.window.showInformationMessage(
+            `${vscode.workspace.asRelativePath(uri)} is decoded with ${schema.label}`,
+            { modal: true, detail: `${schema.reason}.${schema.path ? `\n\n${schema.path}` : ''}` },
+            openSchema
+        );
+        if (choice === openSchema) {
+            await this.openSchema(schema.path);
+        }
+    }
+
+    private async openSchema(schemaPath: string | undefined, selection?: vscode.Range): Promise<void> {
+        const schemaUri = schemaPath
+            ? vscode.Uri.file(schemaPath)
+            : vscode.Uri.from({ scheme: SchemaInfoProvider.scheme, path: '/duc.fbs' });
+        const document = await vscode.workspace.openTextDocument(schemaUri);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: vscode.ViewColumn.Beside,
+            selection
+        });
+    }
+
+    /**
+     * Declaration of a compiled field in the schema source. The hidden `<name>_type`
+     * field of a union maps to the union field itself.
+     */
+    private findSourceField(index: SchemaIndex, owner: CompiledObject, field: CompiledField): { field: FbsField; isUnionType: boolean } | undefined {
+        const declaration = index.declarations.get(owner.name) as FbsObject | undefined;
+        const exact = declaration?.fields.find(f => f.name === field.name);
+        if (exact) {
+            return { field: exact, isUnionType: false };
+        }
+        if (field.name.endsWith('_type')) {
+            const union = declaration?.fields.find(f => f.name === field.name.slice(0, -'_type'.length));
+            if (union) {
+                return { field: union, isUnionType: true };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Symbolic name and numeric value of an enum typed value
+     */
+    private describeEnumValue(index: SchemaIndex, type: CompiledType, value: unknown): string | undefined {
+        if (type.kind !== 'scalar' || !type.enumName) {
+            return undefined;
+        }
+        const compiled = index.compiled.enums.get(type.enumName)!;
+        const declaration = index.declarations.get(type.enumName) as FbsEnum | undefined;
+        const kind = compiled.isUnion ? 'Union' : 'Enum';
+        const header = `${kind} \`${compiled.name}\``;
+
+        const members = findEnumMembers(compiled, value);
+        if (members.length === 0) {
+            return value === undefined ? header : `${header}: \`${String(value)}\` is not a declared value`;
+        }
+        const lines = [header, ''];
+        for (const member of members) {
+            lines.push(`- \`${member.name}\` = ${member.value}`);
+            const doc = declaration?.values.find((v: FbsEnumValue) => v.name === member.name)?.doc ?? [];
+            if (doc.length > 0) {
+                lines.push(`  ${doc.join(' ')}`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    public dispose(): void {
+        this._registration.dispose();
+    }
+}
+
+/**
+ * Follow a path through the schema and the decoded value, picking union
+ * members from their `<field>_type` siblings
+ */
+function resolveField(schema: CompiledSchema, root: unknown, path: JsonPath): ResolvedField | undefined {
+    let obj: CompiledObject | undefined = schema.rootType;
+    let pending: CompiledType | undefined;
+    let value: unknown = root;
+    let unionTag: unknown;
+    let resolved: ResolvedField | undefined;
+
+    for (const segment of path) {
+        if (!pending) {
+            if (!obj || typeof segment !== 'string') {
+                return undefined;
+            }
+            const field = obj.fields.find(f => f.name === segment);
+            if (!field) {
+                return undefined;
+            }
+            const parent = value as Record<string, unknown> | undefined;
+            value = parent?.[segment];
+            unionTag = parent?.[`${segment}_type`];
+            pending = field.type;
+            resolved = { owner: obj, field, type: field.type, value };
+        } else {
+            if (typeof segment !== 'number' || (pending.kind !== 'vector' && pending.kind !== 'array')) {
+                return undefined;
+            }
+            value = Array.isArray(value) ? value[segment] : undefined;
+            unionTag = Array.isArray(unionTag) ? unionTag[segment] : undefined;
+            pending = pending.element;
+            resolved = { ...resolved!, type: pending, value };
+        }
+
+        // Step into tables, structs and union members
+        let objectType: CompiledType | undefined = pending;
+        if (pending.kind === 'union') {
+            const member = schema.enums.get(pending.name)!.values.find(v => v.name === unionTag);
+            objectType = member?.unionType;
+        }
+        if (objectType && (objectType.kind === 'table' || objectType.kind === 'struct')) {
+            obj = schema.objects.get(objectType.name);
+            pending = undefined;
+        } else if (pending.kind === 'union') {
+            obj = undefined;
+            pending = undefined;
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Members of an enum matching a value printed by the decoder: a name, space
+ * separated bit flag names or a number
+ */
+function findEnumMembers(en: CompiledEnum, value: unknown): { name: string; value: number }[] {
+    if (typeof value === 'string') {
+        const names = value.split(' ');
+        const members = en.values.filter(v => names.includes(v.name));
+        return members.length === names.length ? members : [];
+    }
+    if (typeof value !== 'number') {
+        return [];
+    }
+    const exact = en.values.find(v => v.value === value);
+    if (exact) {
+        return [exact];
+    }
+    if (en.bitFlags) {
+        return en.values.filter(v => v.value !== 0 && (value & v.value) === v.value);
+    }
+    return [];
+}
+
+function formatTypeRef(field: FbsField): string {
+    const { name, vector, arrayLength } = field.type;
+    if (vector) {
+        return `[${name}]`;
+    }
+    return arrayLength !== undefined ? `[${name}:${arrayLength}]` : name;
+}
+
+function formatType(type: CompiledType): string {
+    switch (type.kind) {
+        case 'scalar':
+            return type.enumName ?? type.scalar;
+        case 'string':
+            return 'string';
+        case 'vector':
+            return `[${formatType(type.element)}]`;
+        case 'array':
+            return `[${formatType(type.element)}:${type.length}]`;
+        default:
+            return type.name;
+    }
+}
+
+function formatScalarDefault(schema: CompiledSchema, field: CompiledField): string {
+    if (field.type.kind === 'scalar' && field.type.enumName) {
+        const member = schema.enums.get(field.type.enumName)!.values.find(v => v.value === field.defaultValue);
+        if (member) {
+            return member.name;
+        }
+    }
+    return String(field.defaultValue);
+}
@@ -1,12 +1,29 @@
-import * as fs from 'fs';
+import { JsonPath } from './jsonPath';
+import { CompiledObject, CompiledSchema, CompiledType, IncludedSchema, getCompiledSchema } from './schemaCompiler';
+
+/**
+ * A binary field of a decoded document, holding either its bytes or their
+ * Base64 encoding
+ */
+export interface BinaryField {
+    /**
+     * Path of the value in the document. Byte arrays nested in arrays are
+     * encoded in place to a single string, their path is the one of that string.
+     */
+    path: JsonPath;
+    value: unknown;
+    /** Replace the bytes with their Base64 encoding, or the other way round */
+    replace(value: string | number[]): void;
+}
 
 /**
  * Parses FlatBuffers schema files to detect byte array fields
  */
 export class SchemaParser {
     private static instance: SchemaParser;
-    private byteArrayFields: Set<string> = new Set();
-    private schemaContent: string = '';
+    private schema: CompiledSchema | undefined;
+    /** Results of `shouldEncodeAsBase64` by normalized path */
+    private resolvedPaths = new Map<string, boolean>();
 
     private constructor() {}
 
@@ -18,170 +35,164 @@ export class SchemaParser {
     }
 
     /**
-     * Parse a FlatBuffers schema file to detect byte array fields
+     * Parse a FlatBuffers schema and the files it includes to detect byte array fields
      */
-    public parseSchema(schemaContent: string): Set<string> {
-        this.schemaContent = schemaContent;
-        this.byteArrayFields.clear();
-
-        console.debug('SchemaParser: Starting schema parsing...');
-        
-        // Split into lines and parse each line
-        const lines = schemaContent.split('\n');
-        
-        for (const line of lines) {
-            this.parseLine(line.trim());
+    public parseSchema(schemaContent: string, includes: IncludedSchema[] = []): void {
+        let schema: CompiledSchema | undefined;
+        try {
+            schema = getCompiledSchema(schemaContent, includes);
+        } catch (error) {
+            console.warn(`SchemaParser: Failed to parse schema, no fields will be treated as binary: ${(error as Error).message}`);
+        }
+        if (schema !== this.schema) {
+            this.schema = schema;
+            this.resolvedPaths.clear();
         }
-
-        // Add known binary data fields from DUC schema
-        this.addKnownBinaryFields();
-
-        console.debug('SchemaParser: Detected byte array fields:', Array.from(this.byteArrayFields));
-        return this.byteArrayFields;
     }
 
     /**
-     * Parse a single line to detect byte array field declarations
+     * Check if a specific field path should be encoded as Base64.
+     *
+     * The path, e.g. `files.entries[0].value.data`, is followed through the
+     * schema from the root table, so `[byte]` and `[ubyte]` fields are found at any depth.
      */
-    private parseLine(line: string): void {
-        // Skip comments and empty lines
-        if (line.startsWith('//') || line.startsWith('#') || line.length === 0) {
-            return;
-        }
-
-        // Look for field declarations with byte arrays
-        // Pattern: field_name: [byte] or field_name: [ubyte]
-        const byteArrayPattern = /^\s*(\w+)\s*:\s*\[(?:u?)byte\]\s*(?:;|$)/;
-        const match = line.match(byteArrayPattern);
-        
-        if (match) {
-            const fieldName = match[1];
-            this.byteArrayFields.add(fieldName);
-            console.debug(`SchemaParser: Detected byte array field: ${fieldName}`);
-        }
-
-        // Also look for nested table fields that might contain byte arrays
-        // Pattern: field_name: TableName
-        const tableFieldPattern = /^\s*(\w+)\s*:\s*(\w+)(?:\s*;|\s*$)/;
-        const tableMatch = line.match(tableFieldPattern);
-        
-        if (tableMatch) {
-            const fieldName = tableMatch[1];
-            const tableName = tableMatch[2];
-            
-            // Skip primitive types and known non-table types
-            if (!this.isPrimitiveType(tableName)) {
-                // Check if this table contains byte arrays by looking ahead
-                this.checkTableForByteArrays(tableName, fieldName);
-            }
+    public shouldEncodeAsBase64(fieldPath: string): boolean {
+        // Array indices don't change the type
+        const normalizedPath = fieldPath.replace(/\[\d+\]/g, '');
+        let result = this.resolvedPaths.get(normalizedPath);
+        if (result === undefined) {
+            result = this.resolvePath(normalizedPath.split('.'));
+            this.resolvedPaths.set(normalizedPath, result);
         }
+        return result;
     }
 
     /**
-     * Check if a type name is a primitive type
+     * Call `visit` for every binary field of a decoded document. Encoding for
+     * the viewer, decoding for saves and exports and finding blobs all walk
+     * documents with it, so they agree on which fields are binary.
      */
-    private isPrimitiveType(typeName: string): boolean {
-        const primitiveTypes = new Set([
-            'bool', 'byte', 'ubyte', 'short', 'ushort', 'int', 'uint', 
-            'float', 'long', 'ulong', 'double', 'string'
-        ]);
-        return primitiveTypes.has(typeName);
-    }
+    public forEachBinaryField(value: unknown, visit: (field: BinaryField) => void): void {
+        // Shared by the whole walk, copied only for the fields found
+        const jsonPath: JsonPath = [];
 
-    /**
-     * Check if a table contains byte array fields
-     */
-    private checkTableForByteArrays(tableName: string, parentField: string): void {
-        const lines = this.schemaContent.split('\n');
-        let inTable = false;
-        let tableDepth = 0;
-
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            
-            // Check if we're entering the target table
-            if (trimmedLine === `table ${tableName} {`) {
-                inTable = true;
-                tableDepth = 1;
-                continue;
+        const walk = (obj: unknown, path: string): void => {
+            if (!obj || typeof obj !== 'object') {
+                return;
             }
 
-            if (inTable) {
-                // Count braces to track table depth
-                const openBraces = (line.match(/\{/g) || []).length;
-                const closeBraces = (line.match(/\}/g) || []).length;
-                tableDepth += openBraces - closeBraces;
-
-                // If we've exited the table, stop looking
-                if (tableDepth <= 0) {
-                    break;
+            if (Array.isArray(obj)) {
+                if (this.shouldEncodeAsBase64(path)) {
+                    visit({
+                        path: [...jsonPath, 0],
+                        value: obj.length === 1 && typeof obj[0] === 'string' ? obj[0] : obj,
+                        replace: replacement => {
+                            obj.length = 0;
+                            if (typeof replacement === 'string') {
+                                obj.push(replacement);
+                                return;
+                            }
+                            // Push one by one, spreading large blobs into push overflows the stack
+                            for (const byte of replacement) {
+                                obj.push(byte);
+                            }
+                        }
+                    });
+                    return;
                 }
+                for (let i = 0; i < obj.length; i++) {
+                    jsonPath.push(i);
+                    walk(obj[i], `${path}[${i}]`);
+                    jsonPath.pop();
+                }
+                return;
+            }
 
-                // Look for byte array fields within this table
-                const byteArrayPattern = /^\s*(\w+)\s*:\s*\[(?:u?)byte\]/;
-                const match = line.match(byteArrayPattern);
-                
-                if (match) {
-                    const fieldName = match[1];
-                    const fullFieldPath = `${parentField}.${fieldName}`;
-                    this.byteArrayFields.add(fullFieldPath);
-                    console.debug(`SchemaParser: Detected nested byte array field: ${fullFieldPath}`);
+            const record = obj as Record<string, unknown>;
+            for (const [key, child] of Object.entries(record)) {
+                const currentPath = path ? `${path}.${key}` : key;
+                jsonPath.push(key);
+                if (this.shouldEncodeAsBase64(currentPath)) {
+                    visit({
+                        path: [...jsonPath],
+                        value: child,
+                        replace: replacement => {
+                            record[key] = replacement;
+                        }
+                    });
+                } else {
+                    walk(child, currentPath);
                 }
+                jsonPath.pop();
             }
-        }
-    }
+        };
 
-    /**
-     * Get all detected byte array fields
-     */
-    public getByteArrayFields(): Set<string> {
-        return new Set(this.byteArrayFields);
+        walk(value, '');
     }
 
-    /**
-     * Check if a specific field path should be encoded as Base64
-     */
-    public shouldEncodeAsBase64(fieldPath: string): boolean {
-        // First check for exact match
-        if (this.byteArrayFields.has(fieldPath)) {
-            console.debug(`SchemaParser: Exact match found for "${fieldPath}"`);
-            return true;
+    private resolvePath(segments: string[]): boolean {
+        if (!this.schema || segments.length === 0 || segments[0] === '') {
+            return false;
         }
 
-        // Normalize path by removing array indices for pattern matching
-        const normalizedPath = fieldPath.replace(/\[\d+\]/g, '');
-        if (this.byteArrayFields.has(normalizedPath)) {
-            console.debug(`SchemaParser: Pattern match found for "${fieldPath}" -> normalized to "${normalizedPath}"`);
-            return true;
+        // Without a root type, the path may start at any table
+        let current: CompiledObject[] = this.schema.rootType
+            ? [this.schema.rootType]
+            : [...this.schema.objects.values()].filter(obj => !obj.isStruct);
+
+        for (let i = 0; i < segments.length; i++) {
+            const isLast = i === segments.length - 1;
+            const next = new Set<CompiledObject>();
+            for (const obj of current) {
+                const field = obj.fields.find(f => f.name === segments[i]);
+                if (!field) {
+                    continue;
+                }
+                if (isLast) {
+                    if (isByteVector(field.type)) {
+                        return true;
+                    }
+                    continue;
+                }
+                for (const child of this.objectsOf(field.type)) {
+                    next.add(child);
+                }
+            }
+            current = [...next];
+            if (current.length === 0) {
+                return false;
+            }
         }
-
-        console.debug(`SchemaParser: No match found for "${fieldPath}"`);
-        console.debug(`SchemaParser: Available byte array fields:`, Array.from(this.byteArrayFields));
         return false;
     }
 
     /**
-     * Get byte array fields for a specific object path
+     * Tables and structs a value of the given type can hold
      */
-    public getByteArrayFieldsForPath(path: string): string[] {
-        return Array.from(this.byteArrayFields).filter(field => 
-            field.startsWith(path + '.') || field === path
-        );
+    private objectsOf(type: CompiledType): CompiledObject[] {
+        switch (type.kind) {
+            case 'table':
+            case 'struct':
+                return [this.schema!.objects.get(type.name)!];
+            case 'vector':
+            case 'array':
+                return this.objectsOf(type.element);
+            case 'union':
+                return this.schema!.enums.get(type.name)!.values.flatMap(
+                    value => (value.unionType ? this.objectsOf(value.unionType) : [])
+                );
+            default:
+                return [];
+        }
     }
+}
 
-    /**
-     * Add known binary data fields from the DUC schema
-     */
-    private addKnownBinaryFields(): void {
-        // Add the known binary data field from BinaryFileData table
-        this.byteArrayFields.add('data');
-        this.byteArrayFields.add('files.entries.value.data');
-        
-        // Add common binary field patterns
-        this.byteArrayFields.add('thumbnail');
-        this.byteArrayFields.add('version_graph.checkpoints.data');
-        this.byteArrayFields.add('external_files.value.data');
-        
-        console.debug('SchemaParser: Added known binary fields: data, files.entries.value.data, thumbnail, version_graph.checkpoints.data, external_files.value.data');
-    }
-} 
\ No newline at end of file
+/**
+ * Whether a field holds raw bytes, `[byte]` or `[ubyte]` but not vectors of byte sized enums
+ */
+function isByteVector(type: CompiledType): boolean {
+    return type.kind === 'vector'
+        && type.element.kind === 'scalar'
+        && !type.element.enumName
+        && (type.element.scalar === 'ubyte' || type.element.scalar === 'byte');
+}
@@ -0,0 +1,301 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlatBufferDecoder } from './flatbufferDecoder';
+import { IncludedSchema, getCompiledSchema } from './schemaCompiler';
+import { parseFbs } from './fbsParser';
+
+/**
+ * What a buffer says about its format, read before decoding it
+ */
+export interface BufferHeader {
+    /** The 4 character file identifier, e.g. `DUC_` */
+    fileIdentifier?: string;
+    /** Value of the root table's version field */
+    version?: string;
+}
+
+/**
+ * A schema file configured for the versions or files matching `pattern`
+ */
+export interface RegisteredSchema {
+    pattern: string;
+    /** Absolute path of the .fbs file */
+    path: string;
+    /** Settings scope the entry comes from, e.g. `Workspace Settings` */
+    scope: string;
+}
+
+/**
+ * Read the file identifier and the format version of a buffer.
+ *
+ * The version is taken from the root table's `version` field, or from the
+ * first other root field whose name starts with `version` (such as a
+ * deprecated `version_legacy`), using `schemaContent` to locate it.
+ */
+export function readBufferHeader(fileData: Uint8Array, schemaContent: string, includes: IncludedSchema[] = []): BufferHeader {
+    let decoder: FlatBufferDecoder;
+    try {
+        decoder = new FlatBufferDecoder(fileData, getCompiledSchema(schemaContent, includes));
+    } catch (error) {
+        console.warn(`SchemaRegistry: Failed to compile schema to read the buffer header: ${(error as Error).message}`);
+        return {};
+    }
+
+    const header: BufferHeader = { fileIdentifier: decoder.readFileIdentifier() };
+    const fields = getCompiledSchema(schemaContent, includes).rootType?.fields ?? [];
+    const candidates = [
+        ...fields.filter(field => field.name === 'version'),
+        ...fields.filter(field => field.name !== 'version' && field.name.startsWith('version'))
+    ];
+    for (const field of candidates) {
+        try {
+            const value = decoder.decodeRootField(field.name);
+            if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+                header.version = String(value);
+                break;
+            }
+        } catch {
+            // Not a valid buffer for this schema, the full decode reports the error
+            break;
+        }
+    }
+    return header;
+}
+
+/**
+ * Find the schema registered in `ducPreview.schemaRegistry` for a format version.
+ *
+ * Keys are versions where `*` matches any characters, e.g. `1.*`. An exact key
+ * wins over patterns, and longer patterns over shorter ones. Relative paths are
+ * resolved against the workspace folder of `uri`.
+ */
+export function findRegisteredSchema(version: string, uri?: vscode.Uri): RegisteredSchema | undefined {
+    const registry = vscode.workspace
+        .getConfiguration('ducPreview', uri)
+        .get<Record<string, string>>('schemaRegistry', {});
+
+    const matches = Object.keys(registry)
+        .filter(pattern => typeof registry[pattern] === 'string' && matchesVersion(pattern, version))
+        .sort((a, b) => Number(b === version) - Number(a === version) || b.replace(/\*/g, '').length - a.replace(/\*/g, '').length);
+    if (matches.length === 0) {
+        return undefined;
+    }
+
+    const pattern = matches[0];
+    return {
+        pattern,
+        path: resolveSchemaPath(registry[pattern], uri),
+        scope: getSettingScope('schemaRegistry', uri, pattern)
+    };
+}
+
+/**
+ * Find the schema associated with a file in `ducPreview.schemaAssociations`.
+ *
+ * Keys are glob patterns matched against the path of the file relative to its
+ * workspace folder, or against its file name when they contain no `/`. Longer
+ * patterns win over shorter ones, as they are usually more specific.
+ */
+export function findAssociatedSchema(uri: vscode.Uri): RegisteredSchema | undefined {
+    const associations = vscode.workspace
+        .getConfiguration('ducPreview', uri)
+        .get<Record<string, string>>('schemaAssociations', {});
+
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const filePath = uri.fsPath.replace(/\\/g, '/');
+    const relativePath = folder ? path.posix.relative(folder.uri.path, uri.path) : undefined;
+    const matches = Object.keys(associations)
+        .filter(pattern => typeof associations[pattern] === 'string'
+            && matchesGlob(substituteVariables(pattern, uri), filePath, relativePath))
+        .sort((a, b) => b.length - a.length);
+    if (matches.length === 0) {
+        return undefined;
+    }
+
+    const pattern = matches[0];
+    return {
+        pattern,
+        path: resolveSchemaPath(associations[pattern], uri),
+        scope: getSettingScope('schemaAssociations', uri, pattern)
+    };
+}
+
+/**
+ * Resolve a schema path from the settings. Variables are substituted and
+ * relative paths are resolved against the workspace folder of `uri`.
+ */
+export function resolveSchemaPath(schemaPath: string, uri?: vscode.Uri): string {
+    const resolved = substituteVariables(schemaPath, uri);
+    if (path.isAbsolute(resolved)) {
+        return resolved;
+    }
+    const folder = getWorkspaceFolder(uri);
+    return folder ? path.join(folder.uri.fsPath, resolved) : resolved;
+}
+
+/**
+ * Directories searched for the files a schema includes, from `ducPreview.schemaIncludePaths`
+ */
+export function getSchemaIncludeDirs(uri?: vscode.Uri): string[] {
+    return vscode.workspace
+        .getConfiguration('ducPreview', uri)
+        .get<string[]>('schemaIncludePaths', [])
+        .filter(dir => typeof dir === 'string' && dir !== '')
+        .map(dir => resolveSchemaPath(dir, uri));
+}
+
+/**
+ * Read the files included by a schema, following includes of included files.
+ *
+ * Like flatc, an include is looked up relative to the directory of the file
+ * including it and then in each of the include directories.
+ */
+export async function loadSchemaIncludes(schemaPath: string, schemaContent: string, uri?: vscode.Uri): Promise<IncludedSchema[]> {
+    const includeDirs = getSchemaIncludeDirs(uri);
+    const includes: IncludedSchema[] = [];
+    const seen = new Set([path.resolve(schemaPath)]);
+    const pending = [{ path: schemaPath, content: schemaContent }];
+
+    for (let file = pending.shift(); file; file = pending.shift()) {
+        let statements;
+        try {
+            statements = parseFbs(file.content).includes;
+        } catch (error) {
+            throw new Error(`Failed to parse the schema ${file.path}: ${(error as Error).message}`);
+        }
+        for (const statement of statements) {
+            const searchDirs = [path.dirname(file.path), ...includeDirs];
+            const found = await findFirstReadable(searchDirs.map(dir => path.resolve(dir, statement.path)));
+            if (!found) {
+                throw new Error(
+                    `Cannot find "${statement.path}" included on line ${statement.location.line} of ${file.path}. `
+                    + `Searched ${searchDirs.join(', ')}; add its directory to ducPreview.schemaIncludePaths.`
+                );
+            }
+            if (seen.has(found)) {
+                continue;
+            }
+            seen.add(found);
+            const included = { path: found, content: await fs.promises.readFile(found, 'utf8') };
+            includes.push(included);
+            pending.push(included);
+        }
+    }
+    return includes;
+}
+
+async function findFirstReadable(candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+        try {
+            await fs.promises.access(candidate, fs.constants.R_OK);
+            return candidate;
+        } catch {
+            // Try the next directory
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Substitute `${workspaceFolder}`, `${workspaceFolder:name}` and `${userHome}`,
+ * the workspace folder being the one containing `uri`
+ */
+function substituteVariables(text: string, uri: vscode.Uri | undefined): string {
+    return text.replace(/\$\{(workspaceFolder|userHome)(?::([^}]+))?\}/g, (match, variable: string, name?: string) => {
+        if (variable === 'userHome') {
+            return os.homedir();
+        }
+        const folder = name ? vscode.workspace.workspaceFolders?.find(f => f.name === name) : getWorkspaceFolder(uri);
+        return folder ? folder.uri.fsPath : match;
+    });
+}
+
+function getWorkspaceFolder(uri: vscode.Uri | undefined): vscode.WorkspaceFolder | undefined {
+    return (uri && vscode.workspace.getWorkspaceFolder(uri)) ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+/**
+ * Name of the most specific settings scope defining a `ducPreview` setting, or
+ * one of its entries for object settings
+ */
+export function getSettingScope(setting: string, uri?: vscode.Uri, entry?: string): string {
+    const inspected = vscode.workspace.getConfiguration('ducPreview', uri).inspect<unknown>(setting);
+    const scopes: [string, unknown][] = [
+        ['Workspace Folder Settings', inspected?.workspaceFolderValue],
+        ['Workspace Settings', inspected?.workspaceValue],
+        ['User Settings', inspected?.globalValue]
+    ];
+    for (const [name, value] of scopes) {
+        const defined = entry === undefined
+            ? value !== undefined
+            : typeof value === 'object' && value !== null && Object.prototype.hasOwnProperty.call(value, entry);
+        if (defined) {
+            return name;
+        }
+    }
+    return 'Default Settings';
+}
+
+function matchesVersion(pattern: string, version: string): boolean {
+    const regex = pattern.split('*').map(escapeRegExp).join('.*');
+    return new RegExp(`^${regex}$`).test(version);
+}
+
+function matchesGlob(pattern: string, filePath: string, relativePath: string | undefined): boolean {
+    const glob = pattern.replace(/\\/g, '/');
+    if (!glob.includes('/')) {
+        return globToRegExp(glob).test(path.posix.basename(filePath));
+    }
+    if (path.isAbsolute(pattern)) {
+        return globToRegExp(glob).test(filePath);
+    }
+    return relativePath !== undefined && globToRegExp(glob.replace(/^\.\//, '')).test(relativePath);
+}
+
+/**
+ * Convert a glob supporting `**`, `*`, `?`, `{a,b}` and `[abc]` to a regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches any number of folders, including none
+                const slash = glob[i + 2] === '/';
+                regex += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (ch === '?') {
+            regex += '[^/]';
+        } else if (ch === '{') {
+            braceDepth++;
+            regex += '(?:';
+        } else if (ch === '}' && braceDepth > 0) {
+            braceDepth--;
+            regex += ')';
+        } else if (ch === ',' && braceDepth > 0) {
+            regex += '|';
+        } else if (ch === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                regex += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else {
+            regex += escapeRegExp(ch);
+        }
+    }
+    return new RegExp(`^${regex}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+?^${}()|[\]\\*]/g, '\\$&');
+}
@@ -0,0 +1,43 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { BufferLayoutIndex, BufferRegion, encodeBufferLayout } from '../bufferLayout';
+
+const REGIONS: BufferRegion[] = [
+    { start: 0, end: 8, kind: 'header', path: [], label: 'header' },
+    { start: 8, end: 16, kind: 'vtable', path: [], label: 'vtable of Root' },
+    { start: 16, end: 32, kind: 'table', path: [], label: 'Root' },
+    { start: 20, end: 24, kind: 'field', path: ['count'], label: 'count: int' },
+    { start: 32, end: 48, kind: 'vector', path: ['items'], label: '[Item]' },
+    { start: 48, end: 64, kind: 'table', path: ['items', 0], label: 'Item' },
+];
+
+const index = new BufferLayoutIndex(encodeBufferLayout({ regions: REGIONS, truncated: false, errors: [] }));
+
+describe('BufferLayoutIndex', () => {
+    it('sends the regions overlapping a range with their paths and labels', () => {
+        const slice = index.slice(18, 40);
+        const regions = [];
+        for (let i = 0; i < slice.regions.length; i += 5) {
+            regions.push([slice.regions[i], slice.regions[i + 1], slice.labels[slice.regions[i + 4]], slice.paths[slice.regions[i + 3]]]);
+        }
+        assert.deepEqual(regions, [
+            [16, 32, 'Root', []],
+            [20, 24, 'count: int', ['count']],
+            [32, 48, '[Item]', ['items']],
+        ]);
+    });
+
+    it('sends no regions for bytes no region covers', () => {
+        assert.deepEqual(index.slice(64, 128).regions, []);
+    });
+
+    it('finds every range of a node', () => {
+        assert.deepEqual(index.findRanges([]), [0, 8, 8, 16, 16, 32]);
+        assert.deepEqual(index.findRanges(['items', 0]), [48, 64]);
+    });
+
+    it('falls back to the closest ancestor with bytes of its own', () => {
+        assert.deepEqual(index.findRanges(['items', 0, 'name']), [48, 64]);
+        assert.deepEqual(index.findRanges(['missing']), [0, 8, 8, 16, 16, 32]);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { computeDucDiff } from '../ducDiff';
+
+describe('computeDucDiff', () => {
+    it('matches the items of top-level lists by id', () => {
+        const diff = computeDucDiff(
+            { elements: [{ id: 'a', x: 1 }, { id: 'b', x: 2 }] },
+            { elements: [{ id: 'b', x: 3 }, { id: 'c', x: 4 }] }
+        );
+        assert.deepEqual(diff.sections, [{
+            name: 'elements',
+            added: [{ id: 'c', type: undefined }],
+            removed: [{ id: 'a', type: undefined }],
+            modified: [{ id: 'b', type: undefined, changes: [{ path: 'x', before: 2, after: 3 }] }],
+            reordered: false,
+            duplicateIds: [],
+        }]);
+    });
+
+    it('detects items present on both sides in another order', () => {
+        const diff = computeDucDiff(
+            { layers: [{ id: 'a' }, { id: 'b' }] },
+            { layers: [{ id: 'b' }, { id: 'a' }] }
+        );
+        assert.equal(diff.sections[0].reordered, true);
+    });
+
+    it('keeps every item of a duplicated id, matched by position', () => {
+        const diff = computeDucDiff(
+            { elements: [{ id: 'a', x: 1 }, { id: 'a', x: 2 }, { id: 'a', x: 3 }] },
+            { elements: [{ id: 'a', x: 1 }, { id: 'a', x: 5 }] }
+        );
+        const [section] = diff.sections;
+        assert.deepEqual(section.duplicateIds, ['a']);
+        assert.deepEqual(section.removed, [{ id: 'a', type: undefined, occurrence: 3 }]);
+        assert.deepEqual(section.modified, [{
+            id: 'a',
+            type: undefined,
+            occurrence: 2,
+            changes: [{ path: 'x', before: 2, after: 5 }],
+        }]);
+        assert.equal(section.reordered, false);
+    });
+
+    it('tells apart duplicated ids in nested lists', () => {
+        const diff = computeDucDiff(
+            { state: { groups: [{ id: 'g' }, { id: 'g', name: 'old' }] } },
+            { state: { groups: [{ id: 'g' }] } }
+        );
+        assert.deepEqual(diff.fieldChanges, [
+            { path: 'state.groups[id=g#2]', before: { id: 'g', name: 'old' }, after: undefined },
+        ]);
+    });
+});
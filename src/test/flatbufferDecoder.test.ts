@@ -0,0 +1,171 @@
+import * as assert from 'assert/strict';
+import { Builder } from 'flatbuffers';
+import { describe, it } from 'node:test';
+import { FlatBufferDecoder } from '../flatbufferDecoder';
+import { compileSchema } from '../schemaCompiler';
+
+const SCHEMA = compileSchema(`
+enum Color : byte { Red, Green, Blue }
+
+struct Point {
+    x: float;
+    y: float;
+}
+
+table Circle {
+    radius: float;
+}
+
+table Square {
+    side: float;
+}
+
+union Shape { Circle, Square }
+
+table Element {
+    id: string (key);
+    color: Color = Green;
+    origin: Point;
+    shape: Shape;
+    tags: [string];
+    size: long;
+    count: ulong;
+    hidden: bool (deprecated);
+}
+
+root_type Element;
+file_identifier "TEST";
+`);
+
+interface ElementFields {
+    id?: string;
+    color?: number;
+    origin?: [number, number];
+    circleRadius?: number;
+    tags?: string[];
+    size?: bigint;
+    count?: bigint;
+}
+
+/**
+ * Build an `Element` buffer, leaving out the fields that aren't given
+ */
+function buildElement(fields: ElementFields): Uint8Array {
+    const builder = new Builder();
+    const id = fields.id !== undefined ? builder.createString(fields.id) : 0;
+    let tags = 0;
+    if (fields.tags) {
+        const offsets = fields.tags.map(tag => builder.createString(tag));
+        builder.startVector(4, offsets.length, 4);
+        for (let i = offsets.length - 1; i >= 0; i--) {
+            builder.addOffset(offsets[i]);
+        }
+        tags = builder.endVector();
+    }
+    let circle = 0;
+    if (fields.circleRadius !== undefined) {
+        builder.startObject(1);
+        builder.addFieldFloat32(0, fields.circleRadius, null);
+        circle = builder.endObject();
+    }
+
+    builder.startObject(9);
+    if (id) {
+        builder.addFieldOffset(0, id, 0);
+    }
+    if (fields.color !== undefined) {
+        builder.addFieldInt8(1, fields.color, null);
+    }
+    if (fields.origin) {
+        builder.prep(4, 8);
+        builder.writeFloat32(fields.origin[1]);
+        builder.writeFloat32(fields.origin[0]);
+        builder.addFieldStruct(2, builder.offset(), 0);
+    }
+    if (circle) {
+        builder.addFieldInt8(3, 1, null);
+        builder.addFieldOffset(4, circle, 0);
+    }
+    if (tags) {
+        builder.addFieldOffset(5, tags, 0);
+    }
+    if (fields.size !== undefined) {
+        builder.addFieldInt64(6, fields.size, null);
+    }
+    if (fields.count !== undefined) {
+        builder.addFieldInt64(7, fields.count, null);
+    }
+    builder.finish(builder.endObject(), 'TEST');
+    return builder.asUint8Array();
+}
+
+describe('FlatBufferDecoder', () => {
+    it('decodes fields in declaration order like flatc', () => {
+        const bytes = buildElement({
+            id: 'rect-1',
+            color: 2,
+            origin: [1.5, -2],
+            circleRadius: 0.1,
+            tags: ['a', 'b'],
+            size: BigInt(42),
+        });
+        const decoded = new FlatBufferDecoder(bytes, SCHEMA).decode();
+        assert.deepEqual(decoded, {
+            id: 'rect-1',
+            color: 'Blue',
+            origin: { x: 1.5, y: -2 },
+            shape_type: 'Circle',
+            shape: { radius: 0.1 },
+            tags: ['a', 'b'],
+            size: 42,
+        });
+        assert.deepEqual(Object.keys(decoded), ['id', 'color', 'origin', 'shape_type', 'shape', 'tags', 'size']);
+    });
+
+    it('omits absent fields', () => {
+        const decoded = new FlatBufferDecoder(buildElement({}), SCHEMA).decode();
+        assert.deepEqual(decoded, {});
+    });
+
+    it('prints enum values without a name as numbers', () => {
+        const decoded = new FlatBufferDecoder(buildElement({ color: 7 }), SCHEMA).decode();
+        assert.equal(decoded.color, 7);
+    });
+
+    it('keeps 64-bit integers exact', () => {
+        const decoded = new FlatBufferDecoder(buildElement({
+            size: BigInt('-9223372036854775808'),
+            count: BigInt('18446744073709551615'),
+        }), SCHEMA).decode();
+        assert.equal(decoded.size, '-9223372036854775808');
+        assert.equal(decoded.count, '18446744073709551615');
+
+        const safe = new FlatBufferDecoder(buildElement({
+            size: BigInt(Number.MIN_SAFE_INTEGER),
+            count: BigInt(Number.MAX_SAFE_INTEGER),
+        }), SCHEMA).decode();
+        assert.equal(safe.size, Number.MIN_SAFE_INTEGER);
+        assert.equal(safe.count, Number.MAX_SAFE_INTEGER);
+    });
+
+    it('reads the file identifier and single root fields', () => {
+        const decoder = new FlatBufferDecoder(buildElement({ id: 'rect-1', size: BigInt(3) }), SCHEMA);
+        assert.equal(decoder.readFileIdentifier(), 'TEST');
+        assert.equal(decoder.decodeRootField('id'), 'rect-1');
+        assert.equal(decoder.decodeRootField('size'), 3);
+        assert.equal(decoder.decodeRootField('tags'), undefined);
+    });
+
+    it('rejects truncated buffers', () => {
+        const bytes = buildElement({ id: 'rect-1', tags: ['a'] });
+        assert.throws(
+            () => new FlatBufferDecoder(bytes.subarray(0, bytes.length - 8), SCHEMA).decode(),
+            /out of bounds/
+        );
+    });
+
+    it('requires a root type', () => {
+        const schema = compileSchema('table T { a: int; }');
+        assert.throws(() => new FlatBufferDecoder(buildElement({}), schema).decode(), /Schema has no root_type/);
+    });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { compileSchema, getCompiledSchema } from '../schemaCompiler';
+
+const SCHEMA = `
+namespace Test;
+
+enum Color : byte { Red, Green, Blue = 5 }
+
+enum Flags : ubyte (bit_flags) { Visible, Locked }
+
+struct Point {
+    x: float;
+    y: double;
+}
+
+table Circle {
+    radius: float = 1;
+}
+
+union Shape { Circle }
+
+table Element {
+    id: string (key);
+    color: Color = Green;
+    origin: Point;
+    shape: Shape;
+    size: long;
+}
+
+root_type Element;
+file_identifier "TEST";
+file_extension "tst";
+`;
+
+describe('compileSchema', () => {
+    it('resolves the root type, file identifier and extension', () => {
+        const schema = compileSchema(SCHEMA);
+        assert.equal(schema.rootType?.name, 'Test.Element');
+        assert.equal(schema.fileIdentifier, 'TEST');
+        assert.equal(schema.fileExtension, 'tst');
+    });
+
+    it('numbers enum values after the previous one', () => {
+        const color = compileSchema(SCHEMA).enums.get('Test.Color');
+        assert.deepEqual(color?.values.map(v => [v.name, v.value]), [['Red', 0], ['Green', 1], ['Blue', 5]]);
+        assert.equal(color?.underlying, 'byte');
+    });
+
+    it('turns bit flags into powers of two', () => {
+        const flags = compileSchema(SCHEMA).enums.get('Test.Flags');
+        assert.equal(flags?.bitFlags, true);
+        assert.deepEqual(flags?.values.map(v => v.value), [1, 2]);
+    });
+
+    it('aligns struct fields and sizes the struct', () => {
+        const point = compileSchema(SCHEMA).objects.get('Test.Point');
+        assert.equal(point?.isStruct, true);
+        assert.deepEqual(point?.fields.map(f => f.offset), [0, 8]);
+        assert.equal(point?.byteSize, 16);
+        assert.equal(point?.minAlign, 8);
+    });
+
+    it('gives unions a hidden type field in the slot before them', () => {
+        const element = compileSchema(SCHEMA).objects.get('Test.Element');
+        assert.deepEqual(
+            element?.fields.map(f => [f.name, f.slot]),
+            [['id', 0], ['color', 1], ['origin', 2], ['shape_type', 3], ['shape', 4], ['size', 5]]
+        );
+        assert.deepEqual(element?.fields.find(f => f.name === 'shape')?.type, { kind: 'union', name: 'Test.Shape' });
+    });
+
+    it('resolves defaults, enum defaults and field attributes', () => {
+        const schema = compileSchema(SCHEMA);
+        const element = schema.objects.get('Test.Element');
+        const color = element?.fields.find(f => f.name === 'color');
+        assert.equal(color?.defaultValue, 1);
+        assert.deepEqual(color?.type, { kind: 'scalar', scalar: 'byte', enumName: 'Test.Color' });
+        assert.equal(element?.fields.find(f => f.name === 'id')?.key, true);
+        assert.equal(schema.objects.get('Test.Circle')?.fields[0].defaultValue, 1);
+    });
+
+    it('uses id attributes as slots', () => {
+        const schema = compileSchema('table T { a: int (id: 1); b: int (id: 0); } root_type T;');
+        assert.deepEqual(schema.rootType?.fields.map(f => [f.name, f.slot]), [['a', 1], ['b', 0]]);
+    });
+
+    it('rejects tables where only some fields have an id', () => {
+        assert.throws(
+            () => compileSchema('table T { a: int (id: 0); b: int; }'),
+            /Field 'b' of 'T' is missing an id attribute/
+        );
+    });
+
+    it('rejects unknown types', () => {
+        assert.throws(() => compileSchema('table T { a: Missing; }'), /Unknown type 'Missing'/);
+    });
+
+    it('rejects an unknown root type', () => {
+        assert.throws(() => compileSchema('table T { a: int; } root_type U;'), /Unknown root_type 'U'/);
+    });
+
+    it('finds types declared in included schemas', () => {
+        const schema = compileSchema(
+            'include "point.fbs"; table T { p: Geo.Point; } root_type T;',
+            [{ path: 'point.fbs', content: 'namespace Geo; struct Point { x: int; y: int; }' }]
+        );
+        assert.deepEqual(schema.rootType?.fields[0].type, { kind: 'struct', name: 'Geo.Point' });
+    });
+
+    it('names the included schema that fails to parse', () => {
+        assert.throws(
+            () => compileSchema('table T { a: int; }', [{ path: 'broken.fbs', content: 'table {' }]),
+            /^Error: broken\.fbs: /
+        );
+    });
+});
+
+describe('getCompiledSchema', () => {
+    it('reuses the previous result for the same text and includes', () => {
+        const first = getCompiledSchema(SCHEMA, [{ path: 'a.fbs', content: '' }]);
+        assert.equal(getCompiledSchema(SCHEMA, [{ path: 'a.fbs', content: '' }]), first);
+        assert.notEqual(getCompiledSchema(SCHEMA), first);
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { JsonPath } from '../jsonPath';
+import { SchemaParser } from '../schemaParser';
+
+const SCHEMA = `
+enum Level : ubyte { Low, High }
+
+table File {
+    name: string;
+    data: [ubyte];
+    levels: [Level];
+}
+
+table Root {
+    files: [File];
+    thumbnail: [byte];
+}
+
+root_type Root;
+`;
+
+function fieldPaths(parser: SchemaParser, value: unknown): JsonPath[] {
+    const paths: JsonPath[] = [];
+    parser.forEachBinaryField(value, field => paths.push(field.path));
+    return paths;
+}
+
+describe('SchemaParser.forEachBinaryField', () => {
+    it('finds byte vectors at any depth, but not vectors of enums', () => {
+        const parser = SchemaParser.getInstance();
+        parser.parseSchema(SCHEMA);
+        const document = {
+            files: [{ name: 'a', data: [1, 2], levels: ['Low'] }, { name: 'b', data: [3] }],
+            thumbnail: [255],
+        };
+        assert.deepEqual(fieldPaths(parser, document), [['files', 0, 'data'], ['files', 1, 'data'], ['thumbnail']]);
+    });
+
+    it('replaces bytes with Base64 strings and back', () => {
+        const parser = SchemaParser.getInstance();
+        parser.parseSchema(SCHEMA);
+        const document = { files: [{ name: 'a', data: [104, 105] }] };
+
+        parser.forEachBinaryField(document, field => {
+            if (Array.isArray(field.value)) {
+                field.replace(Buffer.from(field.value as number[]).toString('base64'));
+            }
+        });
+        assert.deepEqual(document, { files: [{ name: 'a', data: 'aGk=' }] });
+
+        parser.forEachBinaryField(document, field => {
+            if (typeof field.value === 'string') {
+                field.replace(Array.from(Buffer.from(field.value, 'base64')));
+            }
+        });
+        assert.deepEqual(document, { files: [{ name: 'a', data: [104, 105] }] });
+    });
+
+    it('walks nothing without a schema', () => {
+        const parser = SchemaParser.getInstance();
+        parser.parseSchema('table {');
+        assert.deepEqual(fieldPaths(parser, { thumbnail: [1] }), []);
+    });
+});